@@ -0,0 +1,114 @@
+import { NextRequest } from 'next/server';
+
+import { epornerClient, EpornerVideo } from '@/lib/eporner.client';
+import { invalidateCache } from '@/lib/server.cache';
+
+import { GET } from '@/app/api/maccms/route';
+
+jest.mock('@/lib/eporner.client', () => ({
+  ...jest.requireActual('@/lib/eporner.client'),
+  epornerClient: { search: jest.fn(), getVideoById: jest.fn() },
+}));
+jest.mock('@/lib/config', () => ({
+  getCacheTime: async () => 300,
+  getConfig: async () => ({
+    MacCMSCategories: [
+      {
+        type_id: 5,
+        type_name: '热门',
+        type_pid: 0,
+        query: 'popular',
+        order: 'most-viewed',
+      },
+    ],
+  }),
+}));
+
+const mockClient = epornerClient as jest.Mocked<typeof epornerClient>;
+
+// added 为 Eporner 的本地时间格式
+function video(id: string, hoursAgo: number): EpornerVideo {
+  const added = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    id,
+    title: `Video ${id}`,
+    keywords: '',
+    views: 0,
+    rate: 0,
+    url: '',
+    embed: '',
+    added: `${added.getFullYear()}-${pad(added.getMonth() + 1)}-${pad(
+      added.getDate()
+    )} ${pad(added.getHours())}:${pad(added.getMinutes())}:00`,
+    length_sec: 60,
+    default_thumb: { src: '', width: 0, height: 0 },
+    thumbs: [],
+  };
+}
+
+describe('/api/maccms category list', () => {
+  beforeEach(() => {
+    invalidateCache();
+    mockClient.search.mockReset();
+  });
+
+  it('should keep scanning a most-viewed category with h=24', async () => {
+    // 按播放量排序，新旧条目交错
+    mockClient.search.mockResolvedValue({
+      videos: [video('a1', 2), video('b1', 72), video('a2', 5)],
+      total_count: 3,
+      current_page: 1,
+      total_pages: 1,
+    });
+
+    const list = await (
+      await GET(
+        new NextRequest('http://localhost/api/maccms?ac=videolist&t=5&h=24')
+      )
+    ).json();
+
+    expect(mockClient.search).toHaveBeenCalledWith(
+      'popular',
+      1,
+      expect.any(Number),
+      'most-viewed'
+    );
+    expect(
+      list.list.map((item: { vod_name: string }) => item.vod_name)
+    ).toEqual(['Video a1', 'Video a2']);
+    expect(list.total).toBe(2);
+  });
+
+  it('should prefer an order given in the request', async () => {
+    mockClient.search.mockResolvedValue({
+      videos: [],
+      total_count: 0,
+      current_page: 1,
+      total_pages: 1,
+    });
+
+    await GET(
+      new NextRequest('http://localhost/api/maccms?ac=videolist&t=5&by=time')
+    );
+
+    expect(mockClient.search).toHaveBeenCalledWith(
+      'popular',
+      1,
+      expect.any(Number),
+      'latest'
+    );
+  });
+
+  it('should set X-Cache on category and error responses', async () => {
+    const categories = await GET(
+      new NextRequest('http://localhost/api/maccms?ac=list')
+    );
+    const invalid = await GET(
+      new NextRequest('http://localhost/api/maccms?ac=detail&ids=')
+    );
+
+    expect(categories.headers.get('X-Cache')).toBe('MISS');
+    expect(invalid.headers.get('X-Cache')).toBe('MISS');
+  });
+});
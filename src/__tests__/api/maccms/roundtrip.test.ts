@@ -0,0 +1,189 @@
+import { NextRequest } from 'next/server';
+
+import { epornerClient, EpornerVideo } from '@/lib/eporner.client';
+import { MacCMSTransformer } from '@/lib/maccms.transformer';
+import { getVodIds } from '@/lib/maccms.vodid';
+import { invalidateCache } from '@/lib/server.cache';
+
+import { GET } from '@/app/api/maccms/route';
+
+jest.mock('@/lib/eporner.client', () => ({
+  ...jest.requireActual('@/lib/eporner.client'),
+  epornerClient: { search: jest.fn(), getVideoById: jest.fn() },
+}));
+jest.mock('@/lib/config', () => ({
+  getCacheTime: async () => 300,
+  getConfig: async () => ({ MacCMSCategories: [] }),
+}));
+
+const mockClient = epornerClient as jest.Mocked<typeof epornerClient>;
+
+function video(id: string): EpornerVideo {
+  return {
+    id,
+    title: `Video ${id}`,
+    keywords: 'test',
+    views: 10,
+    rate: 4,
+    url: `https://example.com/video/${id}`,
+    embed: `https://example.com/embed/${id}`,
+    added: '2024-01-01 00:00:00',
+    length_sec: 600,
+    default_thumb: { src: '', width: 0, height: 0 },
+    thumbs: [],
+  };
+}
+
+const videos = [video('IsabYDAiqXa'), video('0bC9dEf1Gh2'), video('789')];
+
+describe('/api/maccms vod_id round trip', () => {
+  beforeEach(() => {
+    invalidateCache();
+    mockClient.search.mockReset();
+    mockClient.getVideoById.mockReset();
+    mockClient.getVideoById.mockImplementation(async (id: string) => {
+      const found = videos.find((v) => v.id === id);
+      if (!found) throw new Error('not found');
+      return found;
+    });
+  });
+
+  it('should return the listed videos from ac=detail with the same vod_id', async () => {
+    mockClient.search.mockResolvedValue({
+      videos: videos.slice(1),
+      total_count: 3,
+      current_page: 2,
+      total_pages: 2,
+    });
+
+    const list = await (
+      await GET(
+        new NextRequest('http://localhost/api/maccms?ac=videolist&pg=2&limit=2')
+      )
+    ).json();
+    const ids = list.list.map((item: { vod_id: string }) => item.vod_id);
+    expect(ids).toHaveLength(2);
+
+    const detail = await (
+      await GET(
+        new NextRequest(
+          `http://localhost/api/maccms?ac=detail&ids=${ids.join(',')}`
+        )
+      )
+    ).json();
+
+    expect(
+      mockClient.getVideoById.mock.calls.map(
+        (call: Parameters<typeof epornerClient.getVideoById>) => call[0]
+      )
+    ).toEqual(['0bC9dEf1Gh2', '789']);
+    expect(
+      detail.list.map((item: { vod_id: string; vod_name: string }) => [
+        item.vod_id,
+        item.vod_name,
+      ])
+    ).toEqual(
+      list.list.map((item: { vod_id: string; vod_name: string }) => [
+        item.vod_id,
+        item.vod_name,
+      ])
+    );
+  });
+
+  it('should keep vod_id stable across pages and searches', async () => {
+    mockClient.search
+      .mockResolvedValueOnce({
+        videos,
+        total_count: 3,
+        current_page: 1,
+        total_pages: 1,
+      })
+      .mockResolvedValueOnce({
+        videos: [videos[0]],
+        total_count: 1,
+        current_page: 1,
+        total_pages: 1,
+      });
+
+    const list = await (
+      await GET(new NextRequest('http://localhost/api/maccms?ac=videolist'))
+    ).json();
+    const search = await (
+      await GET(
+        new NextRequest('http://localhost/api/maccms?ac=videolist&wd=test')
+      )
+    ).json();
+
+    expect(search.list[0].vod_id).toBe(list.list[0].vod_id);
+  });
+
+  it('should use integer vod_id and skip ids that were never listed', async () => {
+    mockClient.search.mockResolvedValue({
+      videos,
+      total_count: 3,
+      current_page: 1,
+      total_pages: 1,
+    });
+
+    const list = await (
+      await GET(new NextRequest('http://localhost/api/maccms?ac=videolist'))
+    ).json();
+    const unknown = await (
+      await GET(
+        new NextRequest(
+          `http://localhost/api/maccms?ac=detail&ids=999999,${videos[0].id}`
+        )
+      )
+    ).json();
+
+    list.list.forEach((item: { vod_id: unknown }) =>
+      expect(Number.isInteger(item.vod_id)).toBe(true)
+    );
+    expect(unknown.code).toBe(0);
+    expect(mockClient.getVideoById).not.toHaveBeenCalled();
+  });
+});
+
+describe('/api/maccms response cache', () => {
+  beforeEach(() => {
+    invalidateCache();
+    mockClient.search.mockReset();
+    mockClient.getVideoById.mockReset();
+  });
+
+  it('should serve repeated searches from cache', async () => {
+    mockClient.search.mockResolvedValue({
+      videos,
+      total_count: 3,
+      current_page: 1,
+      total_pages: 1,
+    });
+    const url = 'http://localhost/api/maccms?ac=videolist&wd=test';
+
+    const first = await GET(new NextRequest(url));
+    const second = await GET(new NextRequest(url));
+
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(await second.json()).toEqual(await first.json());
+    expect(mockClient.search).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache empty detail results', async () => {
+    // 详情请求会重试一次，两次都失败才算获取失败
+    mockClient.getVideoById
+      .mockRejectedValueOnce(new Error('not found'))
+      .mockRejectedValueOnce(new Error('not found'))
+      .mockResolvedValueOnce(videos[0]);
+    const key = MacCMSTransformer.toVodKey(videos[0].id);
+    const vodId = (await getVodIds([key]))[key];
+    const url = `http://localhost/api/maccms?ac=detail&ids=${vodId}`;
+
+    const failed = await (await GET(new NextRequest(url))).json();
+    const found = await GET(new NextRequest(url));
+
+    expect(failed.code).toBe(0);
+    expect(found.headers.get('X-Cache')).toBe('MISS');
+    expect((await found.json()).list[0].vod_id).toBe(vodId);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  clearTitleIndex,
+  expandSearchQuery,
+  findTitlesByPinyin,
+  getPinyinInitials,
+  matchesPinyin,
+  rememberTitles,
+  toSimplified,
+  toTraditional,
+} from '@/lib/chinese';
+import { isSameWork, normalizeTitle } from '@/lib/search.grouping';
+
+describe('chinese', () => {
+  beforeEach(() => {
+    clearTitleIndex();
+  });
+
+  it('should convert between traditional and simplified', () => {
+    expect(toSimplified('甄嬛傳')).toBe('甄嬛传');
+    expect(toSimplified('後宮·甄嬛傳 第2季')).toBe('后宫·甄嬛传 第2季');
+    expect(toTraditional('甄嬛传')).toBe('甄嬛傳');
+    expect(toSimplified('Friends')).toBe('Friends');
+  });
+
+  it('should build pinyin initials', () => {
+    expect(getPinyinInitials('流浪地球2')).toBe('lldq2');
+    // 多音字取常用读音
+    expect(getPinyinInitials('甄嬛傳')).toBe('zhc');
+    expect(getPinyinInitials('庆余年 2')).toBe('qyn2');
+  });
+
+  it('should match initials, full and mixed pinyin', () => {
+    expect(matchesPinyin('甄嬛传', 'zhz')).toBe(true);
+    expect(matchesPinyin('甄嬛传', 'zhenhuanzhuan')).toBe(true);
+    expect(matchesPinyin('甄嬛传', 'zhenhz')).toBe(true);
+    expect(matchesPinyin('后宫甄嬛传', 'zhenhuan')).toBe(true);
+    expect(matchesPinyin('甄嬛传', 'qingyunian')).toBe(false);
+    expect(matchesPinyin('甄嬛传', '甄嬛')).toBe(false);
+  });
+
+  it('should expand keywords into deduplicated variants', () => {
+    expect(expandSearchQuery(' 甄嬛傳 ')).toEqual(['甄嬛傳', '甄嬛传']);
+    expect(expandSearchQuery('甄嬛传')).toEqual(['甄嬛传', '甄嬛傳']);
+    expect(expandSearchQuery('Friends')).toEqual(['Friends']);
+    expect(expandSearchQuery('')).toEqual([]);
+  });
+
+  it('should resolve pinyin keywords from remembered titles', () => {
+    rememberTitles(['甄嬛傳', '庆余年', '甄嬛传']);
+
+    expect(findTitlesByPinyin('zhenhuanzhuan')).toEqual(['甄嬛传']);
+    expect(expandSearchQuery('zhenhuanzhuan')).toEqual([
+      'zhenhuanzhuan',
+      '甄嬛传',
+    ]);
+    expect(expandSearchQuery('qyn')).toEqual(['qyn', '庆余年']);
+  });
+
+  it('should treat traditional and simplified titles as the same work', () => {
+    expect(normalizeTitle('甄嬛傳')).toBe(normalizeTitle('甄嬛传'));
+    expect(
+      isSameWork(
+        {
+          id: '1',
+          title: '甄嬛傳',
+          poster: '',
+          episodes: ['a.m3u8', 'b.m3u8'],
+          source: 'test',
+          source_name: '测试源',
+          year: '2011',
+        },
+        { title: '甄嬛传', year: '2011', type: 'tv' }
+      )
+    ).toBe(true);
+  });
+});
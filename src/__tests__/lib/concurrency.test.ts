@@ -0,0 +1,112 @@
+import { ConcurrencyLimiter } from '@/lib/concurrency';
+
+describe('ConcurrencyLimiter', () => {
+  it('should run queued tasks in order once a slot frees up', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const order: number[] = [];
+    const releases: Array<() => void> = [];
+    const task = (id: number) => () =>
+      new Promise<number>((resolve) => {
+        order.push(id);
+        releases.push(() => resolve(id));
+      });
+
+    const results = [1, 2, 3].map((id) => limiter.run(task(id)));
+    await Promise.resolve();
+    expect(order).toEqual([1]);
+    expect(limiter.pending).toBe(2);
+
+    releases[0]();
+    await results[0];
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(order).toEqual([1, 2]);
+
+    releases[1]();
+    await results[1];
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    releases[2]();
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3]);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(
+      limiter.run(() => Promise.reject(new Error('boom')))
+    ).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should drop a queued task when its signal aborts', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    let release: () => void = () => undefined;
+    const running = limiter.run(
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+    const controller = new AbortController();
+    const task = jest.fn(async () => 'late');
+    const queued = limiter.run(task, controller.signal);
+    expect(limiter.pending).toBe(1);
+
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    expect(limiter.pending).toBe(0);
+
+    release();
+    await running;
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should start queued tasks as soon as the limit is raised', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const started: number[] = [];
+    const releases: Array<() => void> = [];
+    const task = (id: number) => () =>
+      new Promise<number>((resolve) => {
+        started.push(id);
+        releases.push(() => resolve(id));
+      });
+
+    const results = [1, 2, 3].map((id) => limiter.run(task(id)));
+    await Promise.resolve();
+    expect(started).toEqual([1]);
+
+    limiter.setMax(3);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(started).toEqual([1, 2, 3]);
+    expect(limiter.pending).toBe(0);
+
+    releases.forEach((release) => release());
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3]);
+  });
+
+  it('should not hand over slots above a lowered limit', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const started: number[] = [];
+    const releases: Array<() => void> = [];
+    const task = (id: number) => () =>
+      new Promise<number>((resolve) => {
+        started.push(id);
+        releases.push(() => resolve(id));
+      });
+
+    const results = [1, 2, 3].map((id) => limiter.run(task(id)));
+    await Promise.resolve();
+    limiter.setMax(1);
+
+    releases[0]();
+    await results[0];
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    // 仍有一个任务在运行，已达到新的上限
+    expect(started).toEqual([1, 2]);
+
+    releases[1]();
+    await results[1];
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(started).toEqual([1, 2, 3]);
+    releases[2]();
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  countRegularEpisodes,
+  inferEpisodeKind,
+  parseEpisode,
+} from '@/lib/episodes';
+import { extractPlayLines } from '@/lib/maccms.adapter';
+
+describe('episodes', () => {
+  it('should split title and url', () => {
+    expect(parseEpisode('第01集$https://a.com/1.m3u8', 0)).toEqual({
+      title: '第01集',
+      url: 'https://a.com/1.m3u8',
+      kind: 'regular',
+    });
+    expect(parseEpisode('https://a.com/2.m3u8', 1)).toEqual({
+      title: '2',
+      url: 'https://a.com/2.m3u8',
+      kind: 'regular',
+    });
+  });
+
+  it('should infer episode kinds', () => {
+    expect(inferEpisodeKind('第12集')).toBe('regular');
+    expect(inferEpisodeKind('预告')).toBe('trailer');
+    expect(inferEpisodeKind('先导片')).toBe('trailer');
+    expect(inferEpisodeKind('Trailer 2')).toBe('trailer');
+    expect(inferEpisodeKind('花絮01')).toBe('special');
+    expect(inferEpisodeKind('SP')).toBe('special');
+    expect(inferEpisodeKind('番外篇')).toBe('special');
+    expect(inferEpisodeKind('HD国语')).toBe('regular');
+  });
+
+  it('should exclude trailers and specials from total episodes', () => {
+    const [line] = extractPlayLines(
+      'ffm3u8',
+      '预告$https://a.com/t.m3u8#正片$https://a.com/1.m3u8#花絮$https://a.com/s.m3u8'
+    );
+    const result = {
+      episodes: line.episodes.map((ep) => ep.url),
+      episode_list: line.episodes,
+    };
+
+    expect(line.episodes.map((ep) => ep.kind)).toEqual([
+      'trailer',
+      'regular',
+      'special',
+    ]);
+    expect(countRegularEpisodes(result)).toBe(1);
+  });
+
+  it('should fall back to url count without episode details', () => {
+    expect(countRegularEpisodes({ episodes: ['a', 'b'] })).toBe(2);
+    expect(
+      countRegularEpisodes({
+        episodes: ['a'],
+        episode_list: [{ title: '预告', url: 'a', kind: 'trailer' }],
+      })
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,187 @@
+import { getConfig } from '@/lib/config';
+import {
+  getDetailFromApi,
+  getListFromApi,
+  searchFromApi,
+} from '@/lib/downstream';
+import {
+  getAggregateCategories,
+  getAggregateDetails,
+  listAggregate,
+  searchAggregate,
+  toMacCMSItem,
+} from '@/lib/maccms.aggregate';
+import { clearVodIds } from '@/lib/maccms.vodid';
+import { SearchResult } from '@/lib/types';
+
+jest.mock('@/lib/config', () => ({ getConfig: jest.fn() }));
+jest.mock('@/lib/downstream', () => ({
+  getDetailFromApi: jest.fn(),
+  getListFromApi: jest.fn(),
+  searchFromApi: jest.fn(),
+}));
+
+const mockGetConfig = getConfig as jest.Mock;
+const mockGetList = getListFromApi as jest.Mock;
+const mockGetDetail = getDetailFromApi as jest.Mock;
+const mockSearch = searchFromApi as jest.Mock;
+
+function site(key: string) {
+  return { key, name: key.toUpperCase(), api: `https://${key}.com/api` };
+}
+
+function useSources(keys: string[]) {
+  mockGetConfig.mockResolvedValue({
+    SourceConfig: keys.map(site),
+    SiteConfig: { DisableYellowFilter: true },
+  });
+}
+
+function result(source: string, id: string): SearchResult {
+  return {
+    id,
+    title: `${source}${id}`,
+    poster: '',
+    episodes: ['https://a.com/1.m3u8'],
+    source,
+    source_name: source,
+    year: '2024',
+  };
+}
+
+describe('maccms aggregate', () => {
+  beforeEach(() => {
+    clearVodIds();
+    mockGetList.mockReset();
+    mockGetDetail.mockReset();
+  });
+
+  it('should resolve integer vod ids from the list in detail', async () => {
+    useSources(['ffzy', 'lzzy']);
+    mockGetList.mockImplementation(async (apiSite: { key: string }) => ({
+      list: [result(apiSite.key, 'a+b/c')],
+      page: 1,
+      pageCount: 1,
+      total: 1,
+    }));
+    mockGetDetail.mockImplementation(
+      async (apiSite: { key: string }, id: string) => result(apiSite.key, id)
+    );
+
+    const page = await listAggregate({ page: 1, limit: 10 });
+    const ids = page.list.map((item) => item.vod_id);
+    ids.forEach((id) => expect(Number.isInteger(id)).toBe(true));
+
+    const details = await getAggregateDetails([...ids.map(String), '999']);
+    expect(mockGetDetail.mock.calls.map((call: unknown[]) => call[1])).toEqual([
+      'a+b/c',
+      'a+b/c',
+    ]);
+    expect(details.map((item) => [item.vod_id, item.vod_name])).toEqual(
+      page.list.map((item) => [item.vod_id, item.vod_name])
+    );
+  });
+
+  it('should output every play line in MacCMS format', () => {
+    const result: SearchResult = {
+      id: '1',
+      title: '庆余年',
+      poster: 'https://example.com/p.jpg',
+      episodes: ['https://a.com/1.m3u8'],
+      play_lines: [
+        {
+          name: '线路A',
+          episodes: [
+            { title: '第1集', url: 'https://a.com/1.m3u8', kind: 'regular' },
+            { title: '第2集', url: 'https://a.com/2.m3u8', kind: 'regular' },
+          ],
+        },
+        {
+          name: '线路B',
+          episodes: [
+            { title: '01', url: 'https://b.com/1.m3u8', kind: 'regular' },
+          ],
+        },
+      ],
+      source: 'ffzy',
+      source_name: '非凡',
+      year: 'unknown',
+      type_name: '剧集',
+    };
+
+    const item = toMacCMSItem(result, 3, 42);
+    expect(item).toMatchObject({
+      vod_id: 42,
+      vod_name: '庆余年',
+      vod_year: '',
+      vod_play_from: '线路A$$$线路B',
+      vod_play_url:
+        '第1集$https://a.com/1.m3u8#第2集$https://a.com/2.m3u8$$$01$https://b.com/1.m3u8',
+      type_id: 3,
+      type_name: '剧集',
+    });
+  });
+
+  it('should keep category ids when sources are reordered or added', async () => {
+    useSources(['ffzy', 'lzzy', 'bfzy']);
+    const before = await getAggregateCategories();
+
+    useSources(['bfzy', 'new', 'ffzy', 'lzzy']);
+    const after = await getAggregateCategories();
+
+    const idOf = (list: typeof before, name: string) =>
+      list.find((item) => item.type_name === name)?.type_id;
+    ['FFZY', 'LZZY', 'BFZY'].forEach((name) => {
+      expect(idOf(after, name)).toBe(idOf(before, name));
+    });
+    expect(new Set(after.map((item) => item.type_id)).size).toBe(4);
+  });
+
+  it('should honour the requested limit when merging sources', async () => {
+    useSources(['a', 'b']);
+    // 每个源共 10 条，源的单页 3 条
+    mockGetList.mockImplementation(
+      async (apiSite: { key: string }, options: { page: number }) => {
+        const all = Array.from({ length: 10 }, (_, i) => ({
+          id: `${apiSite.key}${i + 1}`,
+          title: `${apiSite.key}${i + 1}`,
+          poster: '',
+          episodes: [],
+          source: apiSite.key,
+          source_name: apiSite.key,
+          year: '2024',
+        }));
+        return {
+          list: all.slice((options.page - 1) * 3, options.page * 3),
+          page: options.page,
+          pageCount: 4,
+          total: 10,
+        };
+      }
+    );
+
+    const page = await listAggregate({ page: 2, limit: 4 });
+
+    expect(page.list.map((item) => item.vod_name)).toEqual([
+      'a3',
+      'b3',
+      'a4',
+      'b4',
+    ]);
+    expect(page).toMatchObject({ page: 2, limit: 4, total: 20, pagecount: 5 });
+  });
+
+  it('should only keep search results of the requested year', async () => {
+    useSources(['a', 'b']);
+    mockSearch.mockImplementation(async (apiSite: { key: string }) => [
+      result(apiSite.key, '1'),
+      { ...result(apiSite.key, '2'), year: '2023' },
+    ]);
+
+    const page = await searchAggregate('x', 1, 10, '2023');
+
+    expect(page.list.map((item) => item.vod_name)).toEqual(['a2', 'b2']);
+    expect(page.list.map((item) => item.vod_year)).toEqual(['2023', '2023']);
+    expect(page.total).toBe(2);
+  });
+});
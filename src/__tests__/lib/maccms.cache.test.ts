@@ -0,0 +1,152 @@
+import {
+  ErrorType,
+  MacCMSCacheManager,
+  MacCMSErrorHandler,
+} from '@/lib/maccms.cache';
+import { invalidateCache } from '@/lib/server.cache';
+
+const data = {
+  code: 1,
+  msg: '数据列表',
+  page: 1,
+  pagecount: 1,
+  limit: 1,
+  total: 1,
+  list: [{ vod_id: 1, vod_name: '</script>\u2028', vod_play_from: 'ff' }],
+};
+
+describe('MacCMSCacheManager.createCachedResponse', () => {
+  it('should return json without callback', async () => {
+    const response = MacCMSCacheManager.createCachedResponse(data, 'search');
+
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    expect(await response.json()).toEqual(data);
+  });
+
+  it('should wrap json in a valid callback', async () => {
+    const response = MacCMSCacheManager.createCachedResponse(data, 'search', {
+      callback: 'jQuery123_456',
+    });
+    const body = await response.text();
+
+    expect(response.headers.get('Content-Type')).toBe(
+      'application/javascript; charset=utf-8'
+    );
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    expect(response.headers.get('Cache-Control')).toContain('max-age=600');
+    expect(body).toMatch(/^\/\*\*\/jQuery123_456\(\{.*\}\);$/);
+    expect(body).not.toContain('\u2028');
+
+    const received: unknown[] = [];
+    new Function('jQuery123_456', body)((value: unknown) =>
+      received.push(value)
+    );
+    expect(received).toEqual([data]);
+  });
+
+  it('should wrap error responses', async () => {
+    const error = MacCMSErrorHandler.createError(
+      ErrorType.VALIDATION,
+      '视频ID不能为空'
+    );
+    const response = MacCMSCacheManager.createCachedResponse(
+      MacCMSErrorHandler.createErrorResponse(error),
+      'error',
+      { callback: 'cb' }
+    );
+    const body = await response.text();
+
+    expect(body.startsWith('/**/cb(')).toBe(true);
+    expect(body).toContain('"code":0');
+    expect(body).toContain('视频ID不能为空');
+  });
+
+  it('should wrap xml as a string', async () => {
+    const response = MacCMSCacheManager.createCachedResponse(data, 'search', {
+      format: 'xml',
+      callback: 'cb',
+    });
+    const body = await response.text();
+
+    expect(body).toMatch(/^\/\*\*\/cb\("<\?xml /);
+    expect(JSON.parse(body.slice('/**/cb('.length, -2))).toContain(
+      '<rss version="5.1">'
+    );
+  });
+
+  it('should set X-Cache on every response', () => {
+    expect(
+      MacCMSCacheManager.createCachedResponse(
+        data,
+        'search',
+        {},
+        'HIT'
+      ).headers.get('X-Cache')
+    ).toBe('HIT');
+    expect(
+      MacCMSCacheManager.createCachedResponse(data, 'search').headers.get(
+        'X-Cache'
+      )
+    ).toBe('MISS');
+  });
+
+  it('should never echo an invalid callback', async () => {
+    const attempts = [
+      'alert(1)//',
+      'cb);alert(document.cookie);(',
+      '<script>alert(1)</script>',
+      'cb\nalert(1)',
+    ];
+    for (const callback of attempts) {
+      const response = MacCMSCacheManager.createCachedResponse(data, 'error', {
+        callback,
+      });
+
+      expect(response.headers.get('Content-Type')).toContain(
+        'application/json'
+      );
+      expect(await response.text()).not.toContain('alert');
+    }
+  });
+});
+
+describe('MacCMSCacheManager.getOrLoad', () => {
+  beforeEach(() => {
+    invalidateCache();
+  });
+
+  it('should load once and then hit the cache', async () => {
+    const loader = jest.fn().mockResolvedValue(data);
+
+    const results = await Promise.all([
+      MacCMSCacheManager.getOrLoad('search', 'action:search|page:1', loader),
+      MacCMSCacheManager.getOrLoad('search', 'action:search|page:1', loader),
+    ]);
+    const cached = await MacCMSCacheManager.getOrLoad(
+      'search',
+      'action:search|page:1',
+      loader
+    );
+
+    expect(results.map((result) => result.data)).toEqual([data, data]);
+    expect(cached).toEqual({ data, cacheStatus: 'HIT' });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache loader errors', async () => {
+    const error =
+      MacCMSErrorHandler.handleValidationError('未找到有效的视频数据');
+    const loader = jest
+      .fn()
+      .mockRejectedValueOnce(error)
+      .mockResolvedValueOnce(data);
+
+    await expect(
+      MacCMSCacheManager.getOrLoad('detail', 'action:detail|ids:1', loader)
+    ).rejects.toBe(error);
+    expect(MacCMSErrorHandler.handleApiError(error)).toBe(error);
+    await expect(
+      MacCMSCacheManager.getOrLoad('detail', 'action:detail|ids:1', loader)
+    ).resolves.toEqual({ data, cacheStatus: 'MISS' });
+  });
+});
@@ -0,0 +1,106 @@
+import { MacCMSCategoryConfig } from '@/lib/admin.types';
+import {
+  DEFAULT_MACCMS_CATEGORIES,
+  findMacCMSCategory,
+  getMacCMSCategoriesVersion,
+  validateMacCMSCategory,
+} from '@/lib/maccms.category';
+import { MacCMSTransformer } from '@/lib/maccms.transformer';
+
+const categories: MacCMSCategoryConfig[] = [
+  { type_id: 1, type_name: '欧美', type_pid: 0, query: 'european american' },
+  {
+    type_id: 11,
+    type_name: '欧美高分',
+    type_pid: 1,
+    query: 'european american',
+    order: 'top-rated',
+  },
+  { type_id: 2, type_name: '日本', type_pid: 0, query: 'japanese' },
+];
+
+describe('maccms category', () => {
+  it('should keep the previous fixed category as default', () => {
+    expect(DEFAULT_MACCMS_CATEGORIES).toEqual([
+      { type_id: 3, type_name: '伦理片', type_pid: 0, query: 'popular' },
+    ]);
+  });
+
+  it('should resolve t to a configured category', () => {
+    expect(findMacCMSCategory(categories, 11)?.order).toBe('top-rated');
+    expect(findMacCMSCategory(categories, 99)).toBeUndefined();
+    expect(findMacCMSCategory(categories, undefined)).toBeUndefined();
+  });
+
+  it('should validate new categories', () => {
+    expect(
+      validateMacCMSCategory(
+        { type_id: '3', type_name: ' 亚洲 ', type_pid: 0, query: 'asian' },
+        categories
+      )
+    ).toEqual({
+      category: { type_id: 3, type_name: '亚洲', type_pid: 0, query: 'asian' },
+    });
+
+    const invalid: Array<[Record<string, unknown>, string]> = [
+      [{ type_id: 0, type_name: 'a', query: 'a' }, '分类 ID 必须为正整数'],
+      [{ type_id: 3, type_name: '', query: 'a' }, '缺少必要参数'],
+      [{ type_id: 1, type_name: 'a', query: 'a' }, '分类 ID 已存在'],
+      [
+        { type_id: 3, type_name: 'a', query: 'a', order: 'random' },
+        '排序方式不支持',
+      ],
+      [
+        { type_id: 3, type_name: 'a', query: 'a', type_pid: 11 },
+        '父分类必须为其他顶级分类',
+      ],
+      [
+        { type_id: 3, type_name: 'a', query: 'a', type_pid: 9 },
+        '父分类必须为其他顶级分类',
+      ],
+    ];
+    invalid.forEach(([input, error]) => {
+      expect(validateMacCMSCategory(input, categories)).toEqual({ error });
+    });
+  });
+
+  it('should not turn a parent into a child when editing', () => {
+    expect(
+      validateMacCMSCategory(
+        { type_id: 1, type_name: '欧美', type_pid: 2, query: 'a' },
+        categories,
+        true
+      ).error
+    ).toBe('该分类下还有子分类，不能设为子分类');
+    expect(
+      validateMacCMSCategory(
+        { type_id: 2, type_name: '日韩', type_pid: 1, query: 'asian' },
+        categories,
+        true
+      ).category
+    ).toMatchObject({ type_id: 2, type_pid: 1 });
+  });
+
+  it('should output configured categories as MacCMS class', () => {
+    expect(MacCMSTransformer.generateCategories(categories)).toEqual([
+      expect.objectContaining({ type_id: 1, type_pid: 0, type_sort: 1 }),
+      expect.objectContaining({
+        type_id: 11,
+        type_name: '欧美高分',
+        type_pid: 1,
+        type_sort: 2,
+      }),
+      expect.objectContaining({ type_id: 2, type_en: 'japanese' }),
+    ]);
+  });
+
+  it('should change the version when a category is edited', () => {
+    const version = getMacCMSCategoriesVersion(categories);
+    const edited = categories.map((category) =>
+      category.type_id === 11 ? { ...category, order: undefined } : category
+    );
+
+    expect(getMacCMSCategoriesVersion([...categories])).toBe(version);
+    expect(getMacCMSCategoriesVersion(edited)).not.toBe(version);
+  });
+});
@@ -0,0 +1,160 @@
+import { EpornerSearchResponse, EpornerVideo } from '@/lib/eporner.client';
+import {
+  EPORNER_PAGE_SIZE,
+  fetchFilteredVideos,
+  hasActiveFilters,
+  matchesFilters,
+} from '@/lib/maccms.filter';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2024-06-10T12:00:00');
+
+function video(id: number, hoursAgo: number): EpornerVideo {
+  const added = new Date(now.getTime() - hoursAgo * HOUR);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    id: `v${id}`,
+    title: `Video ${id}`,
+    keywords: '',
+    views: 0,
+    rate: 0,
+    url: '',
+    embed: '',
+    added: `${added.getFullYear()}-${pad(added.getMonth() + 1)}-${pad(
+      added.getDate()
+    )} ${pad(added.getHours())}:${pad(added.getMinutes())}:00`,
+    length_sec: 60,
+    default_thumb: { src: '', width: 0, height: 0 },
+    thumbs: [],
+  };
+}
+
+// 最新排序：每条间隔 1 小时，共 count 条
+function upstream(count: number) {
+  const all = Array.from({ length: count }, (_, i) => video(i + 1, i));
+  const fetchPage = jest.fn(
+    async (page: number): Promise<EpornerSearchResponse> => ({
+      videos: all.slice(
+        (page - 1) * EPORNER_PAGE_SIZE,
+        page * EPORNER_PAGE_SIZE
+      ),
+      total_count: count,
+      current_page: page,
+      total_pages: Math.ceil(count / EPORNER_PAGE_SIZE),
+    })
+  );
+  return fetchPage;
+}
+
+describe('maccms filter', () => {
+  it('should detect filters that need local filtering', () => {
+    expect(hasActiveFilters({ order: 'latest' })).toBe(false);
+    expect(hasActiveFilters({ year: '2024' })).toBe(true);
+    expect(hasActiveFilters({ area: '欧美' })).toBe(true);
+  });
+
+  it('should match time range, year and area', () => {
+    const item = video(1, 5);
+    expect(
+      matchesFilters(item, {
+        timeRange: { start: new Date(now.getTime() - 24 * HOUR), end: now },
+      })
+    ).toBe(true);
+    expect(
+      matchesFilters(item, {
+        timeRange: { start: new Date(now.getTime() - 2 * HOUR) },
+      })
+    ).toBe(false);
+    expect(matchesFilters(item, { year: '2024', area: '欧美' })).toBe(true);
+    expect(matchesFilters(item, { year: '2023' })).toBe(false);
+    expect(matchesFilters(item, { area: '日本' })).toBe(false);
+    expect(matchesFilters({ ...item, added: '' }, { year: '2024' })).toBe(
+      false
+    );
+  });
+
+  it('should return only recent items with an exact total for h=24', async () => {
+    const fetchPage = upstream(300);
+    const filters = {
+      order: 'latest' as const,
+      timeRange: { start: new Date(now.getTime() - 24 * HOUR - 1), end: now },
+    };
+
+    const first = await fetchFilteredVideos(fetchPage, filters, 1, 20);
+    expect(first.videos.map((v) => v.id)).toEqual(
+      Array.from({ length: 20 }, (_, i) => `v${i + 1}`)
+    );
+    expect(first).toMatchObject({
+      total_count: 25,
+      total_pages: 2,
+      current_page: 1,
+    });
+    // 第一页就遇到了时间下限，不再继续拉取
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+
+    const second = await fetchFilteredVideos(fetchPage, filters, 2, 20);
+    expect(second.videos.map((v) => v.id)).toEqual([
+      'v21',
+      'v22',
+      'v23',
+      'v24',
+      'v25',
+    ]);
+  });
+
+  it('should fetch several upstream pages to fill the limit', async () => {
+    const fetchPage = upstream(300);
+    // 排除前 100 条，命中的条目从第 2 页开始
+    const filters = {
+      order: 'latest' as const,
+      timeRange: { end: new Date(now.getTime() - 100 * HOUR) },
+    };
+
+    const page = await fetchFilteredVideos(fetchPage, filters, 1, 50);
+    expect(page.videos).toHaveLength(50);
+    expect(page.videos[0].id).toBe('v101');
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+
+    // 扫描到末页后 total 为精确值
+    const last = await fetchFilteredVideos(fetchPage, filters, 4, 50);
+    expect(last.videos[0].id).toBe('v251');
+    expect(last.videos).toHaveLength(50);
+    expect(last.total_count).toBe(200);
+    expect(last.total_pages).toBe(4);
+  });
+
+  it('should estimate the total when the scan stops early', async () => {
+    const fetchPage = upstream(6000);
+    // 地区恒为欧美，全部命中
+    const page = await fetchFilteredVideos(
+      fetchPage,
+      { order: 'most-viewed', area: '欧美' },
+      1,
+      20
+    );
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(page.videos).toHaveLength(20);
+    expect(page.total_count).toBe(6000);
+    expect(page.total_pages).toBe(300);
+  });
+
+  it('should not stop at the time bound when the upstream order is not latest', async () => {
+    const fetchPage = upstream(300);
+    // 请求未指定排序，实际按分类配置的 most-viewed 拉取
+    const filters = {
+      timeRange: { start: new Date(now.getTime() - 24 * HOUR - 1), end: now },
+    };
+
+    const page = await fetchFilteredVideos(
+      fetchPage,
+      filters,
+      1,
+      30,
+      'most-viewed'
+    );
+    // 非最新排序时早于下限的条目之后仍可能有命中，需扫描到末页
+    expect(fetchPage).toHaveBeenCalledTimes(5);
+    expect(page.videos).toHaveLength(25);
+    expect(page.total_count).toBe(25);
+  });
+});
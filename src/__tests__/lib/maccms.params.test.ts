@@ -52,6 +52,19 @@ describe('MacCMSParamsProcessor', () => {
       expect(result.limit).toBe(20);
     });
 
+    it('should parse xml format from at or format', () => {
+      expect(MacCMSParamsProcessor.processParams(new URLSearchParams('ac=list&at=xml')).format).toBe('xml');
+      expect(MacCMSParamsProcessor.processParams(new URLSearchParams('ac=list&format=XML')).format).toBe('xml');
+      expect(MacCMSParamsProcessor.processParams(new URLSearchParams('ac=list')).format).toBe('json');
+    });
+
+    it('should keep the callback parameter', () => {
+      const result = MacCMSParamsProcessor.processParams(new URLSearchParams('ac=list&callback=jQuery123_456'));
+      
+      expect(result.callback).toBe('jQuery123_456');
+      expect(MacCMSParamsProcessor.validateParams(result).valid).toBe(true);
+    });
+
     it('should handle invalid page numbers', () => {
       const searchParams = new URLSearchParams('ac=list&pg=invalid');
       const result = MacCMSParamsProcessor.processParams(searchParams);
@@ -82,6 +95,14 @@ describe('MacCMSParamsProcessor', () => {
       expect(result.filters.order).toBe('latest');
     });
 
+    it('should leave order undefined when not given', () => {
+      const searchParams = new URLSearchParams('ac=list&h=24');
+      const result = MacCMSParamsProcessor.processParams(searchParams);
+      
+      expect(result.filters.order).toBeUndefined();
+      expect(result.filters.timeRange).toBeDefined();
+    });
+
     it('should parse area and year filters', () => {
       const searchParams = new URLSearchParams('ac=list&area=US&year=2024');
       const result = MacCMSParamsProcessor.processParams(searchParams);
@@ -187,6 +208,39 @@ describe('MacCMSParamsProcessor', () => {
     });
   });
 
+  describe('isValidCallback', () => {
+    it('should accept identifiers and dotted paths', () => {
+      ['cb', '$', '_jsonp1', 'jQuery3600_1700000000000', 'window.app.cb'].forEach(callback => {
+        expect(MacCMSParamsProcessor.isValidCallback(callback)).toBe(true);
+      });
+    });
+
+    it('should reject injection attempts', () => {
+      [
+        'alert(1)',
+        'cb;alert(1)',
+        'cb//',
+        '<script>',
+        'a b',
+        '1cb',
+        'cb.',
+        'a["b"]',
+        'cb\u2028',
+        'x'.repeat(65),
+      ].forEach(callback => {
+        expect(MacCMSParamsProcessor.isValidCallback(callback)).toBe(false);
+      });
+    });
+
+    it('should fail validation for an invalid callback', () => {
+      const params = MacCMSParamsProcessor.processParams(new URLSearchParams('ac=list&callback=alert(document.cookie)'));
+      const result = MacCMSParamsProcessor.validateParams(params);
+      
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('回调函数名不合法');
+    });
+  });
+
   describe('generateCacheKey', () => {
     it('should generate consistent cache keys', () => {
       const params = {
@@ -0,0 +1,150 @@
+import { EpornerSearchResponse } from '@/lib/eporner.client';
+import { MacCMSTransformer, MacCMSXmlData } from '@/lib/maccms.transformer';
+import { parseMacCMSXml } from '@/lib/maccms.xml';
+
+const data: MacCMSXmlData = {
+  page: 2,
+  pagecount: 5,
+  limit: 20,
+  total: 81,
+  list: [
+    {
+      vod_id: 1024,
+      vod_name: '庆余年 第二季',
+      vod_pic: 'https://img.example.com/qyn2.jpg?a=1&b=2',
+      vod_remarks: '全36集',
+      vod_year: '2024',
+      vod_area: '大陆',
+      vod_lang: '国语',
+      vod_time: '2024-05-01 12:00:00',
+      vod_content: '<p>范闲]]>林婉儿</p>',
+      vod_play_from: 'ffm3u8$$$lzm3u8',
+      vod_play_url:
+        '第01集$https://a.example.com/1.m3u8$$$第01集$https://b.example.com/1.m3u8#第02集$https://b.example.com/2.m3u8',
+      type_id: 13,
+      type_name: '国产剧',
+    },
+  ],
+};
+
+describe('MacCMSTransformer.transformToXml', () => {
+  it('should render the MacCMS rss document for video lists', () => {
+    const xml = MacCMSTransformer.transformToXml(data);
+
+    expect(xml).toMatch(
+      /^<\?xml version="1\.0" encoding="utf-8"\?><rss version="5\.1">/
+    );
+    expect(xml).toContain(
+      '<list page="2" pagecount="5" pagesize="20" recordcount="81"><video><last>2024-05-01 12:00:00</last><id>1024</id><tid>13</tid><name><![CDATA[庆余年 第二季]]></name><type>国产剧</type><pic>https://img.example.com/qyn2.jpg?a=1&amp;b=2</pic><lang>国语</lang><area>大陆</area><year>2024</year>'
+    );
+    expect(xml).toContain(
+      '<dl><dd flag="ffm3u8"><![CDATA[第01集$https://a.example.com/1.m3u8]]></dd><dd flag="lzm3u8"><![CDATA[第01集$https://b.example.com/1.m3u8#第02集$https://b.example.com/2.m3u8]]></dd></dl>'
+    );
+    // CDATA 中的 ]]> 需要拆分
+    expect(xml).toContain(
+      '<des><![CDATA[<p>范闲]]]]><![CDATA[>林婉儿</p>]]></des>'
+    );
+    expect(xml).not.toContain('<class>');
+    expect(xml).not.toContain('<code>');
+    expect(xml).toMatch(/<\/list><\/rss>$/);
+  });
+
+  it('should render code and msg for error responses', () => {
+    const xml = MacCMSTransformer.transformToXml({
+      code: 0,
+      msg: '参数错误',
+      page: 1,
+      pagecount: 0,
+      limit: 0,
+      total: 0,
+      list: [],
+    });
+
+    expect(xml).toContain(
+      '<rss version="5.1"><code>0</code><msg><![CDATA[参数错误]]></msg><list page="1" pagecount="0"'
+    );
+  });
+
+  it('should be readable by the MacCMS xml parser', () => {
+    const parsed = parseMacCMSXml(MacCMSTransformer.transformToXml(data));
+
+    expect(parsed).toMatchObject({ page: 2, pagecount: 5, total: 81 });
+    expect(parsed.list?.[0]).toMatchObject({
+      vod_id: '1024',
+      vod_name: '庆余年 第二季',
+      vod_pic: 'https://img.example.com/qyn2.jpg?a=1&b=2',
+      vod_play_from: data.list?.[0].vod_play_from,
+      vod_play_url: data.list?.[0].vod_play_url,
+      type_id: '13',
+    });
+  });
+
+  it('should render brief videos and categories for class lists', () => {
+    const xml = MacCMSTransformer.transformToXml({
+      ...data,
+      class: [
+        { type_id: 1, type_name: '电影' },
+        { type_id: 2, type_name: '剧集 & 综艺' },
+      ],
+    });
+
+    expect(xml).toContain(
+      '<video><last>2024-05-01 12:00:00</last><id>1024</id><tid>13</tid><name><![CDATA[庆余年 第二季]]></name><type>国产剧</type><dt>ffm3u8,lzm3u8</dt><note><![CDATA[全36集]]></note></video>'
+    );
+    expect(xml).not.toContain('<dl>');
+    expect(xml).toContain(
+      '</list><class><ty id="1">电影</ty><ty id="2">剧集 &amp; 综艺</ty></class></rss>'
+    );
+    expect(parseMacCMSXml(xml).class).toEqual([
+      { type_id: '1', type_name: '电影' },
+      { type_id: '2', type_name: '剧集 & 综艺' },
+    ]);
+  });
+});
+
+describe('MacCMSTransformer vod_id', () => {
+  it('should map Eporner ids to registry keys and back', () => {
+    ['IsabYDAiqXa', '0bC9dEf1Gh2', '123'].forEach((id) => {
+      expect(MacCMSTransformer.fromVodKey(MacCMSTransformer.toVodKey(id))).toBe(
+        id
+      );
+    });
+    expect(MacCMSTransformer.fromVodKey('eporner+')).toBeNull();
+    expect(MacCMSTransformer.fromVodKey('eporner+../id')).toBeNull();
+    expect(MacCMSTransformer.fromVodKey('ffzy+123')).toBeNull();
+  });
+
+  it('should not depend on page or limit', () => {
+    const response = {
+      videos: [{ id: 'IsabYDAiqXa', title: 'a', added: '2024-01-01' }],
+      total_count: 100,
+      current_page: 1,
+      total_pages: 5,
+    } as unknown as EpornerSearchResponse;
+
+    const vodIds = { [MacCMSTransformer.toVodKey('IsabYDAiqXa')]: 7 };
+
+    const first = MacCMSTransformer.transformSearchResponse(
+      response,
+      1,
+      20,
+      undefined,
+      vodIds
+    );
+    const later = MacCMSTransformer.transformSearchResponse(
+      response,
+      4,
+      60,
+      undefined,
+      vodIds
+    );
+    const detail = MacCMSTransformer.transformVideoDetail(
+      response.videos[0],
+      7
+    );
+
+    expect(first.list[0].vod_id).toBe(7);
+    expect(later.list[0].vod_id).toBe(7);
+    expect(detail.list[0].vod_id).toBe(7);
+  });
+});
@@ -0,0 +1,30 @@
+import { clearVodIds, getVodIds, getVodKey } from '@/lib/maccms.vodid';
+
+describe('maccms vod_id registry', () => {
+  beforeEach(() => {
+    clearVodIds();
+  });
+
+  it('should assign stable integer ids and resolve them back', async () => {
+    const first = await getVodIds(['ffzy+1', 'eporner+IsabYDAiqXa', 'ffzy+1']);
+    const again = await getVodIds(['eporner+IsabYDAiqXa']);
+
+    expect(Object.keys(first)).toHaveLength(2);
+    expect(again['eporner+IsabYDAiqXa']).toBe(first['eporner+IsabYDAiqXa']);
+    Object.values(first).forEach((id) => {
+      expect(Number.isInteger(id)).toBe(true);
+      expect(id).toBeGreaterThan(0);
+    });
+    expect(await getVodKey(String(first['ffzy+1']))).toBe('ffzy+1');
+  });
+
+  it('should reject malformed or unknown ids', async () => {
+    await getVodIds(['ffzy+1']);
+
+    expect(await getVodKey('')).toBeNull();
+    expect(await getVodKey('abc')).toBeNull();
+    expect(await getVodKey('01')).toBeNull();
+    expect(await getVodKey('99999999999')).toBeNull();
+    expect(await getVodKey('2')).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { ApiSite } from '@/lib/config';
+import { maccmsAdapter, maccmsXmlAdapter } from '@/lib/maccms.adapter';
+import { isXmlPayload, parseMacCMSXml } from '@/lib/maccms.xml';
+
+const fixture = readFileSync(
+  join(__dirname, '../fixtures/maccms.videolist.xml'),
+  'utf-8'
+);
+
+global.fetch = jest.fn();
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const site: ApiSite = {
+  key: 'xmlsrc',
+  name: 'XML源',
+  api: 'https://example.com/api.php/provide/vod/at/xml',
+};
+
+function mockBody(body: string) {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    text: async () => body,
+  } as Response);
+}
+
+describe('maccms xml', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should detect xml payloads', () => {
+    expect(isXmlPayload(fixture)).toBe(true);
+    expect(isXmlPayload('{"list":[]}')).toBe(false);
+  });
+
+  it('should parse paging, videos and play lines', () => {
+    const data = parseMacCMSXml(fixture);
+
+    expect(data).toMatchObject({ page: 1, pagecount: 3, total: 41 });
+    expect(data.list).toHaveLength(2);
+    expect(data.list?.[0]).toMatchObject({
+      vod_id: '1024',
+      vod_name: '庆余年 第二季',
+      vod_year: '2024',
+      vod_remarks: '全36集',
+      type_id: '13',
+      type_name: '国产剧',
+      vod_play_from: 'ffm3u8$$$lzm3u8',
+    });
+    expect(data.list?.[0].vod_play_url?.split('$$$')).toHaveLength(2);
+    expect(data.list?.[1].vod_name).toBe('流浪地球 & 续');
+  });
+
+  it('should parse categories', () => {
+    expect(parseMacCMSXml(fixture).class).toEqual([
+      { type_id: '1', type_name: '电影' },
+      { type_id: '2', type_name: '连续剧' },
+      { type_id: '13', type_name: '国产剧' },
+    ]);
+  });
+
+  it('should map search results into SearchResult', async () => {
+    mockBody(fixture);
+
+    const page = await maccmsXmlAdapter.search(site, '庆余年', 1);
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://example.com/api.php/provide/vod/at/xml?ac=videolist&wd=%E5%BA%86%E4%BD%99%E5%B9%B4'
+    );
+    expect(page).toMatchObject({ page: 1, pageCount: 3, total: 41 });
+    expect(page.list[0]).toMatchObject({
+      id: '1024',
+      title: '庆余年 第二季',
+      year: '2024',
+      source: 'xmlsrc',
+      source_name: 'XML源',
+      type_name: '国产剧',
+      episodes: [
+        'https://b.example.com/1/index.m3u8',
+        'https://b.example.com/2/index.m3u8',
+        'https://b.example.com/3/index.m3u8',
+      ],
+    });
+    expect(page.list[0].play_lines?.map((line) => line.name)).toEqual([
+      'ffm3u8',
+      'lzm3u8',
+    ]);
+    expect(page.list[0].desc).toContain('范闲');
+  });
+
+  it('should detect xml even when the source is configured as json', async () => {
+    // 仅保留第二条视频作为详情响应
+    mockBody(fixture.replace(/<video>[\s\S]*?<\/video>/, ''));
+
+    const detail = await maccmsAdapter.detail(site, '2048');
+
+    expect(detail).toMatchObject({
+      id: '2048',
+      title: '流浪地球 & 续',
+      episodes: ['https://a.example.com/earth/index.m3u8'],
+    });
+  });
+});
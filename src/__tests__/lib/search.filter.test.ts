@@ -0,0 +1,94 @@
+import {
+  filterSearchResults,
+  paginateSearchResults,
+  parseSearchOptions,
+  sortSearchResults,
+} from '@/lib/search.filter';
+import { SearchResult } from '@/lib/types';
+
+function makeResult(overrides: Partial<SearchResult>): SearchResult {
+  return {
+    id: '1',
+    title: '庆余年',
+    poster: '',
+    episodes: ['a.m3u8', 'b.m3u8'],
+    source: 'src',
+    source_name: '源',
+    year: '2019',
+    type_name: '国产剧',
+    ...overrides,
+  };
+}
+
+describe('search.filter', () => {
+  it('should parse query options with defaults', () => {
+    const options = parseSearchOptions(
+      new URLSearchParams(
+        'page=2&pageSize=1000&year=2019-2021&type=国产剧,美剧&kind=tv&sources=a,b&sort=year'
+      )
+    );
+
+    expect(options).toEqual({
+      page: 2,
+      pageSize: 200,
+      yearFrom: 2019,
+      yearTo: 2021,
+      types: ['国产剧', '美剧'],
+      kind: 'tv',
+      sources: ['a', 'b'],
+      sort: 'year',
+    });
+    expect(parseSearchOptions(new URLSearchParams('sort=bad'))).toMatchObject({
+      page: undefined,
+      pageSize: 50,
+      sort: 'relevance',
+      types: [],
+    });
+  });
+
+  it('should filter by year range, type and kind', () => {
+    const results = [
+      makeResult({ id: 'a', year: '2018' }),
+      makeResult({ id: 'b', year: '2020' }),
+      makeResult({ id: 'c', year: 'unknown' }),
+      makeResult({ id: 'd', year: '2020', type_name: '动作片' }),
+      makeResult({ id: 'e', year: '2020', episodes: ['a.m3u8'] }),
+    ];
+    const options = parseSearchOptions(
+      new URLSearchParams('yearFrom=2019&type=国产剧&kind=tv')
+    );
+
+    expect(filterSearchResults(results, options).map((r) => r.id)).toEqual([
+      'b',
+    ]);
+  });
+
+  it('should sort by relevance, then year, then source priority', () => {
+    const results = [
+      makeResult({ id: 'a', title: '庆余年番外', year: '2024' }),
+      makeResult({ id: 'b', title: '庆余年', year: '2019', source: 'y' }),
+      makeResult({ id: 'c', title: '庆余年', year: '2019', source: 'x' }),
+      makeResult({ id: 'd', title: '新庆余年', year: '2025' }),
+    ];
+
+    expect(
+      sortSearchResults(results, '庆余年', 'relevance', ['x', 'y']).map(
+        (r) => r.id
+      )
+    ).toEqual(['c', 'b', 'a', 'd']);
+    expect(
+      sortSearchResults(results, '庆余年', 'year', ['x', 'y']).map((r) => r.id)
+    ).toEqual(['d', 'a', 'c', 'b']);
+  });
+
+  it('should paginate', () => {
+    const results = Array.from({ length: 5 }, (_, i) =>
+      makeResult({ id: String(i) })
+    );
+
+    const page = paginateSearchResults(results, 2, 2);
+    expect(page.results.map((r) => r.id)).toEqual(['2', '3']);
+    expect(page).toMatchObject({ total: 5, totalPages: 3, hasMore: true });
+    expect(paginateSearchResults(results, 3, 2).hasMore).toBe(false);
+  });
+});
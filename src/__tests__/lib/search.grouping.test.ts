@@ -0,0 +1,104 @@
+import {
+  groupSearchResults,
+  isSameWork,
+  normalizeTitle,
+  parseTitle,
+} from '@/lib/search.grouping';
+import { SearchResult } from '@/lib/types';
+
+function makeResult(overrides: Partial<SearchResult>): SearchResult {
+  return {
+    id: '1',
+    title: '庆余年',
+    poster: '',
+    episodes: ['a.m3u8', 'b.m3u8'],
+    source: 'src',
+    source_name: '源',
+    year: '2019',
+    ...overrides,
+  };
+}
+
+describe('search.grouping', () => {
+  describe('parseTitle', () => {
+    it('should detect seasons written in different ways', () => {
+      expect(parseTitle('庆余年第二季')).toEqual({ base: '庆余年', season: 2 });
+      expect(parseTitle('庆余年 2')).toEqual({ base: '庆余年', season: 2 });
+      expect(parseTitle('庆余年２')).toEqual({ base: '庆余年', season: 2 });
+      expect(parseTitle('Friends Season 10')).toEqual({
+        base: 'friends',
+        season: 10,
+      });
+      expect(parseTitle('庆余年第十二季')).toEqual({
+        base: '庆余年',
+        season: 12,
+      });
+    });
+
+    it('should default to season 1', () => {
+      expect(parseTitle('庆余年')).toEqual({ base: '庆余年', season: 1 });
+      expect(parseTitle('庆余年第一季')).toEqual({ base: '庆余年', season: 1 });
+    });
+
+    it('should keep four digit years in the title', () => {
+      expect(parseTitle('1917').base).toBe('1917');
+    });
+  });
+
+  it('should normalize full-width characters and punctuation', () => {
+    expect(normalizeTitle('Ｈｅｌｌｏ，世界！')).toBe('hello世界');
+  });
+
+  describe('groupSearchResults', () => {
+    it('should merge title variants across sources', () => {
+      const groups = groupSearchResults([
+        makeResult({ source: 'a', title: '庆余年第二季', year: '2024' }),
+        makeResult({ source: 'b', title: '庆余年 2', year: '2024' }),
+        makeResult({ source: 'c', title: '庆余年', year: '2019' }),
+      ]);
+
+      expect(groups).toHaveLength(2);
+      expect(groups[0].sources.map((s) => s.source)).toEqual(['a', 'b']);
+      expect(groups[1].sources.map((s) => s.source)).toEqual(['c']);
+    });
+
+    it('should tolerate a one year difference', () => {
+      const groups = groupSearchResults([
+        makeResult({ source: 'a', year: '2019' }),
+        makeResult({ source: 'b', year: '2020' }),
+        makeResult({ source: 'c', year: '2022' }),
+      ]);
+
+      expect(groups).toHaveLength(2);
+    });
+
+    it('should group by douban_id when present', () => {
+      const groups = groupSearchResults([
+        makeResult({ source: 'a', title: '甲', douban_id: 42 }),
+        makeResult({ source: 'b', title: '乙', douban_id: 42 }),
+      ]);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].douban_id).toBe(42);
+    });
+
+    it('should separate movies from series', () => {
+      const groups = groupSearchResults([
+        makeResult({ source: 'a', episodes: ['a.m3u8'] }),
+        makeResult({ source: 'b' }),
+      ]);
+
+      expect(groups.map((g) => g.type)).toEqual(['movie', 'tv']);
+    });
+  });
+
+  it('should match works the same way as grouping', () => {
+    const result = makeResult({ title: '庆余年 第二季', year: '2024' });
+
+    expect(isSameWork(result, { title: '庆余年2', year: '2024' })).toBe(true);
+    expect(isSameWork(result, { title: '庆余年', year: '2024' })).toBe(false);
+    expect(
+      isSameWork(result, { title: '庆余年2', year: '2024', type: 'movie' })
+    ).toBe(false);
+  });
+});
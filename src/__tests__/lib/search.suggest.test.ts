@@ -0,0 +1,103 @@
+import { clearTitleIndex, rememberTitles } from '@/lib/chinese';
+import {
+  getDoubanHotCandidates,
+  historyCandidates,
+  rankSuggestions,
+  recentCandidates,
+  SuggestionCandidate,
+} from '@/lib/search.suggest';
+import { invalidateCache } from '@/lib/server.cache';
+import { fetchFromSource } from '@/lib/source.adapter';
+
+jest.mock('@/lib/source.adapter', () => ({ fetchFromSource: jest.fn() }));
+jest.mock('@/lib/config', () => ({
+  getConfig: async () => ({
+    SiteConfig: { DoubanProxy: 'https://proxy.example.com/?url=' },
+  }),
+}));
+
+const mockFetch = fetchFromSource as jest.MockedFunction<
+  typeof fetchFromSource
+>;
+
+describe('search suggestions', () => {
+  beforeEach(() => {
+    clearTitleIndex();
+    invalidateCache();
+    mockFetch.mockReset();
+  });
+
+  it('should rank prefix matches before contains and pinyin matches', () => {
+    const candidates: SuggestionCandidate[] = [
+      { title: '后宫甄嬛传', source: 'hot', popularity: 100 },
+      { title: '甄嬛传', source: 'recent', popularity: 10 },
+      { title: '庆余年', source: 'hot', popularity: 100 },
+    ];
+
+    expect(rankSuggestions('甄嬛', candidates).map((s) => s.title)).toEqual([
+      '甄嬛传',
+      '后宫甄嬛传',
+    ]);
+    expect(rankSuggestions('qyn', candidates)).toEqual([
+      { title: '庆余年', source: 'hot' },
+    ]);
+  });
+
+  it('should prefer history and popularity within the same match level', () => {
+    const candidates: SuggestionCandidate[] = [
+      { title: '庆余年 第二季', source: 'hot', popularity: 90 },
+      { title: '庆余年', source: 'hot', popularity: 100 },
+      ...historyCandidates(['庆余年第一季']),
+    ];
+
+    expect(rankSuggestions('庆余', candidates).map((s) => s.title)).toEqual([
+      '庆余年第一季',
+      '庆余年',
+      '庆余年 第二季',
+    ]);
+  });
+
+  it('should merge traditional and simplified duplicates and skip the query', () => {
+    const candidates: SuggestionCandidate[] = [
+      { title: '甄嬛傳', source: 'recent', popularity: 50 },
+      { title: '甄嬛传', source: 'hot', popularity: 50 },
+      { title: '甄嬛', source: 'hot', popularity: 100 },
+    ];
+
+    expect(rankSuggestions('甄嬛', candidates)).toEqual([
+      { title: '甄嬛传', source: 'hot' },
+    ]);
+  });
+
+  it('should weight recent titles by how often they were seen', () => {
+    rememberTitles(['流浪地球', '流浪地球2']);
+    rememberTitles(['流浪地球2']);
+
+    expect(recentCandidates()).toEqual([
+      { title: '流浪地球2', source: 'recent', popularity: 100 },
+      { title: '流浪地球', source: 'recent', popularity: 50 },
+    ]);
+  });
+
+  it('should fetch douban hot lists through the configured proxy', async () => {
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ subjects: [{ title: '庆余年' }] }))
+    );
+
+    await getDoubanHotCandidates();
+
+    expect(mockFetch.mock.calls[0][0]).toMatch(
+      /^https:\/\/proxy\.example\.com\/\?url=https%3A%2F%2Fmovie\.douban\.com/
+    );
+  });
+
+  it('should not refetch douban right after a failure', async () => {
+    mockFetch.mockRejectedValue(new Error('timeout'));
+
+    expect(await getDoubanHotCandidates()).toEqual([]);
+    expect(await getDoubanHotCandidates()).toEqual([]);
+
+    // 电影与剧集各请求一次，第二次命中失败后的短时缓存
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
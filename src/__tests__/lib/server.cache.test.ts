@@ -0,0 +1,92 @@
+import {
+  getOrLoadCache,
+  getOrLoadCacheWithStatus,
+  invalidateCache,
+  normalizeCacheQuery,
+} from '@/lib/server.cache';
+
+describe('server.cache', () => {
+  beforeEach(() => {
+    invalidateCache();
+    jest.useRealTimers();
+  });
+
+  it('should return cached value while fresh', async () => {
+    const loader = jest.fn().mockResolvedValue(['a']);
+
+    await getOrLoadCache('k', { ttl: 60 }, loader);
+    const result = await getOrLoadCache('k', { ttl: 60 }, loader);
+
+    expect(result).toEqual(['a']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should coalesce concurrent loads of the same key', async () => {
+    const loader = jest.fn().mockResolvedValue('v');
+
+    const results = await Promise.all([
+      getOrLoadCache('k', { ttl: 60 }, loader),
+      getOrLoadCache('k', { ttl: 60 }, loader),
+    ]);
+
+    expect(results).toEqual(['v', 'v']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve stale value and revalidate in background', async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const loader = jest
+      .fn()
+      .mockResolvedValueOnce('old')
+      .mockResolvedValueOnce('new');
+
+    await getOrLoadCache('k', { ttl: 60, stale: 60 }, loader);
+    jest.setSystemTime(Date.now() + 90 * 1000);
+
+    const stale = await getOrLoadCache('k', { ttl: 60, stale: 60 }, loader);
+    expect(stale).toBe('old');
+    expect(loader).toHaveBeenCalledTimes(2);
+
+    // 等待后台刷新完成
+    await Promise.resolve();
+    await Promise.resolve();
+    const fresh = await getOrLoadCache('k', { ttl: 60, stale: 60 }, loader);
+    expect(fresh).toBe('new');
+  });
+
+  it('should not cache loader errors', async () => {
+    const loader = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(getOrLoadCache('k', { ttl: 60 }, loader)).rejects.toThrow(
+      'boom'
+    );
+    await expect(getOrLoadCache('k', { ttl: 60 }, loader)).resolves.toBe('ok');
+  });
+
+  it('should report cache status', async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const loader = jest.fn().mockResolvedValue('v');
+    const options = { ttl: 60, stale: 60 };
+
+    await expect(
+      getOrLoadCacheWithStatus('k', options, loader)
+    ).resolves.toEqual({ value: 'v', status: 'MISS' });
+    await expect(
+      getOrLoadCacheWithStatus('k', options, loader)
+    ).resolves.toEqual({ value: 'v', status: 'HIT' });
+
+    jest.setSystemTime(Date.now() + 90 * 1000);
+    await expect(
+      getOrLoadCacheWithStatus('k', options, loader)
+    ).resolves.toEqual({ value: 'v', status: 'STALE' });
+  });
+
+  it('should normalize queries', () => {
+    expect(normalizeCacheQuery('  Hello   World ')).toBe('hello world');
+  });
+});
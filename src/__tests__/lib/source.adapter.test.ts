@@ -0,0 +1,312 @@
+import { ApiSite } from '@/lib/config';
+import { getSourceAdapter } from '@/lib/downstream';
+import { scrapeDetailHtml } from '@/lib/html.adapter';
+import {
+  extractEpisodes,
+  extractPlayLines,
+  maccmsAdapter,
+  toSearchResult,
+} from '@/lib/maccms.adapter';
+import { applyProxyTemplate, getSourceRoute } from '@/lib/source.adapter';
+
+global.fetch = jest.fn();
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const site: ApiSite = {
+  key: 'test',
+  name: '测试源',
+  api: 'https://example.com/api.php/provide/vod',
+};
+
+describe('source adapters', () => {
+  describe('getSourceAdapter', () => {
+    it('should pick adapter by type', () => {
+      expect(getSourceAdapter({ ...site, type: 'eporner' }).type).toBe(
+        'eporner'
+      );
+      expect(getSourceAdapter({ ...site, type: 'maccms' }).type).toBe('maccms');
+    });
+
+    it('should fall back to html when detail is configured', () => {
+      expect(getSourceAdapter(site).type).toBe('maccms');
+      expect(
+        getSourceAdapter({ ...site, detail: 'https://example.com' }).type
+      ).toBe('html');
+    });
+  });
+
+  describe('maccms', () => {
+    it('should take the play line with most episodes', () => {
+      const episodes = extractEpisodes(
+        '第1集$https://a.com/1.m3u8$$$第1集$https://b.com/1.m3u8#第2集$https://b.com/2.m3u8(备用)'
+      );
+      expect(episodes).toEqual([
+        'https://b.com/1.m3u8',
+        'https://b.com/2.m3u8',
+      ]);
+    });
+
+    it('should keep every play line with its name', () => {
+      const lines = extractPlayLines(
+        'ffm3u8$$$share$$$lzm3u8',
+        '第1集$https://a.com/1.m3u8$$$第1集$https://share.com/1$$$第1集$https://b.com/1.m3u8#第2集$https://b.com/2.m3u8'
+      );
+      expect(lines).toEqual([
+        {
+          name: 'ffm3u8',
+          episodes: [
+            { title: '第1集', url: 'https://a.com/1.m3u8', kind: 'regular' },
+          ],
+        },
+        {
+          name: 'lzm3u8',
+          episodes: [
+            { title: '第1集', url: 'https://b.com/1.m3u8', kind: 'regular' },
+            { title: '第2集', url: 'https://b.com/2.m3u8', kind: 'regular' },
+          ],
+        },
+      ]);
+    });
+
+    it('should convert api items', () => {
+      const result = toSearchResult(
+        {
+          vod_id: 12,
+          vod_name: ' 庆余年   第二季 ',
+          vod_pic: 'p.jpg',
+          vod_year: '2024年',
+          vod_content: '<p>简介</p>',
+          vod_play_from: 'ffm3u8',
+          vod_play_url: '第1集$https://a.com/1.m3u8',
+        },
+        site
+      );
+      expect(result).toMatchObject({
+        id: '12',
+        title: '庆余年 第二季',
+        year: '2024',
+        desc: '简介',
+        source: 'test',
+        episodes: ['https://a.com/1.m3u8'],
+        episode_list: [
+          { title: '第1集', url: 'https://a.com/1.m3u8', kind: 'regular' },
+        ],
+      });
+    });
+
+    it('should keep direct http(s) links in detail', () => {
+      const item = {
+        vod_id: 7,
+        vod_name: '直链',
+        vod_pic: '',
+        vod_play_from: 'mp4',
+        vod_play_url: '第1集$https://a.com/1.mp4#第2集$https://a.com/2.mp4',
+      };
+
+      expect(toSearchResult(item, site, true).episodes).toEqual([
+        'https://a.com/1.mp4',
+        'https://a.com/2.mp4',
+      ]);
+      expect(toSearchResult(item, site).episodes).toEqual([]);
+    });
+
+    it('should default detail to the line with most episodes', () => {
+      const detail = toSearchResult(
+        {
+          vod_id: 8,
+          vod_name: '多线路',
+          vod_pic: '',
+          vod_play_from: 'mp4$$$ffm3u8',
+          vod_play_url:
+            '第1集$https://a.com/1.mp4$$$第1集$https://b.com/1.m3u8#第2集$https://b.com/2.m3u8',
+        },
+        site,
+        true
+      );
+
+      expect(detail.play_lines?.map((line) => line.name)).toEqual([
+        'mp4',
+        'ffm3u8',
+      ]);
+      expect(detail.episodes).toEqual([
+        'https://b.com/1.m3u8',
+        'https://b.com/2.m3u8',
+      ]);
+    });
+  });
+
+  describe('maccms browsing', () => {
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should list categories with parent ids', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () =>
+          JSON.stringify({
+            class: [
+              { type_id: 2, type_name: '连续剧', type_pid: 0 },
+              { type_id: 13, type_name: '国产剧', type_pid: 2 },
+            ],
+          }),
+      } as Response);
+
+      const categories = await maccmsAdapter.categories(site);
+
+      expect(mockFetch.mock.calls[0][0]).toBe(`${site.api}?ac=list`);
+      expect(categories).toEqual([
+        { type_id: '2', type_name: '连续剧', type_pid: '0' },
+        { type_id: '13', type_name: '国产剧', type_pid: '2' },
+      ]);
+    });
+
+    it('should page through a category', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () =>
+          JSON.stringify({ page: 2, pagecount: 5, total: 96, list: [] }),
+      } as Response);
+
+      const page = await maccmsAdapter.latest(site, { typeId: '13', page: 2 });
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        `${site.api}?ac=videolist&pg=2&t=13`
+      );
+      expect(page).toEqual({ list: [], page: 2, pageCount: 5, total: 96 });
+    });
+
+    it('should pass the update window as h', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ list: [] }),
+      } as Response);
+
+      await maccmsAdapter.latest(site, { hours: 24 });
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        `${site.api}?ac=videolist&pg=1&h=24`
+      );
+    });
+  });
+
+  describe('request settings', () => {
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should apply custom headers, referer and proxy template', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ list: [] }),
+      } as Response);
+
+      await maccmsAdapter.categories({
+        ...site,
+        request: {
+          headers: { 'User-Agent': 'custom-agent' },
+          referer: 'https://example.com/',
+          proxy: 'https://proxy.example.com/?url={url}',
+        },
+      });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(
+        `https://proxy.example.com/?url=${encodeURIComponent(
+          `${site.api}?ac=list`
+        )}`
+      );
+      expect(init?.headers).toMatchObject({
+        'User-Agent': 'custom-agent',
+        Referer: 'https://example.com/',
+        Accept: 'application/json, */*',
+      });
+    });
+
+    it('should limit concurrent requests per source', async () => {
+      let active = 0;
+      let peak = 0;
+      mockFetch.mockImplementation(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return {
+          ok: true,
+          status: 200,
+          text: async () => JSON.stringify({ list: [] }),
+        } as Response;
+      });
+
+      const limited = {
+        ...site,
+        key: 'limited',
+        request: { maxConcurrency: 2 },
+      };
+      await Promise.all(
+        [1, 2, 3, 4, 5].map((page) => maccmsAdapter.latest(limited, { page }))
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+      expect(peak).toBe(2);
+    });
+
+    it('should resolve the builtin proxy from SITE_BASE', () => {
+      const original = process.env.SITE_BASE;
+      try {
+        delete process.env.SITE_BASE;
+        expect(() => applyProxyTemplate('builtin', site.api)).toThrow(
+          'SITE_BASE'
+        );
+
+        process.env.SITE_BASE = 'https://tv.example.com/';
+        expect(applyProxyTemplate('builtin', site.api)).toBe(
+          `https://tv.example.com/api/cors-proxy?url=${encodeURIComponent(
+            site.api
+          )}`
+        );
+        expect(getSourceRoute({ ...site, request: { proxy: 'builtin' } })).toBe(
+          'proxy'
+        );
+        expect(getSourceRoute(site)).toBe('direct');
+      } finally {
+        process.env.SITE_BASE = original;
+      }
+    });
+  });
+
+  describe('html scraper', () => {
+    const html = `
+      <h1 class="title">庆余年</h1>
+      <img src="https://img.com/cover.jpg">
+      <span>2019</span>
+      <div class="sketch"><p>一部好剧</p></div>
+      <li>第1集$https://v.com/1/index.m3u8</li>
+      <li>第2集$https://v.com/2/index.m3u8</li>
+      <li>第2集$https://v.com/2/index.m3u8</li>
+    `;
+
+    it('should scrape with default patterns', () => {
+      expect(scrapeDetailHtml(html)).toEqual({
+        title: '庆余年',
+        poster: 'https://img.com/cover.jpg',
+        episodes: ['https://v.com/1/index.m3u8', 'https://v.com/2/index.m3u8'],
+        year: '2019',
+        desc: '一部好剧',
+      });
+    });
+
+    it('should honor custom patterns and ignore invalid ones', () => {
+      const result = scrapeDetailHtml(html, {
+        episodePattern: '(https://v\\.com/2/[^<\\s]+)',
+        titlePattern: '(',
+      });
+      expect(result.episodes).toEqual(['https://v.com/2/index.m3u8']);
+      expect(result.title).toBe('庆余年');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { db } from '@/lib/db';
+import {
+  AVAILABILITY_FAILURE_THRESHOLD,
+  markCheckFailed,
+  migrateToReplacement,
+  pickReplacement,
+} from '@/lib/source.availability';
+import { PlayRecord, SearchResult, SourceAvailability } from '@/lib/types';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    getAllSourceAvailability: jest.fn(),
+    getPlayRecord: jest.fn(),
+    getFavorite: jest.fn(),
+    savePlayRecord: jest.fn(),
+    saveFavorite: jest.fn(),
+    deletePlayRecord: jest.fn(),
+    deleteFavorite: jest.fn(),
+    deleteSourceAvailability: jest.fn(),
+  },
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+function playRecord(overrides: Partial<PlayRecord>): PlayRecord {
+  return {
+    title: '庆余年',
+    source_name: '源A',
+    cover: '',
+    year: '2019',
+    index: 3,
+    total_episodes: 46,
+    play_time: 120,
+    total_time: 2400,
+    save_time: 1000,
+    search_title: '庆余年',
+    ...overrides,
+  };
+}
+
+function result(overrides: Partial<SearchResult>): SearchResult {
+  return {
+    id: '1',
+    title: '庆余年',
+    poster: 'https://example.com/poster.jpg',
+    episodes: ['https://example.com/1.m3u8'],
+    source: 'a',
+    source_name: '源A',
+    year: '2019',
+    ...overrides,
+  };
+}
+
+describe('source availability', () => {
+  it('should mark unavailable only after repeated failures', () => {
+    let availability: SourceAvailability | undefined;
+    for (let i = 1; i < AVAILABILITY_FAILURE_THRESHOLD; i++) {
+      availability = markCheckFailed(availability, 1000);
+      expect(availability.unavailable).toBe(false);
+    }
+
+    availability = markCheckFailed(availability, 2000);
+    expect(availability).toEqual({
+      failures: AVAILABILITY_FAILURE_THRESHOLD,
+      unavailable: true,
+      checked_at: 2000,
+      replacement: undefined,
+    });
+  });
+
+  it('should pick the same work from another source with most episodes', () => {
+    const results = [
+      result({ source: 'dead', id: '9' }),
+      result({ source: 'b', id: '2', source_name: '源B' }),
+      result({
+        source: 'c',
+        id: '3',
+        source_name: '源C',
+        episodes: ['1.m3u8', '2.m3u8'],
+      }),
+      result({ source: 'd', id: '4', title: '庆余年第二季', year: '2024' }),
+      result({ source: 'e', id: '5', year: '2009' }),
+    ];
+
+    expect(
+      pickReplacement(results, { title: '庆余年', year: '2019' }, 'dead')
+    ).toEqual({
+      source: 'c',
+      id: '3',
+      source_name: '源C',
+      title: '庆余年',
+      year: '2019',
+      cover: 'https://example.com/poster.jpg',
+      total_episodes: 2,
+    });
+    expect(
+      pickReplacement(results, { title: '赘婿', year: '2021' }, 'dead')
+    ).toBeNull();
+  });
+
+  describe('migrateToReplacement', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockDb.getAllSourceAvailability.mockResolvedValue({
+        'a+1': {
+          failures: AVAILABILITY_FAILURE_THRESHOLD,
+          unavailable: true,
+          checked_at: 1000,
+          replacement: {
+            source: 'b',
+            id: '2',
+            source_name: '源B',
+            title: '庆余年',
+            year: '2019',
+            total_episodes: 46,
+          },
+        },
+      });
+      mockDb.getFavorite.mockResolvedValue(null);
+    });
+
+    it('should move the play record to the replacement source', async () => {
+      mockDb.getPlayRecord.mockImplementation(
+        async (_user: string, source: string) =>
+          source === 'a' ? playRecord({}) : null
+      );
+
+      await expect(migrateToReplacement('u', 'a+1')).resolves.toBe('b+2');
+      expect(mockDb.savePlayRecord).toHaveBeenCalledWith(
+        'u',
+        'b',
+        '2',
+        expect.objectContaining({ source_name: '源B', play_time: 120 })
+      );
+      expect(mockDb.deletePlayRecord).toHaveBeenCalledWith('u', 'a', '1');
+      expect(mockDb.deleteSourceAvailability).toHaveBeenCalledWith('u', 'a+1');
+    });
+
+    it('should keep a newer record already on the replacement source', async () => {
+      mockDb.getPlayRecord.mockImplementation(
+        async (_user: string, source: string) =>
+          source === 'a'
+            ? playRecord({})
+            : playRecord({ source_name: '源B', save_time: 2000 })
+      );
+
+      await expect(migrateToReplacement('u', 'a+1')).resolves.toBe('b+2');
+      expect(mockDb.savePlayRecord).not.toHaveBeenCalled();
+      expect(mockDb.deletePlayRecord).toHaveBeenCalledWith('u', 'a', '1');
+    });
+  });
+});
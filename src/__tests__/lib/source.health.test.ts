@@ -0,0 +1,121 @@
+import {
+  canRequest,
+  getSourceHealth,
+  HEALTH_CONFIG,
+  isSourceUnavailableError,
+  recordFailure,
+  recordRouteResult,
+  recordSuccess,
+  resetSourceHealth,
+  SourceItemNotFoundError,
+  withSourceHealth,
+} from '@/lib/source.health';
+
+describe('source.health', () => {
+  beforeEach(() => {
+    resetSourceHealth();
+    jest.useRealTimers();
+  });
+
+  it('should record latency and success', () => {
+    recordSuccess('a', 100);
+    recordSuccess('a', 200);
+
+    const health = getSourceHealth('a');
+    expect(health?.state).toBe('closed');
+    expect(health?.successCount).toBe(2);
+    expect(health?.lastLatency).toBe(200);
+    expect(health?.avgLatency).toBeGreaterThan(100);
+    expect(health?.errorRate).toBe(0);
+  });
+
+  it('should open the circuit after repeated failures', () => {
+    for (let i = 0; i < HEALTH_CONFIG.failureThreshold; i++) {
+      recordFailure('a', 10, new Error('boom'));
+    }
+
+    expect(getSourceHealth('a')?.state).toBe('open');
+    expect(getSourceHealth('a')?.lastError).toBe('boom');
+    expect(canRequest('a')).toBe(false);
+  });
+
+  it('should half-open after the cool down and allow a single probe', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    for (let i = 0; i < HEALTH_CONFIG.failureThreshold; i++) {
+      recordFailure('a', 10, new Error('boom'));
+    }
+
+    jest.setSystemTime(Date.now() + HEALTH_CONFIG.openDuration + 1);
+    expect(canRequest('a')).toBe(true);
+    expect(getSourceHealth('a')?.state).toBe('half-open');
+    expect(canRequest('a')).toBe(false);
+
+    recordSuccess('a', 50);
+    expect(getSourceHealth('a')?.state).toBe('closed');
+    expect(canRequest('a')).toBe(true);
+  });
+
+  it('should reopen when the half-open probe fails', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    for (let i = 0; i < HEALTH_CONFIG.failureThreshold; i++) {
+      recordFailure('a', 10, new Error('boom'));
+    }
+
+    jest.setSystemTime(Date.now() + HEALTH_CONFIG.openDuration + 1);
+    expect(canRequest('a')).toBe(true);
+    recordFailure('a', 10, new Error('still down'));
+
+    expect(getSourceHealth('a')?.state).toBe('open');
+    expect(canRequest('a')).toBe(false);
+  });
+
+  it('should skip open sources in withSourceHealth', async () => {
+    for (let i = 0; i < HEALTH_CONFIG.failureThreshold; i++) {
+      await expect(
+        withSourceHealth('a', () => Promise.reject(new Error('boom')))
+      ).rejects.toThrow('boom');
+    }
+
+    const task = jest.fn(() => Promise.resolve('ok'));
+    const error = await withSourceHealth('a', task).catch((e) => e);
+    expect(isSourceUnavailableError(error)).toBe(true);
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should not count missing items as source failures', async () => {
+    for (let i = 0; i < HEALTH_CONFIG.failureThreshold; i++) {
+      await expect(
+        withSourceHealth('a', () =>
+          Promise.reject(new SourceItemNotFoundError())
+        )
+      ).rejects.toThrow('获取到的详情内容无效');
+    }
+
+    expect(getSourceHealth('a')?.state).toBe('closed');
+    expect(getSourceHealth('a')?.failureCount).toBe(0);
+    expect(canRequest('a')).toBe(true);
+  });
+
+  it('should keep direct and proxy statistics apart', () => {
+    recordSuccess('a', 100);
+    recordFailure('a', 300, new Error('blocked'), 'proxy');
+
+    const health = getSourceHealth('a');
+    expect(health?.routes.direct.successCount).toBe(1);
+    expect(health?.routes.proxy.failureCount).toBe(1);
+    expect(health?.routes.proxy.lastError).toBe('blocked');
+    expect(health?.routes.proxy.errorRate).toBe(1);
+  });
+
+  it('should not open the circuit for route comparisons', () => {
+    for (let i = 0; i < HEALTH_CONFIG.failureThreshold + 1; i++) {
+      recordRouteResult('a', 'proxy', 10, new Error('boom'));
+    }
+
+    expect(getSourceHealth('a')?.state).toBe('closed');
+    expect(getSourceHealth('a')?.failureCount).toBe(0);
+    expect(canRequest('a')).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  applySourceEvent,
+  decayedScore,
+  preferenceTitleKey,
+  rankSourcePreferences,
+} from '@/lib/source.preference';
+import { SourcePreferences } from '@/lib/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('source preferences', () => {
+  const now = Date.UTC(2026, 0, 1);
+
+  it('should share the title key between simplified and traditional titles', () => {
+    expect(preferenceTitleKey('甄嬛傳', '2011')).toBe(
+      preferenceTitleKey('甄嬛传', '2011')
+    );
+    expect(preferenceTitleKey('甄嬛传', '2011')).not.toBe(
+      preferenceTitleKey('甄嬛传')
+    );
+  });
+
+  it('should accumulate events and keep counters', () => {
+    let preferences: SourcePreferences = {};
+    preferences = applySourceEvent(preferences, 'a', 'pick', now);
+    preferences = applySourceEvent(preferences, 'a', 'switch', now);
+    preferences = applySourceEvent(preferences, 'b', 'fail', now);
+
+    expect(preferences.a).toEqual({
+      score: 4,
+      picks: 1,
+      failures: 0,
+      switches: 1,
+      updated_at: now,
+    });
+    expect(preferences.b.score).toBe(-3);
+    expect(preferences.b.failures).toBe(1);
+  });
+
+  it('should halve scores every 30 days', () => {
+    const preferences = applySourceEvent({}, 'a', 'switch', now);
+
+    expect(decayedScore(preferences.a, now + 30 * DAY)).toBeCloseTo(1.5);
+    expect(decayedScore(preferences.a, now + 60 * DAY)).toBeCloseTo(0.75);
+    // 衰减后再记录事件，以衰减后的得分为基础
+    const later = applySourceEvent(preferences, 'a', 'pick', now + 30 * DAY);
+    expect(later.a.score).toBeCloseTo(2.5);
+  });
+
+  it('should weight the user preference above the global aggregate', () => {
+    const globalPreferences = applySourceEvent(
+      applySourceEvent({}, 'a', 'switch', now),
+      'a',
+      'pick',
+      now
+    );
+    const userPreferences = applySourceEvent({}, 'b', 'switch', now);
+
+    expect(
+      rankSourcePreferences(userPreferences, globalPreferences, now)
+    ).toEqual([
+      { source: 'b', score: 6 },
+      { source: 'a', score: 4 },
+    ]);
+    expect(rankSourcePreferences(null, globalPreferences, now)).toEqual([
+      { source: 'a', score: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import { invalidateCache } from '@/lib/server.cache';
+import {
+  parseStreamVariants,
+  pickProbeUrl,
+  probeCandidate,
+  probeStream,
+  rankProbes,
+  StreamProbe,
+} from '@/lib/stream.probe';
+
+const MASTER = [
+  '#EXTM3U',
+  '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=1280x720',
+  '720/index.m3u8',
+  '#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1920x1080,CODECS="avc1.640028,mp4a.40.2"',
+  '1080/index.m3u8',
+].join('\n');
+
+const MEDIA = [
+  '#EXTM3U',
+  '#EXT-X-TARGETDURATION:10',
+  '#EXTINF:10,',
+  'seg0.ts',
+  '#EXTINF:10,',
+  'seg1.ts',
+].join('\n');
+
+function textResponse(body: string, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => body,
+    body: null,
+  } as unknown as Response;
+}
+
+function segmentResponse(bytes: number) {
+  let sent = false;
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      getReader: () => ({
+        read: async () => {
+          if (sent) return { done: true, value: undefined };
+          sent = true;
+          return { done: false, value: new Uint8Array(bytes) };
+        },
+        cancel: async () => undefined,
+      }),
+    },
+  } as unknown as Response;
+}
+
+describe('stream probe', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    invalidateCache();
+  });
+
+  it('should parse variants from EXT-X-STREAM-INF', () => {
+    expect(
+      parseStreamVariants(MASTER, 'https://cdn.example.com/play/master.m3u8')
+    ).toEqual([
+      {
+        uri: 'https://cdn.example.com/play/720/index.m3u8',
+        bandwidth: 800000,
+        width: 1280,
+        height: 720,
+      },
+      {
+        uri: 'https://cdn.example.com/play/1080/index.m3u8',
+        bandwidth: 2500000,
+        width: 1920,
+        height: 1080,
+      },
+    ]);
+    expect(
+      parseStreamVariants(MEDIA, 'https://cdn.example.com/a.m3u8')
+    ).toEqual([]);
+  });
+
+  it('should follow the highest bandwidth variant and measure the first segment', async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('master.m3u8')) return textResponse(MASTER);
+      if (url.endsWith('1080/index.m3u8')) return textResponse(MEDIA);
+      if (url.endsWith('1080/seg0.ts')) return segmentResponse(64 * 1024);
+      throw new Error(`unexpected ${url}`);
+    });
+
+    const probe = await probeStream('https://cdn.example.com/play/master.m3u8');
+
+    expect(probe.ok).toBe(true);
+    expect(probe.quality).toBe('1080p');
+    expect(probe.width).toBe(1920);
+    expect(probe.ttfb).toBeGreaterThanOrEqual(0);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report unreachable manifests and cache by source and host', async () => {
+    fetchMock.mockResolvedValue(textResponse('Not Found', 404));
+
+    const candidate = {
+      source: 'a',
+      id: '1',
+      url: 'https://cdn.example.com/1.m3u8',
+    };
+    const probe = await probeCandidate(candidate);
+    await probeCandidate({
+      ...candidate,
+      id: '2',
+      url: 'https://cdn.example.com/2.m3u8',
+    });
+
+    expect(probe.ok).toBe(false);
+    expect(probe.error).toBe('请求失败: 404');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rank by quality, speed and ttfb with failures last', () => {
+    const probe = (overrides: Partial<StreamProbe>): StreamProbe => ({
+      ok: true,
+      quality: '720p',
+      width: 1280,
+      ttfb: 100,
+      speedKBps: 1000,
+      ...overrides,
+    });
+
+    const ranked = rankProbes([
+      { source: 'down', id: '1', url: 'u', ...probe({ ok: false }) },
+      {
+        source: 'slow',
+        id: '1',
+        url: 'u',
+        ...probe({ speedKBps: 100, ttfb: 800 }),
+      },
+      {
+        source: 'hd',
+        id: '1',
+        url: 'u',
+        ...probe({ quality: '1080p', width: 1920 }),
+      },
+      { source: 'sd', id: '1', url: 'u', ...probe({}) },
+    ]);
+
+    expect(ranked.map((r) => r.source)).toEqual(['hd', 'sd', 'slow', 'down']);
+    expect(ranked[3].score).toBe(0);
+  });
+
+  it('should pick the second episode from a server-side detail', () => {
+    const detail = {
+      id: '1',
+      title: 't',
+      poster: '',
+      source: 'a',
+      source_name: 'A',
+      year: '2024',
+    };
+
+    expect(
+      pickProbeUrl({
+        ...detail,
+        episodes: ['https://a.com/1.m3u8', 'https://a.com/2.m3u8'],
+      })
+    ).toBe('https://a.com/2.m3u8');
+    expect(
+      pickProbeUrl({ ...detail, episodes: ['https://a.com/1.m3u8'] })
+    ).toBe('https://a.com/1.m3u8');
+    expect(pickProbeUrl({ ...detail, episodes: ['file:///etc/passwd'] })).toBe(
+      null
+    );
+    expect(pickProbeUrl({ ...detail, episodes: [] })).toBeNull();
+  });
+});
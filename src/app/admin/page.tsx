@@ -25,6 +25,7 @@ import {
   ChevronDown,
   ChevronUp,
   FolderOpen,
+  Rss,
   Settings,
   Users,
   Video,
@@ -33,8 +34,17 @@ import { GripVertical } from 'lucide-react';
 import { Suspense, useCallback, useEffect, useState } from 'react';
 import Swal from 'sweetalert2';
 
-import { AdminConfig, AdminConfigResult } from '@/lib/admin.types';
+import {
+  AdminConfig,
+  AdminConfigResult,
+  MacCMSCategoryConfig,
+  MacCMSCategoryOrder,
+  SourceRequestConfig,
+  SourceType,
+} from '@/lib/admin.types';
 import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
+import { MACCMS_CATEGORY_ORDERS } from '@/lib/maccms.category';
+import { SourceHealth } from '@/lib/source.health';
 
 import PageLayout from '@/components/PageLayout';
 
@@ -68,10 +78,50 @@ interface DataSource {
   key: string;
   api: string;
   detail?: string;
+  type?: SourceType;
+  request?: SourceRequestConfig;
   disabled?: boolean;
   from: 'config' | 'custom';
 }
 
+// 视频源请求设置表单，数值留空表示使用默认值
+interface SourceSettingsForm {
+  timeout: string;
+  maxConcurrency: string;
+  referer: string;
+  proxyMode: 'none' | 'builtin' | 'custom';
+  proxy: string; // 自定义代理地址模板
+  headers: string; // 每行一个 "名称: 值"
+}
+
+const toSettingsForm = (request?: SourceRequestConfig): SourceSettingsForm => ({
+  timeout: request?.timeout ? String(request.timeout) : '',
+  maxConcurrency: request?.maxConcurrency ? String(request.maxConcurrency) : '',
+  referer: request?.referer || '',
+  proxyMode: !request?.proxy
+    ? 'none'
+    : request.proxy === 'builtin'
+      ? 'builtin'
+      : 'custom',
+  proxy: request?.proxy && request.proxy !== 'builtin' ? request.proxy : '',
+  headers: Object.entries(request?.headers || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n'),
+});
+
+// 解析 "名称: 值" 格式的请求头，忽略空行与格式不对的行
+const parseHeaderLines = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach((line) => {
+    const index = line.indexOf(':');
+    if (index <= 0) return;
+    const name = line.slice(0, index).trim();
+    const value = line.slice(index + 1).trim();
+    if (name) headers[name] = value;
+  });
+  return headers;
+};
+
 // 自定义分类数据类型
 interface CustomCategory {
   name?: string;
@@ -637,11 +687,18 @@ const VideoSourceConfig = ({
   const [sources, setSources] = useState<DataSource[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [orderChanged, setOrderChanged] = useState(false);
+  const [health, setHealth] = useState<{ [key: string]: SourceHealth }>({});
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [comparingKey, setComparingKey] = useState<string | null>(null);
+  const [settingsForm, setSettingsForm] = useState<SourceSettingsForm>(
+    toSettingsForm()
+  );
   const [newSource, setNewSource] = useState<DataSource>({
     name: '',
     key: '',
     api: '',
     detail: '',
+    type: undefined,
     disabled: false,
     from: 'config',
   });
@@ -670,6 +727,65 @@ const VideoSourceConfig = ({
     }
   }, [config]);
 
+  // 获取源健康状态
+  const fetchHealth = useCallback(async () => {
+    try {
+      const resp = await fetch('/api/admin/source/health');
+      if (!resp.ok) return;
+      const data = await resp.json();
+      setHealth(data.health || {});
+    } catch (err) {
+      console.error('获取视频源健康状态失败', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHealth();
+  }, [fetchHealth]);
+
+  const handleResetHealth = async (key: string) => {
+    try {
+      const resp = await fetch(
+        `/api/admin/source/health?key=${encodeURIComponent(key)}`,
+        { method: 'DELETE' }
+      );
+      if (!resp.ok) {
+        const data = await resp.json().catch(() => ({}));
+        throw new Error(data.error || `操作失败: ${resp.status}`);
+      }
+      await fetchHealth();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  // 直连与代理线路对比
+  const handleCompareRoutes = async (key: string) => {
+    setComparingKey(key);
+    try {
+      const resp = await fetch(
+        `/api/admin/source/health?key=${encodeURIComponent(key)}`,
+        { method: 'POST' }
+      );
+      const data = await resp.json().catch(() => ({}));
+      if (!resp.ok) {
+        throw new Error(data.error || `操作失败: ${resp.status}`);
+      }
+      await fetchHealth();
+      const summary = (data.results || [])
+        .map(
+          (r: { route: string; ok: boolean; latency: number; error?: string }) =>
+            `${r.route === 'direct' ? '直连' : '代理'}：${r.ok ? `成功 ${r.latency}ms` : `失败（${r.error}）`}`
+        )
+        .join('；');
+      Swal.fire({ icon: 'info', title: '线路对比', text: summary });
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setComparingKey(null);
+    }
+  };
+
   // 通用 API 请求
   const callSourceApi = async (body: Record<string, any>) => {
     try {
@@ -715,6 +831,7 @@ const VideoSourceConfig = ({
       name: newSource.name,
       api: newSource.api,
       detail: newSource.detail,
+      type: newSource.type,
     })
       .then(() => {
         setNewSource({
@@ -722,6 +839,7 @@ const VideoSourceConfig = ({
           key: '',
           api: '',
           detail: '',
+          type: undefined,
           disabled: false,
           from: 'custom',
         });
@@ -732,6 +850,41 @@ const VideoSourceConfig = ({
       });
   };
 
+  const handleEditSettings = (source: DataSource) => {
+    if (editingKey === source.key) {
+      setEditingKey(null);
+      return;
+    }
+    setEditingKey(source.key);
+    setSettingsForm(toSettingsForm(source.request));
+  };
+
+  const handleSaveSettings = () => {
+    if (!editingKey) return;
+    callSourceApi({
+      action: 'settings',
+      key: editingKey,
+      request: {
+        timeout: settingsForm.timeout.trim(),
+        maxConcurrency: settingsForm.maxConcurrency.trim(),
+        referer: settingsForm.referer,
+        proxy:
+          settingsForm.proxyMode === 'builtin'
+            ? 'builtin'
+            : settingsForm.proxyMode === 'custom'
+              ? settingsForm.proxy
+              : '',
+        headers: parseHeaderLines(settingsForm.headers),
+      },
+    })
+      .then(() => {
+        setEditingKey(null);
+      })
+      .catch(() => {
+        console.error('操作失败', 'settings', editingKey);
+      });
+  };
+
   const handleDragEnd = (event: any) => {
     const { active, over } = event;
     if (!over || active.id === over.id) return;
@@ -778,6 +931,18 @@ const VideoSourceConfig = ({
         </td>
         <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
           {source.name}
+          {source.request?.proxy && (
+            <span
+              className='ml-2 px-1.5 py-0.5 text-xs rounded bg-purple-100 dark:bg-purple-900/20 text-purple-800 dark:text-purple-300'
+              title={
+                source.request.proxy === 'builtin'
+                  ? '经内置代理请求'
+                  : `经代理请求：${source.request.proxy}`
+              }
+            >
+              代理
+            </span>
+          )}
         </td>
         <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
           {source.key}
@@ -804,6 +969,61 @@ const VideoSourceConfig = ({
             {!source.disabled ? '启用中' : '已禁用'}
           </span>
         </td>
+        <td className='px-6 py-4 whitespace-nowrap'>
+          {(() => {
+            const h = health[source.key];
+            if (!h) {
+              return (
+                <span className='text-xs text-gray-400 dark:text-gray-500'>
+                  -
+                </span>
+              );
+            }
+            const label =
+              h.state === 'open'
+                ? '熔断'
+                : h.state === 'half-open'
+                  ? '探测中'
+                  : '正常';
+            const color =
+              h.state === 'open'
+                ? 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                : h.state === 'half-open'
+                  ? 'bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300'
+                  : 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300';
+            // 直连与代理线路各自的成功率，没有请求记录的线路不显示
+            const routeSummary = (['direct', 'proxy'] as const)
+              .map((route) => {
+                const r = h.routes?.[route];
+                if (!r || r.successCount + r.failureCount === 0) return '';
+                return `\n${route === 'direct' ? '直连' : '代理'}：成功率 ${Math.round(
+                  (1 - r.errorRate) * 100
+                )}%，平均延迟 ${r.avgLatency}ms${r.lastError ? `，最近错误：${r.lastError}` : ''}`;
+              })
+              .join('');
+            return (
+              <div className='flex items-center gap-1'>
+                <button
+                  onClick={() => handleResetHealth(source.key)}
+                  title={`错误率 ${Math.round(h.errorRate * 100)}%，平均延迟 ${h.avgLatency}ms${
+                    h.lastError ? `，最近错误：${h.lastError}` : ''
+                  }${routeSummary}\n（点击重置）`}
+                  className={`px-2 py-1 text-xs rounded-full ${color}`}
+                >
+                  {label} · {h.avgLatency}ms
+                </button>
+                <button
+                  onClick={() => handleCompareRoutes(source.key)}
+                  disabled={comparingKey === source.key}
+                  title='分别直连和经代理请求一次，对比两条线路'
+                  className='px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700/40 dark:text-gray-300 dark:hover:bg-gray-700/60 disabled:opacity-50'
+                >
+                  {comparingKey === source.key ? '对比中' : '对比'}
+                </button>
+              </div>
+            );
+          })()}
+        </td>
         <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2'>
           <button
             onClick={() => handleToggleEnable(source.key)}
@@ -814,6 +1034,16 @@ const VideoSourceConfig = ({
           >
             {!source.disabled ? '禁用' : '启用'}
           </button>
+          <button
+            onClick={() => handleEditSettings(source)}
+            className={`inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium ${editingKey === source.key || source.request
+              ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60'
+              : 'bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200'
+              } transition-colors`}
+            title={source.request ? '已自定义请求设置' : '使用默认请求设置'}
+          >
+            设置
+          </button>
           {source.from !== 'config' && (
             <button
               onClick={() => handleDelete(source.key)}
@@ -889,6 +1119,22 @@ const VideoSourceConfig = ({
               }
               className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
             />
+            <select
+              value={newSource.type || ''}
+              onChange={(e) =>
+                setNewSource((prev) => ({
+                  ...prev,
+                  type: (e.target.value || undefined) as SourceType | undefined,
+                }))
+              }
+              className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+            >
+              <option value=''>源类型：自动（有 Detail 地址时抓取详情页）</option>
+              <option value='maccms'>苹果CMS JSON</option>
+              <option value='maccms_xml'>苹果CMS XML</option>
+              <option value='html'>苹果CMS + HTML 详情页</option>
+              <option value='eporner'>Eporner</option>
+            </select>
           </div>
           <div className='flex justify-end'>
             <button
@@ -923,6 +1169,9 @@ const VideoSourceConfig = ({
               <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
                 状态
               </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                健康
+              </th>
               <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
                 操作
               </th>
@@ -949,6 +1198,97 @@ const VideoSourceConfig = ({
         </table>
       </div>
 
+      {/* 视频源请求设置 */}
+      {editingKey && (
+        <div className='p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 space-y-4'>
+          <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+            请求设置：{sources.find((s) => s.key === editingKey)?.name || editingKey}
+          </h4>
+          <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+            <input
+              type='number'
+              placeholder='超时（毫秒，默认搜索 8000 / 详情 10000）'
+              value={settingsForm.timeout}
+              onChange={(e) =>
+                setSettingsForm((prev) => ({ ...prev, timeout: e.target.value }))
+              }
+              className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+            />
+            <input
+              type='number'
+              placeholder='最大并发请求数（默认 4）'
+              value={settingsForm.maxConcurrency}
+              onChange={(e) =>
+                setSettingsForm((prev) => ({
+                  ...prev,
+                  maxConcurrency: e.target.value,
+                }))
+              }
+              className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+            />
+            <input
+              type='text'
+              placeholder='Referer（选填）'
+              value={settingsForm.referer}
+              onChange={(e) =>
+                setSettingsForm((prev) => ({ ...prev, referer: e.target.value }))
+              }
+              className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+            />
+            <div className='flex gap-2'>
+              <select
+                value={settingsForm.proxyMode}
+                onChange={(e) =>
+                  setSettingsForm((prev) => ({
+                    ...prev,
+                    proxyMode: e.target.value as SourceSettingsForm['proxyMode'],
+                  }))
+                }
+                className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+              >
+                <option value='none'>直连</option>
+                <option value='builtin'>内置代理</option>
+                <option value='custom'>自定义代理</option>
+              </select>
+              {settingsForm.proxyMode === 'custom' && (
+                <input
+                  type='text'
+                  placeholder='代理地址（{url} 替换为原地址）'
+                  value={settingsForm.proxy}
+                  onChange={(e) =>
+                    setSettingsForm((prev) => ({ ...prev, proxy: e.target.value }))
+                  }
+                  className='flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                />
+              )}
+            </div>
+            <textarea
+              rows={3}
+              placeholder={'自定义请求头（选填），每行一个，如\nUser-Agent: Mozilla/5.0'}
+              value={settingsForm.headers}
+              onChange={(e) =>
+                setSettingsForm((prev) => ({ ...prev, headers: e.target.value }))
+              }
+              className='sm:col-span-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono text-sm'
+            />
+          </div>
+          <div className='flex justify-end gap-2'>
+            <button
+              onClick={() => setEditingKey(null)}
+              className='px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors'
+            >
+              取消
+            </button>
+            <button
+              onClick={handleSaveSettings}
+              className='px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors'
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 保存排序按钮 */}
       {orderChanged && (
         <div className='flex justify-end'>
@@ -1335,7 +1675,374 @@ const CategoryConfig = ({
   );
 };
 
+// 苹果CMS 分类的排序方式名称
+const MACCMS_ORDER_LABELS: Record<MacCMSCategoryOrder, string> = {
+  latest: '最新',
+  longest: '最长',
+  shortest: '最短',
+  'top-rated': '评分最高',
+  'most-viewed': '播放最多',
+};
+
+interface MacCMSCategoryForm {
+  type_id: string;
+  type_name: string;
+  type_pid: string;
+  query: string;
+  order: MacCMSCategoryOrder | '';
+}
+
+const EMPTY_MACCMS_FORM: MacCMSCategoryForm = {
+  type_id: '',
+  type_name: '',
+  type_pid: '0',
+  query: '',
+  order: '',
+};
+
+// 苹果CMS 分类配置组件（/api/maccms 的 ac=list 分类与 t 参数）
+const MacCMSConfig = ({
+  config,
+  refreshConfig,
+}: {
+  config: AdminConfig | null;
+  refreshConfig: () => Promise<void>;
+}) => {
+  const [categories, setCategories] = useState<MacCMSCategoryConfig[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<MacCMSCategoryForm>(EMPTY_MACCMS_FORM);
+  const [orderChanged, setOrderChanged] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 150,
+        tolerance: 5,
+      },
+    })
+  );
+
+  useEffect(() => {
+    if (config?.MacCMSCategories) {
+      setCategories(config.MacCMSCategories);
+      setOrderChanged(false);
+    }
+  }, [config]);
 
+  const callMacCMSApi = async (body: Record<string, any>) => {
+    try {
+      const resp = await fetch('/api/admin/maccms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body }),
+      });
+
+      if (!resp.ok) {
+        const data = await resp.json().catch(() => ({}));
+        throw new Error(data.error || `操作失败: ${resp.status}`);
+      }
+
+      await refreshConfig();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+      throw err;
+    }
+  };
+
+  const closeForm = () => {
+    setForm(EMPTY_MACCMS_FORM);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const handleEdit = (category: MacCMSCategoryConfig) => {
+    setForm({
+      type_id: String(category.type_id),
+      type_name: category.type_name,
+      type_pid: String(category.type_pid),
+      query: category.query,
+      order: category.order || '',
+    });
+    setEditingId(category.type_id);
+    setShowForm(true);
+  };
+
+  const handleSubmit = () => {
+    if (!form.type_id || !form.type_name || !form.query) return;
+    const action = editingId === null ? 'add' : 'edit';
+    callMacCMSApi({
+      action,
+      type_id: Number(form.type_id),
+      type_name: form.type_name,
+      type_pid: Number(form.type_pid),
+      query: form.query,
+      order: form.order || undefined,
+    })
+      .then(closeForm)
+      .catch(() => {
+        console.error('操作失败', action, form);
+      });
+  };
+
+  const handleDelete = (typeId: number) => {
+    callMacCMSApi({ action: 'delete', type_id: typeId }).catch(() => {
+      console.error('操作失败', 'delete', typeId);
+    });
+  };
+
+  const handleDragEnd = (event: any) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+    const oldIndex = categories.findIndex((c) => c.type_id === active.id);
+    const newIndex = categories.findIndex((c) => c.type_id === over.id);
+    setCategories((prev) => arrayMove(prev, oldIndex, newIndex));
+    setOrderChanged(true);
+  };
+
+  const handleSaveOrder = () => {
+    const order = categories.map((c) => c.type_id);
+    callMacCMSApi({ action: 'sort', order })
+      .then(() => {
+        setOrderChanged(false);
+      })
+      .catch(() => {
+        console.error('操作失败', 'sort', order);
+      });
+  };
+
+  const parentName = (typeId: number) =>
+    categories.find((c) => c.type_id === typeId)?.type_name || '-';
+
+  const DraggableRow = ({ category }: { category: MacCMSCategoryConfig }) => {
+    const { attributes, listeners, setNodeRef, transform, transition } =
+      useSortable({ id: category.type_id });
+
+    const style = {
+      transform: CSS.Transform.toString(transform),
+      transition,
+    } as React.CSSProperties;
+
+    return (
+      <tr
+        ref={setNodeRef}
+        style={style}
+        className='hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors select-none'
+      >
+        <td
+          className='px-2 py-4 cursor-grab text-gray-400'
+          style={{ touchAction: 'none' }}
+          {...attributes}
+          {...listeners}
+        >
+          <GripVertical size={16} />
+        </td>
+        <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+          {category.type_id}
+        </td>
+        <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+          {category.type_name}
+        </td>
+        <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+          {category.type_pid === 0 ? '顶级' : parentName(category.type_pid)}
+        </td>
+        <td
+          className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100 max-w-[12rem] truncate'
+          title={category.query}
+        >
+          {category.query}
+        </td>
+        <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+          {category.order ? MACCMS_ORDER_LABELS[category.order] : '跟随请求'}
+        </td>
+        <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2'>
+          <button
+            onClick={() => handleEdit(category)}
+            className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60 transition-colors'
+          >
+            编辑
+          </button>
+          <button
+            onClick={() => handleDelete(category.type_id)}
+            className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200 transition-colors'
+          >
+            删除
+          </button>
+        </td>
+      </tr>
+    );
+  };
+
+  if (!config) {
+    return (
+      <div className='text-center text-gray-500 dark:text-gray-400'>
+        加载中...
+      </div>
+    );
+  }
+
+  const inputClass =
+    'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className='space-y-6'>
+      <div className='flex items-center justify-between'>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          苹果CMS 分类列表
+          <span className='ml-2 text-xs text-gray-500 dark:text-gray-400'>
+            (/api/maccms 的 ac=list 分类，t=分类ID 时按搜索词取列表)
+          </span>
+        </h4>
+        <button
+          onClick={() => (showForm ? closeForm() : setShowForm(true))}
+          className='px-3 py-1 text-sm rounded-lg transition-colors bg-green-600 hover:bg-green-700 text-white'
+        >
+          {showForm ? '取消' : '添加分类'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className='p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 space-y-4'>
+          <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+            <input
+              type='number'
+              min={1}
+              placeholder='分类 ID（t 参数）'
+              value={form.type_id}
+              disabled={editingId !== null}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, type_id: e.target.value }))
+              }
+              className={`${inputClass} disabled:opacity-60`}
+            />
+            <input
+              type='text'
+              placeholder='分类名称'
+              value={form.type_name}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, type_name: e.target.value }))
+              }
+              className={inputClass}
+            />
+            <select
+              value={form.type_pid}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, type_pid: e.target.value }))
+              }
+              className={inputClass}
+            >
+              <option value='0'>顶级分类</option>
+              {categories
+                .filter((c) => c.type_pid === 0 && c.type_id !== editingId)
+                .map((c) => (
+                  <option key={c.type_id} value={String(c.type_id)}>
+                    {c.type_name}
+                  </option>
+                ))}
+            </select>
+            <input
+              type='text'
+              placeholder='搜索关键词'
+              value={form.query}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, query: e.target.value }))
+              }
+              className={inputClass}
+            />
+            <select
+              value={form.order}
+              onChange={(e) =>
+                setForm((prev) => ({
+                  ...prev,
+                  order: e.target.value as MacCMSCategoryOrder | '',
+                }))
+              }
+              className={inputClass}
+            >
+              <option value=''>排序跟随请求</option>
+              {MACCMS_CATEGORY_ORDERS.map((order) => (
+                <option key={order} value={order}>
+                  {MACCMS_ORDER_LABELS[order]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className='flex justify-end'>
+            <button
+              onClick={handleSubmit}
+              disabled={!form.type_id || !form.type_name || !form.query}
+              className='w-full sm:w-auto px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded-lg transition-colors'
+            >
+              {editingId === null ? '添加' : '保存'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className='border border-gray-200 dark:border-gray-700 rounded-lg max-h-[28rem] overflow-y-auto overflow-x-auto'>
+        <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+          <thead className='bg-gray-50 dark:bg-gray-900'>
+            <tr>
+              <th className='w-8' />
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                ID
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                分类名称
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                父分类
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                搜索关键词
+              </th>
+              <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                排序
+              </th>
+              <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                操作
+              </th>
+            </tr>
+          </thead>
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragEnd={handleDragEnd}
+            autoScroll={false}
+            modifiers={[restrictToVerticalAxis, restrictToParentElement]}
+          >
+            <SortableContext
+              items={categories.map((c) => c.type_id)}
+              strategy={verticalListSortingStrategy}
+            >
+              <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+                {categories.map((category) => (
+                  <DraggableRow key={category.type_id} category={category} />
+                ))}
+              </tbody>
+            </SortableContext>
+          </DndContext>
+        </table>
+      </div>
+
+      {orderChanged && (
+        <div className='flex justify-end'>
+          <button
+            onClick={handleSaveOrder}
+            className='px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors'
+          >
+            保存排序
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
 
 // 新增站点配置组件
 
@@ -1673,6 +2380,7 @@ function AdminPageClient() {
     videoSource: false,
     siteConfig: false,
     categoryConfig: false,
+    maccmsConfig: false,
     configSync: false,
   });
 
@@ -1845,6 +2553,18 @@ function AdminPageClient() {
             >
               <CategoryConfig config={config} refreshConfig={fetchConfig} />
             </CollapsibleTab>
+
+            {/* 苹果CMS 分类配置标签 */}
+            <CollapsibleTab
+              title='苹果CMS 分类'
+              icon={
+                <Rss size={20} className='text-gray-600 dark:text-gray-400' />
+              }
+              isExpanded={expandedTabs.maccmsConfig}
+              onToggle={() => toggleTab('maccmsConfig')}
+            >
+              <MacCMSConfig config={config} refreshConfig={fetchConfig} />
+            </CollapsibleTab>
           </div>
         </div>
       </div>
@@ -0,0 +1,142 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { checkAdmin } from '@/lib/admin.auth';
+import { getConfig } from '@/lib/config';
+import { getStorage } from '@/lib/db';
+import { validateMacCMSCategory } from '@/lib/maccms.category';
+import { IStorage } from '@/lib/types';
+
+export const runtime = 'edge';
+
+// 支持的操作类型
+type Action = 'add' | 'edit' | 'delete' | 'sort';
+
+interface BaseBody {
+  action?: Action;
+}
+
+// 苹果CMS 接口分类管理
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = (await request.json()) as BaseBody & Record<string, any>;
+    const { action } = body;
+
+    // 权限与身份校验
+    const denied = await checkAdmin(request);
+    if (denied) return denied;
+
+    // 基础校验
+    const ACTIONS: Action[] = ['add', 'edit', 'delete', 'sort'];
+    if (!action || !ACTIONS.includes(action)) {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    // 获取配置与存储
+    const adminConfig = await getConfig();
+    const storage: IStorage | null = getStorage();
+
+    const categories = adminConfig.MacCMSCategories;
+    switch (action) {
+      case 'add': {
+        const { category, error } = validateMacCMSCategory(body, categories);
+        if (!category) {
+          return NextResponse.json({ error }, { status: 400 });
+        }
+        categories.push(category);
+        break;
+      }
+      case 'edit': {
+        const idx = categories.findIndex(
+          (c) => c.type_id === Number(body.type_id)
+        );
+        if (idx === -1)
+          return NextResponse.json({ error: '分类不存在' }, { status: 404 });
+        const { category, error } = validateMacCMSCategory(
+          body,
+          categories,
+          true
+        );
+        if (!category) {
+          return NextResponse.json({ error }, { status: 400 });
+        }
+        categories[idx] = category;
+        break;
+      }
+      case 'delete': {
+        const typeId = Number(body.type_id);
+        const idx = categories.findIndex((c) => c.type_id === typeId);
+        if (idx === -1)
+          return NextResponse.json({ error: '分类不存在' }, { status: 404 });
+        if (categories.some((c) => c.type_pid === typeId)) {
+          return NextResponse.json(
+            { error: '请先删除该分类下的子分类' },
+            { status: 400 }
+          );
+        }
+        categories.splice(idx, 1);
+        break;
+      }
+      case 'sort': {
+        const { order } = body as { order?: number[] };
+        if (!Array.isArray(order)) {
+          return NextResponse.json(
+            { error: '排序列表格式错误' },
+            { status: 400 }
+          );
+        }
+        const map = new Map(categories.map((c) => [c.type_id, c]));
+        const newList: typeof categories = [];
+        order.forEach((id) => {
+          const item = map.get(Number(id));
+          if (item) {
+            newList.push(item);
+            map.delete(Number(id));
+          }
+        });
+        // 未在 order 中的保持原顺序
+        categories.forEach((item) => {
+          if (map.has(item.type_id)) newList.push(item);
+        });
+        adminConfig.MacCMSCategories = newList;
+        break;
+      }
+      default:
+        return NextResponse.json({ error: '未知操作' }, { status: 400 });
+    }
+
+    // 持久化到存储
+    if (storage && typeof (storage as any).setAdminConfig === 'function') {
+      await (storage as any).setAdminConfig(adminConfig);
+    }
+
+    return NextResponse.json(
+      { ok: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('苹果CMS 分类管理操作失败:', error);
+    return NextResponse.json(
+      {
+        error: '苹果CMS 分类管理操作失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { checkAdmin } from '@/lib/admin.auth';
+import { getConfig } from '@/lib/config';
+import { compareSourceRoutes } from '@/lib/downstream';
+import { getAllSourceHealth, resetSourceHealth } from '@/lib/source.health';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/admin/source/health
+ * 返回当前实例记录的各视频源健康状态（按 key 索引）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await checkAdmin(request);
+    if (denied) return denied;
+
+    return NextResponse.json(
+      { health: getAllSourceHealth() },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('获取视频源健康状态失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取视频源健康状态失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/source/health?key=<key>
+ * 重置指定源（不传 key 则为全部）的健康统计，熔断立即解除
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const denied = await checkAdmin(request);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    resetSourceHealth(searchParams.get('key') || undefined);
+
+    return NextResponse.json(
+      { ok: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('重置视频源健康状态失败:', error);
+    return NextResponse.json(
+      {
+        error: '重置视频源健康状态失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/source/health?key=<key>
+ * 对指定源分别直连和经代理各请求一次，比较两条线路的可用性与延迟
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await checkAdmin(request);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get('key');
+    if (!key) {
+      return NextResponse.json({ error: '缺少参数: key' }, { status: 400 });
+    }
+    const config = await getConfig();
+    const site = config.SourceConfig.find((item) => item.key === key);
+    if (!site) {
+      return NextResponse.json({ error: '源不存在' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { results: await compareSourceRoutes(site) },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('对比视频源线路失败:', error);
+    return NextResponse.json(
+      {
+        error: '对比视频源线路失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
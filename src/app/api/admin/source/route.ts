@@ -2,20 +2,71 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
+import { SourceRequestConfig, SourceType } from '@/lib/admin.types';
 import { getAuthInfoFromCookie } from '@/lib/auth';
 import { getConfig } from '@/lib/config';
 import { getStorage } from '@/lib/db';
+import { BUILTIN_PROXY } from '@/lib/source.adapter';
 import { IStorage } from '@/lib/types';
 
 export const runtime = 'edge';
 
 // 支持的操作类型
-type Action = 'add' | 'disable' | 'enable' | 'delete' | 'sort';
+type Action = 'add' | 'disable' | 'enable' | 'delete' | 'sort' | 'settings';
+
+const SOURCE_TYPES: SourceType[] = ['maccms', 'maccms_xml', 'html', 'eporner'];
 
 interface BaseBody {
   action?: Action;
 }
 
+// 校验并清理源的请求设置，空值视为使用默认值；格式错误时返回错误信息
+function parseRequestConfig(
+  input: Record<string, any>
+): SourceRequestConfig | string {
+  const config: SourceRequestConfig = {};
+
+  if (input.timeout !== undefined && input.timeout !== '') {
+    const timeout = Number(input.timeout);
+    if (!Number.isInteger(timeout) || timeout < 1000 || timeout > 60000) {
+      return '超时需为 1000~60000 之间的毫秒数';
+    }
+    config.timeout = timeout;
+  }
+  if (input.maxConcurrency !== undefined && input.maxConcurrency !== '') {
+    const max = Number(input.maxConcurrency);
+    if (!Number.isInteger(max) || max < 1 || max > 20) {
+      return '并发数需为 1~20 之间的整数';
+    }
+    config.maxConcurrency = max;
+  }
+  if (input.headers) {
+    if (typeof input.headers !== 'object' || Array.isArray(input.headers)) {
+      return '请求头格式错误';
+    }
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(input.headers)) {
+      if (!/^[A-Za-z0-9-]+$/.test(name) || typeof value !== 'string') {
+        return `无效的请求头: ${name}`;
+      }
+      headers[name] = value;
+    }
+    if (Object.keys(headers).length > 0) config.headers = headers;
+  }
+  const urlFields = { referer: 'Referer', proxy: '代理地址' } as const;
+  for (const [field, label] of Object.entries(urlFields)) {
+    const value = typeof input[field] === 'string' ? input[field].trim() : '';
+    if (!value) continue;
+    const builtin = field === 'proxy' && value === BUILTIN_PROXY;
+    if (!builtin && !/^https?:\/\//i.test(value)) {
+      return `${label}需以 http(s):// 开头`;
+    }
+    config[field as keyof typeof urlFields] = value;
+  }
+
+  return config;
+}
+
 export async function POST(request: NextRequest) {
   const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
   if (storageType === 'localstorage') {
@@ -38,7 +89,14 @@ export async function POST(request: NextRequest) {
     const username = authInfo.username;
 
     // 基础校验
-    const ACTIONS: Action[] = ['add', 'disable', 'enable', 'delete', 'sort'];
+    const ACTIONS: Action[] = [
+      'add',
+      'disable',
+      'enable',
+      'delete',
+      'sort',
+      'settings',
+    ];
     if (!username || !action || !ACTIONS.includes(action)) {
       return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
     }
@@ -59,15 +117,22 @@ export async function POST(request: NextRequest) {
 
     switch (action) {
       case 'add': {
-        const { key, name, api, detail } = body as {
+        const { key, name, api, detail, type } = body as {
           key?: string;
           name?: string;
           api?: string;
           detail?: string;
+          type?: SourceType;
         };
         if (!key || !name || !api) {
           return NextResponse.json({ error: '缺少必要参数' }, { status: 400 });
         }
+        if (type && !SOURCE_TYPES.includes(type)) {
+          return NextResponse.json(
+            { error: '不支持的源类型' },
+            { status: 400 }
+          );
+        }
         if (adminConfig.SourceConfig.some((s) => s.key === key)) {
           return NextResponse.json({ error: '该源已存在' }, { status: 400 });
         }
@@ -76,6 +141,7 @@ export async function POST(request: NextRequest) {
           name,
           api,
           detail,
+          type,
           from: 'custom',
           disabled: false,
         });
@@ -115,6 +181,23 @@ export async function POST(request: NextRequest) {
         adminConfig.SourceConfig.splice(idx, 1);
         break;
       }
+      case 'settings': {
+        const { key, request: requestConfig } = body as {
+          key?: string;
+          request?: Record<string, any>;
+        };
+        if (!key)
+          return NextResponse.json({ error: '缺少 key 参数' }, { status: 400 });
+        const entry = adminConfig.SourceConfig.find((s) => s.key === key);
+        if (!entry)
+          return NextResponse.json({ error: '源不存在' }, { status: 404 });
+        const parsed = parseRequestConfig(requestConfig || {});
+        if (typeof parsed === 'string') {
+          return NextResponse.json({ error: parsed }, { status: 400 });
+        }
+        entry.request = Object.keys(parsed).length > 0 ? parsed : undefined;
+        break;
+      }
       case 'sort': {
         const { order } = body as { order?: string[] };
         if (!Array.isArray(order)) {
@@ -4,7 +4,13 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { db } from '@/lib/db';
 import { fetchVideoDetail } from '@/lib/fetchVideoDetail';
-import { SearchResult } from '@/lib/types';
+import { findReplacement, markCheckFailed } from '@/lib/source.availability';
+import { isSourceUnavailableError } from '@/lib/source.health';
+import {
+  SearchResult,
+  SourceAvailability,
+  SourceReplacement,
+} from '@/lib/types';
 
 export const runtime = 'edge';
 
@@ -50,21 +56,24 @@ async function refreshRecordAndFavorites() {
     }
     // 函数级缓存：key 为 `${source}+${id}`，值为 Promise<VideoDetail | null>
     const detailCache = new Map<string, Promise<SearchResult | null>>();
+    // 源整体熔断而跳过的条目，不计入可用性检测的失败次数
+    const skippedKeys = new Set<string>();
+    // 替代源搜索缓存：key 为 `${source}+${id}`
+    const replacementCache = new Map<
+      string,
+      Promise<SourceReplacement | null>
+    >();
 
     // 获取详情 Promise（带缓存和错误处理）
+    // 不经过共享缓存直接请求详情，已下架的条目不会因缓存仍被判定为可用
     const getDetail = async (
       source: string,
-      id: string,
-      fallbackTitle: string
+      id: string
     ): Promise<SearchResult | null> => {
       const key = `${source}+${id}`;
       let promise = detailCache.get(key);
       if (!promise) {
-        promise = fetchVideoDetail({
-          source,
-          id,
-          fallbackTitle: fallbackTitle.trim(),
-        })
+        promise = fetchVideoDetail({ source, id, fresh: true })
           .then((detail) => {
             // 成功时才缓存结果
             const successPromise = Promise.resolve(detail);
@@ -73,6 +82,9 @@ async function refreshRecordAndFavorites() {
           })
           .catch((err) => {
             console.error(`获取视频详情失败 (${source}+${id}):`, err);
+            if (isSourceUnavailableError(err)) {
+              skippedKeys.add(key);
+            }
             return null;
           });
       }
@@ -82,6 +94,51 @@ async function refreshRecordAndFavorites() {
     for (const user of users) {
       console.log(`开始处理用户: ${user}`);
 
+      // 源可用性：同一 source+id 在播放记录与收藏中只检测一次
+      const availability = await db
+        .getAllSourceAvailability(user)
+        .catch(() => ({} as { [key: string]: SourceAvailability }));
+      const checkedKeys = new Set<string>();
+      const updateAvailability = async (
+        key: string,
+        title: string,
+        year: string,
+        detail: SearchResult | null
+      ) => {
+        if (checkedKeys.has(key)) return;
+        checkedKeys.add(key);
+
+        if (detail) {
+          if (availability[key]) {
+            await db.deleteSourceAvailability(user, key);
+          }
+          return;
+        }
+        if (skippedKeys.has(key)) return;
+
+        const next = markCheckFailed(availability[key]);
+        if (next.unavailable && !next.replacement) {
+          let promise = replacementCache.get(key);
+          if (!promise) {
+            promise = findReplacement(title, year, key.split('+')[0]).catch(
+              () => null
+            );
+            replacementCache.set(key, promise);
+          }
+          next.replacement = (await promise) || undefined;
+        }
+        await db.setSourceAvailability(user, key, next);
+        if (next.unavailable) {
+          console.warn(
+            `源已失效: ${title} (${key})${
+              next.replacement
+                ? `，可迁移到 ${next.replacement.source_name}`
+                : ''
+            }`
+          );
+        }
+      };
+
       // 播放记录
       try {
         const playRecords = await db.getAllPlayRecords(user);
@@ -96,7 +153,8 @@ async function refreshRecordAndFavorites() {
               continue;
             }
 
-            const detail = await getDetail(source, id, record.title);
+            const detail = await getDetail(source, id);
+            await updateAvailability(key, record.title, record.year, detail);
             if (!detail) {
               console.warn(`跳过无法获取详情的播放记录: ${key}`);
               continue;
@@ -147,7 +205,8 @@ async function refreshRecordAndFavorites() {
               continue;
             }
 
-            const favDetail = await getDetail(source, id, fav.title);
+            const favDetail = await getDetail(source, id);
+            await updateAvailability(key, fav.title, fav.year, favDetail);
             if (!favDetail) {
               console.warn(`跳过无法获取详情的收藏: ${key}`);
               continue;
@@ -0,0 +1,194 @@
+import { NextResponse } from 'next/server';
+
+import { ApiSite, getCacheTime, getConfig } from '@/lib/config';
+import { getListFromApi } from '@/lib/downstream';
+import { groupSearchResults, isSameWork } from '@/lib/search.grouping';
+import { SearchResult } from '@/lib/types';
+import { yellowWords } from '@/lib/yellow';
+
+export const runtime = 'edge';
+
+const DEFAULT_LATEST_HOURS = 24;
+const MAX_LATEST_HOURS = 24 * 30;
+// 只看收藏时每个源最多翻的页数
+const MAX_FAVORITE_PAGES = 10;
+// 单次请求最多接受的收藏条数
+const MAX_FAVORITES = 500;
+
+interface LatestFavorite {
+  source: string;
+  id: string;
+  title: string;
+  year?: string;
+}
+
+// 各源均按更新时间倒序返回，轮流取各源的第 i 条，避免首页被单个源占满
+function interleave(lists: SearchResult[][]): SearchResult[] {
+  const merged: SearchResult[] = [];
+  const longest = Math.max(0, ...lists.map((list) => list.length));
+  for (let i = 0; i < longest; i++) {
+    lists.forEach((list) => {
+      if (list[i]) merged.push(list[i]);
+    });
+  }
+  return merged;
+}
+
+// 是否为收藏中的作品：同源同 id，或按标题、年份判定为同一部
+function isFavorited(result: SearchResult, favorites: LatestFavorite[]) {
+  return favorites.some(
+    (fav) =>
+      (fav.source === result.source && fav.id === result.id) ||
+      isSameWork(result, { title: fav.title, year: fav.year })
+  );
+}
+
+function parseLatestParams(searchParams: URLSearchParams) {
+  const hours = Math.min(
+    Math.max(
+      parseInt(searchParams.get('h') || '', 10) || DEFAULT_LATEST_HOURS,
+      1
+    ),
+    MAX_LATEST_HOURS
+  );
+  const page = Math.max(parseInt(searchParams.get('pg') || '1', 10) || 1, 1);
+  const sourceKeys = (searchParams.get('sources') || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+  return { hours, page, sourceKeys };
+}
+
+async function getLatestSites(sourceKeys: string[]) {
+  const config = await getConfig();
+  const apiSites = config.SourceConfig.filter(
+    (site) =>
+      !site.disabled &&
+      (sourceKeys.length === 0 || sourceKeys.includes(site.key))
+  );
+  return {
+    apiSites,
+    disableYellowFilter: config.SiteConfig.DisableYellowFilter,
+  };
+}
+
+// 翻完源在 h 小时窗口内的全部页（最多 MAX_FAVORITE_PAGES 页），只保留收藏中的作品
+async function listFavoriteUpdates(
+  site: ApiSite,
+  hours: number,
+  favorites: LatestFavorite[]
+): Promise<SearchResult[]> {
+  const first = await getListFromApi(site, { hours, page: 1 });
+  const lastPage = Math.min(first.pageCount, MAX_FAVORITE_PAGES);
+  const rest = await Promise.all(
+    Array.from({ length: Math.max(lastPage - 1, 0) }, (_, i) =>
+      getListFromApi(site, { hours, page: i + 2 })
+        .then((result) => result.list)
+        .catch(() => [] as SearchResult[])
+    )
+  );
+  return [first.list, ...rest]
+    .flat()
+    .filter((result) => isFavorited(result, favorites));
+}
+
+function buildLatestBody(
+  lists: SearchResult[][],
+  disableYellowFilter: boolean,
+  hours: number,
+  page: number
+) {
+  let merged = interleave(lists);
+  if (!disableYellowFilter) {
+    merged = merged.filter(
+      (result) =>
+        !yellowWords.some((word: string) =>
+          (result.type_name || '').includes(word)
+        )
+    );
+  }
+  const groups = groupSearchResults(merged);
+  return {
+    hours,
+    page,
+    results: groups.map((group) => group.items[0]),
+    groups: groups.map(({ items: _items, ...group }) => group),
+  };
+}
+
+/**
+ * GET /api/latest?h=24&pg=1&sources=a,b
+ * 汇总各源最近 h 小时内更新的内容（?ac=videolist&h=），按作品去重，
+ * 每部作品保留最先出现的条目，groups 中列出该作品的全部可用源。
+ * 失败或熔断中的源直接忽略。
+ */
+export async function GET(request: Request) {
+  const { hours, page, sourceKeys } = parseLatestParams(
+    new URL(request.url).searchParams
+  );
+  const { apiSites, disableYellowFilter } = await getLatestSites(sourceKeys);
+
+  const lists = await Promise.all(
+    apiSites.map((site) =>
+      getListFromApi(site, { hours, page })
+        .then((result) => result.list)
+        .catch(() => [] as SearchResult[])
+    )
+  );
+
+  const cacheTime = await getCacheTime();
+  return NextResponse.json(
+    buildLatestBody(lists, disableYellowFilter, hours, page),
+    {
+      headers: {
+        'Cache-Control': `public, max-age=${cacheTime}, s-maxage=${cacheTime}`,
+        'CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+        'Vercel-CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+      },
+    }
+  );
+}
+
+/**
+ * POST /api/latest?h=24&sources=a,b
+ * body: { favorites: { source, id, title, year }[] }
+ * 只看收藏：翻完各源 h 小时内的全部更新，返回其中属于收藏的作品（不分页）
+ */
+export async function POST(request: Request) {
+  const { hours, sourceKeys } = parseLatestParams(
+    new URL(request.url).searchParams
+  );
+  let favorites: LatestFavorite[];
+  try {
+    const body = await request.json();
+    favorites = Array.isArray(body?.favorites)
+      ? body.favorites
+          .filter(
+            (fav: Partial<LatestFavorite>) =>
+              typeof fav?.source === 'string' &&
+              typeof fav?.id === 'string' &&
+              typeof fav?.title === 'string'
+          )
+          .slice(0, MAX_FAVORITES)
+      : [];
+  } catch {
+    return NextResponse.json({ error: '请求体格式错误' }, { status: 400 });
+  }
+
+  const { apiSites, disableYellowFilter } = await getLatestSites(sourceKeys);
+  const lists =
+    favorites.length === 0
+      ? []
+      : await Promise.all(
+          apiSites.map((site) =>
+            listFavoriteUpdates(site, hours, favorites).catch(
+              () => [] as SearchResult[]
+            )
+          )
+        );
+
+  return NextResponse.json(
+    buildLatestBody(lists, disableYellowFilter, hours, 1),
+    { headers: { 'Cache-Control': 'private, no-store' } }
+  );
+}
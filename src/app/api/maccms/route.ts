@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getCacheTime } from '@/lib/config';
-import { EpornerClient,epornerClient } from '@/lib/eporner.client';
+import { getCacheTime, getConfig } from '@/lib/config';
+import { EpornerClient,epornerClient, EpornerSearchResponse } from '@/lib/eporner.client';
 import { 
   MacCMSCacheManager, 
   MacCMSErrorHandler, 
   MacCMSPerformanceMonitor,
-  MacCMSRetryHandler} from '@/lib/maccms.cache';
-import { MacCMSParamsProcessor } from '@/lib/maccms.params';
+  MacCMSRetryHandler,
+  ResponseOutput} from '@/lib/maccms.cache';
+import { findMacCMSCategory, getMacCMSCategoriesVersion } from '@/lib/maccms.category';
+import { EPORNER_PAGE_SIZE, fetchFilteredVideos, hasActiveFilters } from '@/lib/maccms.filter';
+import { MacCMSParamsProcessor, ProcessedParams } from '@/lib/maccms.params';
 import { MacCMSTransformer } from '@/lib/maccms.transformer';
+import { getVodIds, getVodKey } from '@/lib/maccms.vodid';
 
 export const runtime = 'edge';
 
@@ -16,10 +20,12 @@ export const runtime = 'edge';
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
   const operation = 'maccms_api_request';
+  let output: ResponseOutput = {};
   
   try {
     const searchParams = request.nextUrl.searchParams;
     const params = MacCMSParamsProcessor.processParams(searchParams);
+    output = params;
     
     // 验证参数
     const validation = MacCMSParamsProcessor.validateParams(params);
@@ -27,7 +33,7 @@ export async function GET(request: NextRequest) {
       const error = MacCMSErrorHandler.handleValidationError(validation.error!);
       MacCMSErrorHandler.logError(error, 'Parameter Validation');
       const errorResponse = MacCMSErrorHandler.createErrorResponse(error);
-      return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+      return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', params);
     }
     
     const cacheTime = await getCacheTime();
@@ -48,14 +54,14 @@ export async function GET(request: NextRequest) {
         break;
       
       case 'category':
-        response = await handleCategoryList(cacheTime);
+        response = await handleCategoryList(params, cacheTime);
         break;
       
       default: {
         const error = MacCMSErrorHandler.handleValidationError('不支持的操作类型');
         MacCMSErrorHandler.logError(error, 'Action Validation');
         const errorResponse = MacCMSErrorHandler.createErrorResponse(error);
-        return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+        return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', params);
       }
     }
     
@@ -72,7 +78,7 @@ export async function GET(request: NextRequest) {
     MacCMSPerformanceMonitor.recordExecutionTime(`${operation}_error`, startTime);
     
     const errorResponse = MacCMSErrorHandler.createErrorResponse(errorDetail);
-    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', output);
   }
 }
 
@@ -83,7 +89,7 @@ async function handleVideoSearch(params: any, _cacheTime: number) {
   if (!params.keyword) {
     const error = MacCMSErrorHandler.handleValidationError('请提供搜索关键词');
     const errorResponse = MacCMSErrorHandler.createErrorResponse(error);
-    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', params);
   }
 
   // 清理搜索关键词
@@ -91,36 +97,67 @@ async function handleVideoSearch(params: any, _cacheTime: number) {
   if (!cleanQuery) {
     const error = MacCMSErrorHandler.handleValidationError('搜索关键词无效');
     const errorResponse = MacCMSErrorHandler.createErrorResponse(error);
-    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', params);
   }
 
   try {
-    // 使用重试机制调用eporner API进行搜索
-    const results = await MacCMSRetryHandler.withRetry(async () => {
-      return await epornerClient.search(
-        cleanQuery,
-        params.page,
-        Math.min(params.limit, 60), // eporner API最大支持60条
-        params.filters.order || 'latest'
-      );
-    }, 3, 1000);
-    
-    // 转换为苹果CMS格式
-    const maccmsData = MacCMSTransformer.transformSearchResponse(results, params.page, params.limit);
+    // 调用eporner API进行搜索，并应用时间、年份、地区过滤；相同参数的结果按 search 类型缓存
+    const { data: maccmsData, cacheStatus } = await MacCMSCacheManager.getOrLoad(
+      'search',
+      MacCMSParamsProcessor.generateCacheKey(params),
+      async () => {
+        const results = await searchWithFilters(cleanQuery, params);
+        const vodIds = await registerVodIds(results);
+        
+        // 转换为苹果CMS格式
+        return MacCMSTransformer.transformSearchResponse(results, params.page, params.limit, undefined, vodIds);
+      }
+    );
     
     // 记录性能指标
     MacCMSPerformanceMonitor.recordExecutionTime('video_search', startTime);
     
-    return MacCMSCacheManager.createCachedResponse(maccmsData, 'search');
+    return MacCMSCacheManager.createCachedResponse(maccmsData, 'search', params, cacheStatus);
   } catch (error) {
     const errorDetail = MacCMSErrorHandler.handleApiError(error);
     MacCMSErrorHandler.logError(errorDetail, 'Video Search');
     
     const errorResponse = MacCMSErrorHandler.createErrorResponse(errorDetail);
-    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', params);
   }
 }
 
+// 为本页视频登记整数 vod_id，返回登记表 key -> vod_id
+function registerVodIds(results: EpornerSearchResponse) {
+  return getVodIds((results.videos || []).map(video => MacCMSTransformer.toVodKey(video.id)));
+}
+
+// 搜索eporner，有过滤条件时逐页拉取并在本地过滤；order 为实际使用的排序，默认使用请求中的排序
+async function searchWithFilters(
+  query: string,
+  params: ProcessedParams,
+  order = params.filters.order || 'latest'
+): Promise<EpornerSearchResponse> {
+  
+  // 使用重试机制调用eporner API
+  const fetchPage = (page: number, perPage: number) =>
+    MacCMSRetryHandler.withRetry(async () => {
+      return await epornerClient.search(query, page, perPage, order);
+    }, 3, 1000);
+  
+  if (!hasActiveFilters(params.filters)) {
+    return fetchPage(params.page, Math.min(params.limit, EPORNER_PAGE_SIZE)); // eporner API最大支持60条
+  }
+  
+  return fetchFilteredVideos(
+    (upstreamPage) => fetchPage(upstreamPage, EPORNER_PAGE_SIZE),
+    params.filters,
+    params.page,
+    params.limit,
+    order
+  );
+}
+
 // 处理视频详情
 async function handleVideoDetail(params: any, _cacheTime: number) {
   const startTime = Date.now();
@@ -128,55 +165,65 @@ async function handleVideoDetail(params: any, _cacheTime: number) {
   if (!params.videoIds || params.videoIds.length === 0) {
     const error = MacCMSErrorHandler.handleValidationError('请提供视频ID');
     const errorResponse = MacCMSErrorHandler.createErrorResponse(error);
-    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', params);
   }
 
   try {
-    const videoList = [];
-    
-    // 处理多个视频ID
-    for (const id of params.videoIds.slice(0, 10)) { // 限制最多10个
-      try {
-        // 使用重试机制获取视频详情
-        const detail = await MacCMSRetryHandler.withRetry(async () => {
-          return await epornerClient.getVideoById(id);
-        }, 2, 500); // 详情请求使用较少的重试次数
+    const { data: maccmsData, cacheStatus } = await MacCMSCacheManager.getOrLoad(
+      'detail',
+      MacCMSParamsProcessor.generateCacheKey(params),
+      async () => {
+        const videoList = [];
+        
+        // 处理多个视频ID
+        for (const id of params.videoIds.slice(0, 10)) { // 限制最多10个
+          // 按登记表还原 Eporner 视频 ID，未登记或格式不正确的直接跳过
+          const key = await getVodKey(String(id));
+          const videoId = key ? MacCMSTransformer.fromVodKey(key) : null;
+          if (!videoId) continue;
+          
+          try {
+            // 使用重试机制获取视频详情
+            const detail = await MacCMSRetryHandler.withRetry(async () => {
+              return await epornerClient.getVideoById(videoId);
+            }, 2, 500); // 详情请求使用较少的重试次数
+            
+            const transformedVideo = MacCMSTransformer.transformVideo(detail, Number(String(id).trim()));
+            videoList.push(transformedVideo);
+          } catch (error) {
+            const errorDetail = MacCMSErrorHandler.handleApiError(error);
+            MacCMSErrorHandler.logError(errorDetail, `Video Detail ${id}`);
+            // 继续处理其他视频，不中断整个请求
+          }
+        }
         
-        const transformedVideo = MacCMSTransformer.transformVideo(detail, parseInt(id, 36) || 1);
-        videoList.push(transformedVideo);
-      } catch (error) {
-        const errorDetail = MacCMSErrorHandler.handleApiError(error);
-        MacCMSErrorHandler.logError(errorDetail, `Video Detail ${id}`);
-        // 继续处理其他视频，不中断整个请求
+        // 没有有效数据时抛出，不写入缓存
+        if (videoList.length === 0) {
+          throw MacCMSErrorHandler.handleValidationError('未找到有效的视频数据');
+        }
+        
+        return {
+          code: 1,
+          msg: '数据列表',
+          page: 1,
+          pagecount: 1,
+          limit: videoList.length,
+          total: videoList.length,
+          list: videoList
+        };
       }
-    }
-    
-    if (videoList.length === 0) {
-      const error = MacCMSErrorHandler.handleValidationError('未找到有效的视频数据');
-      const errorResponse = MacCMSErrorHandler.createErrorResponse(error);
-      return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
-    }
-    
-    const maccmsData = {
-      code: 1,
-      msg: '数据列表',
-      page: 1,
-      pagecount: 1,
-      limit: videoList.length,
-      total: videoList.length,
-      list: videoList
-    };
+    );
     
     // 记录性能指标
     MacCMSPerformanceMonitor.recordExecutionTime('video_detail', startTime);
     
-    return MacCMSCacheManager.createCachedResponse(maccmsData, 'detail');
+    return MacCMSCacheManager.createCachedResponse(maccmsData, 'detail', params, cacheStatus);
   } catch (error) {
     const errorDetail = MacCMSErrorHandler.handleApiError(error);
     MacCMSErrorHandler.logError(errorDetail, 'Video Detail');
     
     const errorResponse = MacCMSErrorHandler.createErrorResponse(errorDetail);
-    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', params);
   }
 }
 
@@ -187,41 +234,53 @@ async function handleVideoList(params: any, _cacheTime: number) {
   const startTime = Date.now();
   
   try {
-    // 默认搜索热门内容
+    // 未指定分类时默认搜索热门内容，指定 t 时使用该分类配置的搜索词
     const defaultQuery = 'popular';
+    const config = await getConfig();
+    const category = findMacCMSCategory(config.MacCMSCategories, params.categoryId);
     
-    // 使用重试机制获取视频列表
-    const results = await MacCMSRetryHandler.withRetry(async () => {
-      return await epornerClient.search(
-        defaultQuery,
-        params.page,
-        Math.min(params.limit, 60),
-        params.filters.order || 'latest'
-      );
-    }, 3, 1000);
+    // 分类不存在时与苹果CMS一致，返回空列表
+    if (params.categoryId !== undefined && !category) {
+      const emptyData = MacCMSTransformer.generateEmptyResponse();
+      return MacCMSCacheManager.createCachedResponse(emptyData, 'search', params);
+    }
     
-    const maccmsData = MacCMSTransformer.transformSearchResponse(results, params.page, params.limit);
+    // 获取视频列表，h=24 等增量采集只返回时间范围内的条目；请求中指定的排序优先于分类配置的排序
+    // 缓存 key 带上分类配置的版本，修改分类后立即生效
+    const { data: maccmsData, cacheStatus } = await MacCMSCacheManager.getOrLoad(
+      'search',
+      `${MacCMSParamsProcessor.generateCacheKey(params)}|categories:${getMacCMSCategoriesVersion(config.MacCMSCategories)}`,
+      async () => {
+        const results = category
+          ? await searchWithFilters(category.query, params, params.filters.order || category.order)
+          : await searchWithFilters(defaultQuery, params);
+        const vodIds = await registerVodIds(results);
+        
+        return MacCMSTransformer.transformSearchResponse(results, params.page, params.limit, category, vodIds);
+      }
+    );
     
     // 记录性能指标
     MacCMSPerformanceMonitor.recordExecutionTime('video_list', startTime);
     
-    return MacCMSCacheManager.createCachedResponse(maccmsData, 'search');
+    return MacCMSCacheManager.createCachedResponse(maccmsData, 'search', params, cacheStatus);
   } catch (error) {
     const errorDetail = MacCMSErrorHandler.handleApiError(error);
     MacCMSErrorHandler.logError(errorDetail, 'Video List');
     
     const errorResponse = MacCMSErrorHandler.createErrorResponse(errorDetail);
-    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', params);
   }
 }
 
 // 处理分类列表
-async function handleCategoryList(_cacheTime: number) {
+async function handleCategoryList(params: ProcessedParams, _cacheTime: number) {
   const startTime = Date.now();
   
   try {
-    // 返回固定的分类列表
-    const categories = MacCMSTransformer.generateCategories();
+    // 返回管理后台配置的分类列表
+    const config = await getConfig();
+    const categories = MacCMSTransformer.generateCategories(config.MacCMSCategories);
     
     const categoryData = {
       code: 1,
@@ -236,13 +295,13 @@ async function handleCategoryList(_cacheTime: number) {
     // 记录性能指标
     MacCMSPerformanceMonitor.recordExecutionTime('category_list', startTime);
     
-    return MacCMSCacheManager.createCachedResponse(categoryData, 'category');
+    return MacCMSCacheManager.createCachedResponse(categoryData, 'category', params);
   } catch (error) {
     const errorDetail = MacCMSErrorHandler.handleApiError(error);
     MacCMSErrorHandler.logError(errorDetail, 'Category List');
     
     const errorResponse = MacCMSErrorHandler.createErrorResponse(errorDetail);
-    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error');
+    return MacCMSCacheManager.createCachedResponse(errorResponse, 'error', params);
   }
 }
 
@@ -417,15 +476,3 @@ function convertSingleVideo(video: any) {
     group_id: 0
   };
 }
-
-// 根据分类ID获取查询关键词
-function _getCategoryQuery(categoryId: string): string {
-  const categoryMap: Record<string, string> = {
-    '1': 'european american', // 欧美
-    '2': 'japanese', // 日本
-    '3': 'asian', // 亚洲
-    '4': 'chinese', // 国产
-  };
-  
-  return categoryMap[categoryId] || '';
-}
\ No newline at end of file
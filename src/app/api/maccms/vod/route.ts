@@ -0,0 +1,159 @@
+import { NextRequest } from 'next/server';
+
+import {
+  getAggregateCategories,
+  getAggregateDetails,
+  listAggregate,
+  searchAggregate,
+} from '@/lib/maccms.aggregate';
+import {
+  CacheType,
+  MacCMSCacheManager,
+  MacCMSErrorHandler,
+  MacCMSPerformanceMonitor,
+  ResponseOutput,
+} from '@/lib/maccms.cache';
+import { MacCMSParamsProcessor } from '@/lib/maccms.params';
+
+export const runtime = 'edge';
+
+/**
+ * 聚合全部已启用视频源的苹果CMS V10 接口
+ *
+ * GET /api/maccms/vod?ac=list                 分类（每个源一个分类）及最新一页内容
+ * GET /api/maccms/vod?ac=videolist&t=&pg=&h=  按源浏览，不传 t 时合并全部源
+ * GET /api/maccms/vod?ac=videolist&wd=        在全部源中搜索
+ * GET /api/maccms/vod?ac=detail&ids=a,b       详情，ids 为列表中返回的 vod_id
+ * 以上均支持 at=xml（或 format=xml）输出苹果CMS XML 文档，以及 callback 参数输出 JSONP；
+ * 与 /api/maccms 一样经 MacCMSCacheManager 按类型缓存，响应头 X-Cache 标明是否命中
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  let output: ResponseOutput = {};
+
+  try {
+    const params = MacCMSParamsProcessor.processParams(
+      request.nextUrl.searchParams
+    );
+    output = params;
+    const validation = MacCMSParamsProcessor.validateParams(params);
+    if (!validation.valid) {
+      const error = MacCMSErrorHandler.handleValidationError(
+        validation.error || '参数错误'
+      );
+      return MacCMSCacheManager.createCachedResponse(
+        MacCMSErrorHandler.createErrorResponse(error),
+        'error',
+        params
+      );
+    }
+
+    // 聚合条目不含地区；列表按源分页，无法在本地按年份过滤。不支持的条件直接报错而不是忽略
+    const unsupported = params.filters.area
+      ? '聚合接口不支持按地区过滤'
+      : params.filters.year && params.action !== 'search'
+      ? '聚合接口仅搜索支持按年份过滤'
+      : undefined;
+    if (unsupported) {
+      return MacCMSCacheManager.createCachedResponse(
+        MacCMSErrorHandler.createErrorResponse(
+          MacCMSErrorHandler.handleValidationError(unsupported)
+        ),
+        'error',
+        params
+      );
+    }
+
+    const hours = request.nextUrl.searchParams.get('h');
+    const cacheKey = `vod|${MacCMSParamsProcessor.generateCacheKey(params)}`;
+    let cacheType: CacheType;
+    let loader: () => Promise<unknown>;
+    switch (params.action) {
+      case 'search':
+        cacheType = 'search';
+        loader = async () => ({
+          code: 1,
+          msg: '数据列表',
+          ...(await searchAggregate(
+            params.keyword || '',
+            params.page,
+            params.limit,
+            params.filters.year
+          )),
+        });
+        break;
+
+      case 'detail':
+        cacheType = 'detail';
+        loader = async () => {
+          const list = await getAggregateDetails(params.videoIds || []);
+          // 没有有效数据时抛出，不写入缓存
+          if (list.length === 0) {
+            throw MacCMSErrorHandler.handleValidationError(
+              '未找到有效的视频数据'
+            );
+          }
+          return {
+            code: 1,
+            msg: '数据列表',
+            page: 1,
+            pagecount: 1,
+            limit: list.length,
+            total: list.length,
+            list,
+          };
+        };
+        break;
+
+      case 'category':
+        cacheType = 'category';
+        loader = async () => {
+          const [categories, page] = await Promise.all([
+            getAggregateCategories(),
+            listAggregate({ page: params.page, limit: params.limit }),
+          ]);
+          return { code: 1, msg: '数据列表', ...page, class: categories };
+        };
+        break;
+
+      default:
+        cacheType = 'default';
+        loader = async () => ({
+          code: 1,
+          msg: '数据列表',
+          ...(await listAggregate({
+            typeId: params.categoryId,
+            page: params.page,
+            limit: params.limit,
+            hours: hours ? parseInt(hours, 10) || undefined : undefined,
+          })),
+        });
+    }
+
+    const { data, cacheStatus } = await MacCMSCacheManager.getOrLoad(
+      cacheType,
+      cacheKey,
+      loader
+    );
+    const response = MacCMSCacheManager.createCachedResponse(
+      data,
+      cacheType,
+      params,
+      cacheStatus
+    );
+
+    MacCMSPerformanceMonitor.recordExecutionTime(
+      `maccms_vod_${params.action}`,
+      startTime
+    );
+    return response;
+  } catch (error) {
+    const errorDetail = MacCMSErrorHandler.handleApiError(error);
+    MacCMSErrorHandler.logError(errorDetail, 'MacCMS Aggregate');
+    return MacCMSCacheManager.createCachedResponse(
+      MacCMSErrorHandler.createErrorResponse(errorDetail),
+      'error',
+      output
+    );
+  }
+}
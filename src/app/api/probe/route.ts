@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getAvailableApiSites } from '@/lib/config';
+import { getDetailFromApi } from '@/lib/downstream';
+import {
+  pickProbeUrl,
+  ProbeCandidate,
+  probeCandidate,
+  rankProbes,
+} from '@/lib/stream.probe';
+
+export const runtime = 'edge';
+
+// 单次请求最多探测的候选数
+const MAX_PROBE_CANDIDATES = 20;
+
+type ProbeRequestCandidate = Pick<ProbeCandidate, 'source' | 'id'>;
+
+function isProbeRequestCandidate(
+  value: unknown
+): value is ProbeRequestCandidate {
+  const candidate = value as ProbeRequestCandidate;
+  return (
+    !!candidate &&
+    typeof candidate.source === 'string' &&
+    typeof candidate.id === 'string' &&
+    /^[\w-]+$/.test(candidate.id)
+  );
+}
+
+/**
+ * POST /api/probe
+ * body: { candidates: [{ source, id }] }
+ * 在服务端探测各候选的 m3u8 并按综合评分排序返回，客户端只需播放第一名。
+ * 测速地址由服务端根据 source + id 获取详情后选取，不接受客户端传入的地址，
+ * 避免被当作任意地址的探测器，也避免以失败地址污染按 源 + 域名 共享的测量缓存。
+ */
+export async function POST(request: NextRequest) {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { candidates?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: '请求体不是有效的 JSON' },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(body.candidates)) {
+    return NextResponse.json({ error: '缺少 candidates' }, { status: 400 });
+  }
+
+  const apiSites = await getAvailableApiSites();
+  const candidates = body.candidates
+    .filter(isProbeRequestCandidate)
+    .slice(0, MAX_PROBE_CANDIDATES);
+
+  // 获取详情失败或没有可测速地址的候选直接跳过
+  const resolved = await Promise.all(
+    candidates.map(async (candidate): Promise<ProbeCandidate | null> => {
+      const apiSite = apiSites.find((site) => site.key === candidate.source);
+      if (!apiSite) return null;
+      try {
+        const url = pickProbeUrl(await getDetailFromApi(apiSite, candidate.id));
+        return url ? { source: candidate.source, id: candidate.id, url } : null;
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  const probes = await Promise.all(
+    resolved
+      .filter((candidate): candidate is ProbeCandidate => candidate !== null)
+      .map(async (candidate) => ({
+        ...candidate,
+        ...(await probeCandidate(candidate)),
+      }))
+  );
+
+  return NextResponse.json(
+    { results: rankProbes(probes) },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 
 import { getCacheTime, getConfig } from '@/lib/config';
 import { searchFromApi } from '@/lib/downstream';
+import { normalizeTitle } from '@/lib/search.grouping';
 import { yellowWords } from '@/lib/yellow';
 
 export const runtime = 'edge';
@@ -43,7 +44,11 @@ export async function GET(request: Request) {
     }
 
     const results = await searchFromApi(targetSite, query);
-    let result = results.filter((r) => r.title === query);
+    // 简繁写法不同也视为同一标题
+    const normalizedQuery = normalizeTitle(query);
+    let result = results.filter(
+      (r) => normalizeTitle(r.title) === normalizedQuery
+    );
     if (!config.SiteConfig.DisableYellowFilter) {
       result = result.filter((result) => {
         const typeName = result.type_name || '';
@@ -1,16 +1,117 @@
 import { NextResponse } from 'next/server';
 
-import { getCacheTime, getConfig } from '@/lib/config';
-import { searchFromApi } from '@/lib/downstream';
+import { ApiSite, getCacheTime, getConfig } from '@/lib/config';
+import { searchFromApiOrThrow } from '@/lib/downstream';
+import {
+  filterSearchResults,
+  paginateSearchResults,
+  parseSearchOptions,
+  SearchQueryOptions,
+  sortSearchResults,
+} from '@/lib/search.filter';
+import { groupSearchResults } from '@/lib/search.grouping';
+import { getSourceHealth, isSourceUnavailableError } from '@/lib/source.health';
+import { SearchResult } from '@/lib/types';
 import { yellowWords } from '@/lib/yellow';
 
 export const runtime = 'edge';
 
+interface SkippedSource {
+  source: string;
+  source_name: string;
+  state?: string;
+}
+
+function toSkippedSource(site: ApiSite): SkippedSource {
+  return {
+    source: site.key,
+    source_name: site.name,
+    state: getSourceHealth(site.key)?.state,
+  };
+}
+
+function filterAdultResults(results: SearchResult[]): SearchResult[] {
+  return results.filter((result) => {
+    const typeName = result.type_name || '';
+    return !yellowWords.some((word: string) => typeName.includes(word));
+  });
+}
+
+/**
+ * 流式搜索：每个源完成后立即以一行 JSON（NDJSON）推送该源的结果，
+ * 全部结束后推送一条 done 汇总事件，列出失败、超时与因熔断被跳过的源。
+ *
+ * 事件格式：
+ * { type: 'results', source, source_name, results: SearchResult[] }
+ * { type: 'done', total, failed, timedOut, skipped }，后三者均为 SkippedSource[]
+ * 筛选条件逐源生效，排序与分页仅对非流式请求有效。
+ */
+function streamSearchResults(
+  apiSites: ApiSite[],
+  query: string,
+  shouldFilterAdult: boolean,
+  options: SearchQueryOptions
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: unknown) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      const failed: SkippedSource[] = [];
+      const timedOut: SkippedSource[] = [];
+      const skipped: SkippedSource[] = [];
+      let total = 0;
+
+      await Promise.all(
+        apiSites.map(async (site) => {
+          try {
+            let results = await searchFromApiOrThrow(site, query);
+            if (shouldFilterAdult) {
+              results = filterAdultResults(results);
+            }
+            results = filterSearchResults(results, options);
+            total += results.length;
+            send({
+              type: 'results',
+              source: site.key,
+              source_name: site.name,
+              results,
+            });
+          } catch (error) {
+            const entry = toSkippedSource(site);
+            if (isSourceUnavailableError(error)) {
+              skipped.push(entry);
+            } else if ((error as Error)?.name === 'AbortError') {
+              timedOut.push(entry);
+            } else {
+              failed.push(entry);
+            }
+          }
+        })
+      );
+
+      send({ type: 'done', total, failed, timedOut, skipped });
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const query = searchParams.get('q');
   // NEW: allow per-request override
   const showAdultParam = searchParams.get('showAdult');
+  const streamParam = searchParams.get('stream');
 
   if (!query) {
     const cacheTime = await getCacheTime();
@@ -27,32 +128,66 @@ export async function GET(request: Request) {
   }
 
   const config = await getConfig();
-  const apiSites = config.SourceConfig.filter((site) => !site.disabled);
-  const searchPromises = apiSites.map((site) => searchFromApi(site, query));
+  const options = parseSearchOptions(searchParams);
+  const apiSites = config.SourceConfig.filter(
+    (site) =>
+      !site.disabled &&
+      (options.sources.length === 0 || options.sources.includes(site.key))
+  );
+
+  // Determine filtering behavior
+  let shouldFilterAdult: boolean;
+  if (showAdultParam !== null) {
+    const userWantsAdult = showAdultParam === '1' || showAdultParam === 'true';
+    shouldFilterAdult = !userWantsAdult;
+  } else {
+    shouldFilterAdult = !config.SiteConfig.DisableYellowFilter;
+  }
+
+  if (streamParam === '1' || streamParam === 'true') {
+    return streamSearchResults(apiSites, query, shouldFilterAdult, options);
+  }
+
+  // 熔断中的源会被跳过，并在响应中列出
+  const skipped: SkippedSource[] = [];
+  const searchPromises = apiSites.map((site) =>
+    searchFromApiOrThrow(site, query).catch((error) => {
+      if (isSourceUnavailableError(error)) {
+        skipped.push(toSkippedSource(site));
+      }
+      return [] as SearchResult[];
+    })
+  );
 
   try {
-    const results = await Promise.all(searchPromises);
-    let flattenedResults = results.flat();
-
-    // Determine filtering behavior
-    let shouldFilterAdult: boolean;
-    if (showAdultParam !== null) {
-      const userWantsAdult = showAdultParam === '1' || showAdultParam === 'true';
-      shouldFilterAdult = !userWantsAdult;
-    } else {
-      shouldFilterAdult = !config.SiteConfig.DisableYellowFilter;
-    }
+    let flattenedResults = (await Promise.all(searchPromises)).flat();
 
     if (shouldFilterAdult) {
-      flattenedResults = flattenedResults.filter((result) => {
-        const typeName = result.type_name || '';
-        return !yellowWords.some((word: string) => typeName.includes(word));
-      });
+      flattenedResults = filterAdultResults(flattenedResults);
     }
+    flattenedResults = sortSearchResults(
+      filterSearchResults(flattenedResults, options),
+      query,
+      options.sort,
+      apiSites.map((site) => site.key)
+    );
+    // 传入 page 时只返回当前页，便于前端懒加载
+    const paged = options.page
+      ? paginateSearchResults(flattenedResults, options.page, options.pageSize)
+      : null;
+    const results = paged ? paged.results : flattenedResults;
     const cacheTime = await getCacheTime();
 
     return NextResponse.json(
-      { results: flattenedResults },
+      {
+        ...paged,
+        results,
+        // 按作品归并后的分组，仅包含各组可用源列表，完整条目见 results
+        groups: groupSearchResults(results).map(
+          ({ items: _items, ...group }) => group
+        ),
+        skipped,
+      },
       {
         headers: {
           'Cache-Control': `public, max-age=${cacheTime}, s-maxage=${cacheTime}`,
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { db } from '@/lib/db';
+import {
+  DEFAULT_SUGGESTION_LIMIT,
+  getDoubanHotCandidates,
+  historyCandidates,
+  MAX_SUGGESTION_LIMIT,
+  rankSuggestions,
+  recentCandidates,
+  SuggestionCandidate,
+} from '@/lib/search.suggest';
+
+export const runtime = 'edge';
+
+// 搜索历史仅在服务端存储模式下可读，localstorage 模式由前端自行合并
+async function getUserHistory(request: NextRequest): Promise<string[]> {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') return [];
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo?.username) return [];
+  try {
+    return await db.getSearchHistory(authInfo.username);
+  } catch (err) {
+    return [];
+  }
+}
+
+/**
+ * GET /api/search/suggest?q=关键词&limit=8
+ * 返回 { suggestions: { title, source }[] }，source 为 history / hot / recent
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = (searchParams.get('q') || '').trim();
+  const limit = Math.min(
+    parseInt(searchParams.get('limit') || '', 10) || DEFAULT_SUGGESTION_LIMIT,
+    MAX_SUGGESTION_LIMIT
+  );
+
+  if (!query) {
+    return NextResponse.json({ suggestions: [] });
+  }
+
+  const [history, hot] = await Promise.all([
+    getUserHistory(request),
+    getDoubanHotCandidates().catch(() => [] as SuggestionCandidate[]),
+  ]);
+  const suggestions = rankSuggestions(
+    query,
+    [...historyCandidates(history), ...hot, ...recentCandidates()],
+    limit
+  );
+
+  return NextResponse.json(
+    { suggestions },
+    {
+      headers: {
+        // 含用户搜索历史，不允许共享缓存
+        'Cache-Control': 'private, max-age=30',
+      },
+    }
+  );
+}
@@ -0,0 +1,58 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { migrateToReplacement } from '@/lib/source.availability';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/source/availability
+ * 返回当前用户收藏与播放记录的源可用性（key 为 source+id，只包含检测失败过的条目）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authInfo = getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const availability = await db.getAllSourceAvailability(authInfo.username);
+    return NextResponse.json(
+      { availability },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    console.error('获取源可用性失败:', error);
+    return NextResponse.json({ error: '获取源可用性失败' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/source/availability
+ * body: { key: string }，把失效条目的收藏与播放记录迁移到检测到的替代源
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authInfo = getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { key } = await request.json();
+    if (typeof key !== 'string' || !key.includes('+')) {
+      return NextResponse.json({ error: '缺少必要参数: key' }, { status: 400 });
+    }
+
+    const newKey = await migrateToReplacement(authInfo.username, key);
+    if (!newKey) {
+      return NextResponse.json({ error: '没有可用的替代源' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, key: newKey });
+  } catch (error) {
+    console.error('迁移到替代源失败:', error);
+    return NextResponse.json({ error: '迁移到替代源失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+
+import { getCacheTime, getConfig } from '@/lib/config';
+import { getCategoriesFromApi } from '@/lib/downstream';
+import { isSourceUnavailableError } from '@/lib/source.health';
+import { yellowWords } from '@/lib/yellow';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/source/categories?source=<key>
+ * 返回源的原生分类 { categories: { type_id, type_name, type_pid? }[] }
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sourceKey = searchParams.get('source');
+  if (!sourceKey) {
+    return NextResponse.json(
+      { error: '缺少必要参数: source' },
+      { status: 400 }
+    );
+  }
+
+  const config = await getConfig();
+  const site = config.SourceConfig.find(
+    (item) => item.key === sourceKey && !item.disabled
+  );
+  if (!site) {
+    return NextResponse.json(
+      { error: `未找到指定的视频源: ${sourceKey}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    let categories = await getCategoriesFromApi(site);
+    if (!config.SiteConfig.DisableYellowFilter) {
+      categories = categories.filter(
+        (category) =>
+          !yellowWords.some((word: string) => category.type_name.includes(word))
+      );
+    }
+    const cacheTime = await getCacheTime();
+
+    return NextResponse.json(
+      { categories },
+      {
+        headers: {
+          'Cache-Control': `public, max-age=${cacheTime}, s-maxage=${cacheTime}`,
+          'CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+          'Vercel-CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+        },
+      }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: '获取分类失败', details: (error as Error).message },
+      { status: isSourceUnavailableError(error) ? 503 : 500 }
+    );
+  }
+}
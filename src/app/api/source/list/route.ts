@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+
+import { getCacheTime, getConfig } from '@/lib/config';
+import { getListFromApi } from '@/lib/downstream';
+import { isSourceUnavailableError } from '@/lib/source.health';
+import { yellowWords } from '@/lib/yellow';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/source/list?source=<key>&t=<type_id>&pg=<page>
+ * 分页浏览源的某个分类，未传 t 时为全部分类
+ * 返回 { list: SearchResult[], page, pageCount, total }
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sourceKey = searchParams.get('source');
+  if (!sourceKey) {
+    return NextResponse.json(
+      { error: '缺少必要参数: source' },
+      { status: 400 }
+    );
+  }
+
+  const config = await getConfig();
+  const site = config.SourceConfig.find(
+    (item) => item.key === sourceKey && !item.disabled
+  );
+  if (!site) {
+    return NextResponse.json(
+      { error: `未找到指定的视频源: ${sourceKey}` },
+      { status: 404 }
+    );
+  }
+
+  const page = Math.max(parseInt(searchParams.get('pg') || '1', 10) || 1, 1);
+  const typeId = searchParams.get('t') || undefined;
+
+  try {
+    const result = await getListFromApi(site, { page, typeId });
+    const list = config.SiteConfig.DisableYellowFilter
+      ? result.list
+      : result.list.filter(
+          (item) =>
+            !yellowWords.some((word: string) =>
+              (item.type_name || '').includes(word)
+            )
+        );
+    const cacheTime = await getCacheTime();
+
+    return NextResponse.json(
+      { ...result, list },
+      {
+        headers: {
+          'Cache-Control': `public, max-age=${cacheTime}, s-maxage=${cacheTime}`,
+          'CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+          'Vercel-CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+        },
+      }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: '获取列表失败', details: (error as Error).message },
+      { status: isSourceUnavailableError(error) ? 503 : 500 }
+    );
+  }
+}
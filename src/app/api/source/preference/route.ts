@@ -0,0 +1,93 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import {
+  getSourcePreferenceRanking,
+  isSourcePreferenceEvent,
+  recordSourceEvent,
+} from '@/lib/source.preference';
+
+export const runtime = 'edge';
+
+// 偏好依赖服务端存储，localstorage 模式下不记录
+function hasServerStorage(): boolean {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  return storageType !== 'localstorage';
+}
+
+/**
+ * GET /api/source/preference?title=&year=
+ * 返回该作品各源的历史偏好排序 { ranking: { source, score }[] }，个人偏好权重高于全体汇总
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const title = searchParams.get('title');
+  if (!title) {
+    return NextResponse.json({ error: '缺少必要参数: title' }, { status: 400 });
+  }
+  if (!hasServerStorage()) {
+    return NextResponse.json({ ranking: [] });
+  }
+
+  try {
+    const authInfo = getAuthInfoFromCookie(request);
+    const ranking = await getSourcePreferenceRanking(
+      authInfo?.username || null,
+      title,
+      searchParams.get('year') || ''
+    );
+    return NextResponse.json(
+      { ranking },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    console.error('获取播放源偏好失败:', error);
+    return NextResponse.json({ error: '获取播放源偏好失败' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/source/preference
+ * body: { title, year, source, event: 'pick' | 'switch' | 'leave' | 'fail' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 只接受登录用户上报，避免匿名请求刷高全体汇总
+    const authInfo = getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { title, year, source, event } = body;
+    if (!title || !source || !isSourcePreferenceEvent(event)) {
+      return NextResponse.json({ error: '缺少必要参数' }, { status: 400 });
+    }
+    if (!hasServerStorage()) {
+      return NextResponse.json({ success: true });
+    }
+
+    const config = await getConfig();
+    if (!config.SourceConfig.some((site) => site.key === source)) {
+      return NextResponse.json(
+        { error: `未找到指定的视频源: ${source}` },
+        { status: 404 }
+      );
+    }
+
+    await recordSourceEvent(
+      authInfo.username,
+      String(title),
+      year ? String(year) : '',
+      source,
+      event
+    );
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('记录播放源偏好失败:', error);
+    return NextResponse.json({ error: '记录播放源偏好失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+
+import { getCacheTime, getConfig } from '@/lib/config';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/source
+ * 返回可浏览的源列表 { sources: { key, name }[] }
+ */
+export async function GET() {
+  const config = await getConfig();
+  const sources = config.SourceConfig.filter((site) => !site.disabled).map(
+    (site) => ({ key: site.key, name: site.name })
+  );
+  const cacheTime = await getCacheTime();
+
+  return NextResponse.json(
+    { sources },
+    {
+      headers: {
+        'Cache-Control': `public, max-age=${cacheTime}, s-maxage=${cacheTime}`,
+        'CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+        'Vercel-CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+      },
+    }
+  );
+}
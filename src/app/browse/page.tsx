@@ -0,0 +1,284 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react';
+
+import { countRegularEpisodes } from '@/lib/episodes';
+import { getWorkType } from '@/lib/search.grouping';
+import type { SourceCategory } from '@/lib/source.adapter';
+import { SearchResult } from '@/lib/types';
+
+import DoubanCardSkeleton from '@/components/DoubanCardSkeleton';
+import PageLayout from '@/components/PageLayout';
+import VideoCard from '@/components/VideoCard';
+
+interface BrowseSource {
+  key: string;
+  name: string;
+}
+
+interface BrowseOption {
+  value: string;
+  label: string;
+}
+
+// 顶级分类的 type_pid 为空或 0
+function isTopCategory(category: SourceCategory) {
+  return !category.type_pid || category.type_pid === '0';
+}
+
+function OptionRow({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: BrowseOption[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className='flex flex-col sm:flex-row sm:items-start gap-2'>
+      <span className='text-xs sm:text-sm font-medium text-gray-600 dark:text-gray-400 min-w-[48px] sm:pt-1.5'>
+        {label}
+      </span>
+      <div className='flex flex-wrap gap-2'>
+        {options.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => onChange(option.value)}
+            className={`px-3 py-1 sm:px-4 sm:py-1.5 text-xs sm:text-sm rounded-full transition-colors duration-200 whitespace-nowrap ${
+              option.value === value
+                ? 'bg-green-500 text-white'
+                : 'bg-gray-200/60 text-gray-700 hover:bg-gray-300/60 dark:bg-gray-700/60 dark:text-gray-300 dark:hover:bg-gray-600/60'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 按源的原生分类浏览：选择源 → 一级分类 → 二级分类，分页加载该分类下的内容
+ * 选择结果同步到地址栏（?source=&t=），便于返回与分享
+ */
+function BrowsePageClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const sourceKey = searchParams.get('source') || '';
+  const typeId = searchParams.get('t') || '';
+
+  const [sources, setSources] = useState<BrowseSource[]>([]);
+  const [categories, setCategories] = useState<SourceCategory[]>([]);
+  const [categoryError, setCategoryError] = useState('');
+  const [items, setItems] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const pageRef = useRef(0);
+  const requestRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const navigate = (source: string, t = '') => {
+    const params = new URLSearchParams({ source });
+    if (t) params.set('t', t);
+    router.replace(`/browse?${params.toString()}`);
+  };
+
+  // 加载源列表，未指定源时默认选中第一个
+  useEffect(() => {
+    fetch('/api/source')
+      .then((res) => res.json())
+      .then((data) => {
+        const list: BrowseSource[] = data.sources || [];
+        setSources(list);
+        if (!sourceKey && list.length > 0) {
+          navigate(list[0].key);
+        }
+      })
+      .catch((err) => console.error('获取源列表失败:', err));
+  }, []);
+
+  // 切换源时加载分类
+  useEffect(() => {
+    if (!sourceKey) return;
+    setCategories([]);
+    setCategoryError('');
+    fetch(`/api/source/categories?source=${encodeURIComponent(sourceKey)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || '获取分类失败');
+        setCategories(data.categories || []);
+      })
+      .catch((err) => setCategoryError((err as Error).message));
+  }, [sourceKey]);
+
+  const loadPage = async (page: number) => {
+    const requestId = ++requestRef.current;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        source: sourceKey,
+        pg: String(page),
+      });
+      if (typeId) params.set('t', typeId);
+      const res = await fetch(`/api/source/list?${params.toString()}`);
+      const data = await res.json();
+      if (requestId !== requestRef.current) return;
+      if (!res.ok) throw new Error(data.error || '获取列表失败');
+
+      const list: SearchResult[] = data.list || [];
+      pageRef.current = page;
+      setItems((prev) => (page === 1 ? list : [...prev, ...list]));
+      setHasMore(page < (data.pageCount || 1) && list.length > 0);
+    } catch (err) {
+      console.error('获取分类内容失败:', err);
+      if (requestId === requestRef.current) setHasMore(false);
+    } finally {
+      if (requestId === requestRef.current) setLoading(false);
+    }
+  };
+
+  // 源或分类变化时重新加载第一页
+  useEffect(() => {
+    if (!sourceKey) return;
+    setItems([]);
+    setHasMore(false);
+    pageRef.current = 0;
+    loadPage(1);
+  }, [sourceKey, typeId]);
+
+  // 滚动到底部时加载下一页
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !loading) {
+        loadPage(pageRef.current + 1);
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, sourceKey, typeId]);
+
+  const topCategories = useMemo(
+    () => categories.filter(isTopCategory),
+    [categories]
+  );
+  const current = categories.find((c) => c.type_id === typeId);
+  // 当前选中的一级分类（选中二级分类时取其父级）
+  const parentId =
+    current && !isTopCategory(current) ? current.type_pid || '' : typeId;
+  const childCategories = useMemo(
+    () => categories.filter((c) => parentId && c.type_pid === parentId),
+    [categories, parentId]
+  );
+
+  return (
+    <PageLayout activePath='/browse'>
+      <div className='px-4 sm:px-10 py-4 sm:py-8 overflow-visible'>
+        <div className='mb-6 sm:mb-8 space-y-4 sm:space-y-6'>
+          <div>
+            <h1 className='text-2xl sm:text-3xl font-bold text-gray-800 mb-1 sm:mb-2 dark:text-gray-200'>
+              片库
+            </h1>
+            <p className='text-sm sm:text-base text-gray-600 dark:text-gray-400'>
+              按视频源自带的分类浏览
+            </p>
+          </div>
+
+          <div className='bg-white/60 dark:bg-gray-800/40 rounded-2xl p-4 sm:p-6 border border-gray-200/30 dark:border-gray-700/30 backdrop-blur-sm space-y-3 sm:space-y-4'>
+            <OptionRow
+              label='来源'
+              options={sources.map((s) => ({ value: s.key, label: s.name }))}
+              value={sourceKey}
+              onChange={(key) => navigate(key)}
+            />
+            {topCategories.length > 0 && (
+              <OptionRow
+                label='分类'
+                options={[
+                  { value: '', label: '全部' },
+                  ...topCategories.map((c) => ({
+                    value: c.type_id,
+                    label: c.type_name,
+                  })),
+                ]}
+                value={parentId}
+                onChange={(t) => navigate(sourceKey, t)}
+              />
+            )}
+            {childCategories.length > 0 && (
+              <OptionRow
+                label='子类'
+                options={[
+                  { value: parentId, label: '全部' },
+                  ...childCategories.map((c) => ({
+                    value: c.type_id,
+                    label: c.type_name,
+                  })),
+                ]}
+                value={typeId}
+                onChange={(t) => navigate(sourceKey, t)}
+              />
+            )}
+            {categoryError && (
+              <p className='text-xs text-red-500'>{categoryError}</p>
+            )}
+          </div>
+        </div>
+
+        <div className='max-w-[95%] mx-auto mt-8 overflow-visible'>
+          <div className='justify-start grid grid-cols-3 gap-x-2 gap-y-12 px-0 sm:px-2 sm:grid-cols-[repeat(auto-fill,_minmax(11rem,_1fr))] sm:gap-x-8 sm:gap-y-20'>
+            {items.length === 0 && loading
+              ? Array.from({ length: 12 }).map((_, index) => (
+                  <DoubanCardSkeleton key={index} />
+                ))
+              : items.map((item) => (
+                  <div key={`${item.source}-${item.id}`} className='w-full'>
+                    <VideoCard
+                      id={item.id}
+                      title={item.title}
+                      poster={item.poster}
+                      episodes={countRegularEpisodes(item)}
+                      source={item.source}
+                      source_name={item.source_name}
+                      douban_id={item.douban_id?.toString()}
+                      year={item.year}
+                      from='search'
+                      type={getWorkType(item)}
+                    />
+                  </div>
+                ))}
+            {items.length === 0 && !loading && sourceKey && (
+              <div className='col-span-full text-center text-gray-500 py-8 dark:text-gray-400'>
+                暂无内容
+              </div>
+            )}
+          </div>
+          <div
+            ref={loadMoreRef}
+            className='flex justify-center items-center h-16 mt-8'
+          >
+            {loading && items.length > 0 && (
+              <div className='animate-spin rounded-full h-6 w-6 border-b-2 border-green-500'></div>
+            )}
+          </div>
+        </div>
+      </div>
+    </PageLayout>
+  );
+}
+
+export default function BrowsePage() {
+  return (
+    <Suspense>
+      <BrowsePageClient />
+    </Suspense>
+  );
+}
@@ -11,16 +11,19 @@ import {
   clearAllFavorites,
   getAllFavorites,
   getAllPlayRecords,
+  getSourceAvailability,
   subscribeToDataUpdates,
 } from '@/lib/db.client';
 import { getDoubanCategories } from '@/lib/douban.client';
-import { DoubanItem } from '@/lib/types';
+import { DoubanItem, SourceAvailability } from '@/lib/types';
 
 import CapsuleSwitch from '@/components/CapsuleSwitch';
 import ContinueWatching from '@/components/ContinueWatching';
+import LatestUpdates from '@/components/LatestUpdates';
 import PageLayout from '@/components/PageLayout';
 import ScrollableRow from '@/components/ScrollableRow';
 import { useSite } from '@/components/SiteProvider';
+import SourceReplacementNotice from '@/components/SourceReplacementNotice';
 import VideoCard from '@/components/VideoCard';
 
 function HomeClient() {
@@ -59,6 +62,10 @@ function HomeClient() {
   };
 
   const [favoriteItems, setFavoriteItems] = useState<FavoriteItem[]>([]);
+  // 收藏的源可用性，key 为 source+id
+  const [availability, setAvailability] = useState<
+    Record<string, SourceAvailability>
+  >({});
 
   useEffect(() => {
     const fetchDoubanData = async () => {
@@ -135,6 +142,7 @@ function HomeClient() {
         } as FavoriteItem;
       });
     setFavoriteItems(sorted);
+    setAvailability(await getSourceAvailability());
   };
 
   // 当切换到收藏夹时加载收藏数据
@@ -208,6 +216,10 @@ function HomeClient() {
                       from='favorite'
                       type={item.episodes > 1 ? 'tv' : ''}
                     />
+                    <SourceReplacementNotice
+                      storageKey={`${item.source}+${item.id}`}
+                      availability={availability[`${item.source}+${item.id}`]}
+                    />
                   </div>
                 ))}
                 {favoriteItems.length === 0 && (
@@ -223,6 +235,9 @@ function HomeClient() {
               {/* 继续观看 */}
               <ContinueWatching />
 
+              {/* 最近更新 */}
+              <LatestUpdates />
+
               {/* 热门电影 */}
               <section className='mb-8'>
                 <div className='mb-4 flex items-center justify-between'>
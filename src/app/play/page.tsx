@@ -15,14 +15,19 @@ import {
   generateStorageKey,
   getAllPlayRecords,
   getSkipConfig,
+  getSourcePreferenceRanking,
   isFavorited,
+  reportSourceEvent,
   saveFavorite,
   savePlayRecord,
   saveSkipConfig,
+  SourcePreferenceEvent,
   subscribeToDataUpdates,
 } from '@/lib/db.client';
+import { isSameWork } from '@/lib/search.grouping';
+import type { RankedProbe } from '@/lib/stream.probe';
 import { SearchResult } from '@/lib/types';
-import { getVideoResolutionFromM3u8, processImageUrl } from '@/lib/utils';
+import { processImageUrl } from '@/lib/utils';
 
 import EpisodeSelector from '@/components/EpisodeSelector';
 import PageLayout from '@/components/PageLayout';
@@ -34,6 +39,11 @@ declare global {
   }
 }
 
+// 历史偏好得分达到该值时直接使用，不再测速
+const PREFERRED_SOURCE_MIN_SCORE = 2;
+// 实际播放超过该秒数才记为一次优选，自动选中但播放不起来的源不加分
+const PICK_MIN_PLAY_SECONDS = 30;
+
 function PlayPageClient() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -112,6 +122,17 @@ function PlayPageClient() {
   }, [needPrefer]);
   // 集数相关
   const [currentEpisodeIndex, setCurrentEpisodeIndex] = useState(0);
+  // 当前播放线路（同一源内），以及本源已播放失败的线路
+  const [currentLineIndex, setCurrentLineIndex] = useState(0);
+  const currentLineIndexRef = useRef(currentLineIndex);
+  const failedLinesRef = useRef<Set<number>>(new Set());
+  // 记录播放源偏好所用的作品标题与年份，初始化时确定，之后的事件都记在同一部作品下
+  const sourcePreferenceRef = useRef<{ title: string; year: string } | null>(
+    null
+  );
+  // 本次访问中已记过优选的源，每个源只记一次；以及当前源开始播放时的进度
+  const pickedSourcesRef = useRef<Set<string>>(new Set());
+  const pickStartRef = useRef<{ source: string; time: number } | null>(null);
 
   const currentSourceRef = useRef(currentSource);
   const currentIdRef = useRef(currentId);
@@ -126,6 +147,7 @@ function PlayPageClient() {
     currentIdRef.current = currentId;
     detailRef.current = detail;
     currentEpisodeIndexRef.current = currentEpisodeIndex;
+    currentLineIndexRef.current = currentLineIndex;
     videoTitleRef.current = videoTitle;
     videoYearRef.current = videoYear;
   }, [
@@ -133,6 +155,7 @@ function PlayPageClient() {
     currentId,
     detail,
     currentEpisodeIndex,
+    currentLineIndex,
     videoTitle,
     videoYear,
   ]);
@@ -198,49 +221,60 @@ function PlayPageClient() {
   // 工具函数（Utils）
   // -----------------------------------------------------------------------------
 
-  // 播放源优选函数
+  // 播放源优选函数：由服务端 /api/probe 测速并排序，客户端只加载胜出的源
   const preferBestSource = async (
     sources: SearchResult[]
   ): Promise<SearchResult> => {
     if (sources.length === 1) return sources[0];
 
-    // 将播放源均分为两批，并发测速各批，避免一次性过多请求
-    const batchSize = Math.ceil(sources.length / 2);
-    const allResults: Array<{
-      source: SearchResult;
-      testResult: { quality: string; loadSpeed: string; pingTime: number };
-    } | null> = [];
-
-    for (let start = 0; start < sources.length; start += batchSize) {
-      const batchSources = sources.slice(start, start + batchSize);
-      const batchResults = await Promise.all(
-        batchSources.map(async (source) => {
-          try {
-            // 检查是否有第一集的播放地址
-            if (!source.episodes || source.episodes.length === 0) {
-              console.warn(`播放源 ${source.source_name} 没有可用的播放地址`);
-              return null;
-            }
+    // 历史上表现最好的源（个人偏好优先，其次是全体用户的汇总）直接使用，省去测速
+    const preference = sourcePreferenceRef.current;
+    if (preference) {
+      const ranking = await getSourcePreferenceRanking(
+        preference.title,
+        preference.year
+      );
+      const preferred = ranking.find(
+        (item) =>
+          item.score >= PREFERRED_SOURCE_MIN_SCORE &&
+          sources.some((source) => source.source === item.source)
+      );
+      const target = preferred
+        ? sources.find(
+            (source) =>
+              source.source === preferred.source && source.episodes.length > 0
+          )
+        : undefined;
+      if (target) {
+        console.log(
+          `使用历史偏好播放源: ${target.source_name} (得分 ${preferred?.score})`
+        );
+        return target;
+      }
+    }
 
-            const episodeUrl =
-              source.episodes.length > 1
-                ? source.episodes[1]
-                : source.episodes[0];
-            const testResult = await getVideoResolutionFromM3u8(episodeUrl);
+    // 测速地址由服务端根据 source + id 选取
+    const candidates = sources
+      .filter((source) => source.episodes && source.episodes.length > 0)
+      .map((source) => ({ source: source.source, id: source.id }));
+    if (candidates.length === 0) return sources[0];
 
-            return {
-              source,
-              testResult,
-            };
-          } catch (error) {
-            return null;
-          }
-        })
-      );
-      allResults.push(...batchResults);
+    let ranked: RankedProbe[] = [];
+    try {
+      const response = await fetch('/api/probe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ candidates }),
+      });
+      if (!response.ok) {
+        throw new Error(`测速请求失败: ${response.status}`);
+      }
+      ranked = (await response.json()).results || [];
+    } catch (error) {
+      console.warn('播放源测速失败，使用第一个播放源:', error);
+      return sources[0];
     }
 
-    // 等待所有测速完成，包含成功和失败的结果
     // 保存所有测速结果到 precomputedVideoInfo，供 EpisodeSelector 使用（包含错误结果）
     const newVideoInfoMap = new Map<
       string,
@@ -251,150 +285,40 @@ function PlayPageClient() {
         hasError?: boolean;
       }
     >();
-    allResults.forEach((result, index) => {
-      const source = sources[index];
-      const sourceKey = `${source.source}-${source.id}`;
-
-      if (result) {
-        // 成功的结果
-        newVideoInfoMap.set(sourceKey, result.testResult);
-      }
+    ranked.forEach((result) => {
+      newVideoInfoMap.set(`${result.source}-${result.id}`, {
+        quality: result.quality,
+        loadSpeed:
+          result.speedKBps <= 0
+            ? '未知'
+            : result.speedKBps >= 1024
+            ? `${(result.speedKBps / 1024).toFixed(1)} MB/s`
+            : `${result.speedKBps.toFixed(1)} KB/s`,
+        pingTime: result.ttfb,
+        hasError: !result.ok,
+      });
     });
-
-    // 过滤出成功的结果用于优选计算
-    const successfulResults = allResults.filter(Boolean) as Array<{
-      source: SearchResult;
-      testResult: { quality: string; loadSpeed: string; pingTime: number };
-    }>;
-
     setPrecomputedVideoInfo(newVideoInfoMap);
 
-    if (successfulResults.length === 0) {
-      console.warn('所有播放源测速都失败，使用第一个播放源');
-      return sources[0];
-    }
-
-    // 找出所有有效速度的最大值，用于线性映射
-    const validSpeeds = successfulResults
-      .map((result) => {
-        const speedStr = result.testResult.loadSpeed;
-        if (speedStr === '未知' || speedStr === '测量中...') return 0;
-
-        const match = speedStr.match(/^([\d.]+)\s*(KB\/s|MB\/s)$/);
-        if (!match) return 0;
-
-        const value = parseFloat(match[1]);
-        const unit = match[2];
-        return unit === 'MB/s' ? value * 1024 : value; // 统一转换为 KB/s
-      })
-      .filter((speed) => speed > 0);
-
-    const maxSpeed = validSpeeds.length > 0 ? Math.max(...validSpeeds) : 1024; // 默认1MB/s作为基准
-
-    // 找出所有有效延迟的最小值和最大值，用于线性映射
-    const validPings = successfulResults
-      .map((result) => result.testResult.pingTime)
-      .filter((ping) => ping > 0);
-
-    const minPing = validPings.length > 0 ? Math.min(...validPings) : 50;
-    const maxPing = validPings.length > 0 ? Math.max(...validPings) : 1000;
-
-    // 计算每个结果的评分
-    const resultsWithScore = successfulResults.map((result) => ({
-      ...result,
-      score: calculateSourceScore(
-        result.testResult,
-        maxSpeed,
-        minPing,
-        maxPing
-      ),
-    }));
-
-    // 按综合评分排序，选择最佳播放源
-    resultsWithScore.sort((a, b) => b.score - a.score);
-
     console.log('播放源评分排序结果:');
-    resultsWithScore.forEach((result, index) => {
+    ranked.forEach((result, index) => {
       console.log(
-        `${index + 1}. ${
-          result.source.source_name
-        } - 评分: ${result.score.toFixed(2)} (${result.testResult.quality}, ${
-          result.testResult.loadSpeed
-        }, ${result.testResult.pingTime}ms)`
+        `${index + 1}. ${result.source} - 评分: ${result.score.toFixed(2)} (${
+          result.quality
+        }, ${result.speedKBps} KB/s, ${result.ttfb}ms)`
       );
     });
 
-    return resultsWithScore[0].source;
-  };
-
-  // 计算播放源综合评分
-  const calculateSourceScore = (
-    testResult: {
-      quality: string;
-      loadSpeed: string;
-      pingTime: number;
-    },
-    maxSpeed: number,
-    minPing: number,
-    maxPing: number
-  ): number => {
-    let score = 0;
-
-    // 分辨率评分 (40% 权重)
-    const qualityScore = (() => {
-      switch (testResult.quality) {
-        case '4K':
-          return 100;
-        case '2K':
-          return 85;
-        case '1080p':
-          return 75;
-        case '720p':
-          return 60;
-        case '480p':
-          return 40;
-        case 'SD':
-          return 20;
-        default:
-          return 0;
-      }
-    })();
-    score += qualityScore * 0.4;
-
-    // 下载速度评分 (40% 权重) - 基于最大速度线性映射
-    const speedScore = (() => {
-      const speedStr = testResult.loadSpeed;
-      if (speedStr === '未知' || speedStr === '测量中...') return 30;
-
-      // 解析速度值
-      const match = speedStr.match(/^([\d.]+)\s*(KB\/s|MB\/s)$/);
-      if (!match) return 30;
-
-      const value = parseFloat(match[1]);
-      const unit = match[2];
-      const speedKBps = unit === 'MB/s' ? value * 1024 : value;
-
-      // 基于最大速度线性映射，最高100分
-      const speedRatio = speedKBps / maxSpeed;
-      return Math.min(100, Math.max(0, speedRatio * 100));
-    })();
-    score += speedScore * 0.4;
-
-    // 网络延迟评分 (20% 权重) - 基于延迟范围线性映射
-    const pingScore = (() => {
-      const ping = testResult.pingTime;
-      if (ping <= 0) return 0; // 无效延迟给默认分
-
-      // 如果所有延迟都相同，给满分
-      if (maxPing === minPing) return 100;
-
-      // 线性映射：最低延迟=100分，最高延迟=0分
-      const pingRatio = (maxPing - ping) / (maxPing - minPing);
-      return Math.min(100, Math.max(0, pingRatio * 100));
-    })();
-    score += pingScore * 0.2;
-
-    return Math.round(score * 100) / 100; // 保留两位小数
+    const best = ranked.find((result) => result.ok);
+    if (!best) {
+      console.warn('所有播放源测速都失败，使用第一个播放源');
+      return sources[0];
+    }
+    return (
+      sources.find(
+        (source) => source.source === best.source && source.id === best.id
+      ) || sources[0]
+    );
   };
 
   // 更新视频地址
@@ -416,6 +340,76 @@ function PlayPageClient() {
     }
   };
 
+  // 换源后定位默认线路（episodes 即默认线路的剧集），并清空失败记录
+  const resetPlayLine = (detailData: SearchResult) => {
+    const lines = detailData.play_lines || [];
+    const index = lines.findIndex(
+      (line) =>
+        line.episodes.length === detailData.episodes.length &&
+        line.episodes[0]?.url === detailData.episodes[0]
+    );
+    failedLinesRef.current = new Set();
+    setCurrentLineIndex(Math.max(index, 0));
+  };
+
+  // 切换同一源内的播放线路，尽量保持当前集数与播放进度
+  const switchPlayLine = (lineIndex: number) => {
+    const d = detailRef.current;
+    const line = d?.play_lines?.[lineIndex];
+    if (!d || !line || line.episodes.length === 0) return;
+
+    const currentPlayTime = artPlayerRef.current?.currentTime || 0;
+    let targetIndex = currentEpisodeIndexRef.current;
+    if (targetIndex >= line.episodes.length) {
+      targetIndex = 0;
+      resumeTimeRef.current = 0;
+    } else if (currentPlayTime > 1) {
+      resumeTimeRef.current = currentPlayTime;
+    }
+
+    setCurrentLineIndex(lineIndex);
+    setDetail({
+      ...d,
+      episodes: line.episodes.map((ep) => ep.url),
+      episode_list: line.episodes,
+    });
+    setCurrentEpisodeIndex(targetIndex);
+  };
+
+  // 上报当前播放源的偏好事件
+  const reportCurrentSourceEvent = (event: SourcePreferenceEvent) => {
+    const preference = sourcePreferenceRef.current;
+    if (!preference || !currentSourceRef.current) return;
+    reportSourceEvent(
+      preference.title,
+      preference.year,
+      currentSourceRef.current,
+      event
+    );
+  };
+
+  // 当前线路播放失败时，自动切换到同一源中尚未失败的其他线路
+  const fallbackToNextPlayLine = (): boolean => {
+    const lines = detailRef.current?.play_lines || [];
+    failedLinesRef.current.add(currentLineIndexRef.current);
+    const next = lines.findIndex(
+      (line, idx) =>
+        !failedLinesRef.current.has(idx) &&
+        line.episodes.length > currentEpisodeIndexRef.current
+    );
+    if (next === -1) {
+      // 本源所有线路都无法播放
+      reportCurrentSourceEvent('fail');
+      return false;
+    }
+
+    if (artPlayerRef.current) {
+      artPlayerRef.current.notice.show = `当前线路无法播放，已切换到 ${lines[next].name}`;
+    }
+    switchPlayLine(next);
+    return true;
+  };
+
   const ensureVideoSource = (video: HTMLVideoElement | null, url: string) => {
     if (!video || !url) return;
     const sources = Array.from(video.getElementsByTagName('source'));
@@ -627,18 +621,14 @@ function PlayPageClient() {
         }
         const data = await response.json();
 
-        // 处理搜索结果，根据规则过滤
-        const results = data.results.filter(
-          (result: SearchResult) =>
-            result.title.replaceAll(' ', '').toLowerCase() ===
-              videoTitleRef.current.replaceAll(' ', '').toLowerCase() &&
-            (videoYearRef.current
-              ? result.year.toLowerCase() === videoYearRef.current.toLowerCase()
-              : true) &&
-            (searchType
-              ? (searchType === 'tv' && result.episodes.length > 1) ||
-                (searchType === 'movie' && result.episodes.length === 1)
-              : true)
+        // 处理搜索结果，与搜索页聚合使用同一套同作品判定规则
+        const results = data.results.filter((result: SearchResult) =>
+          isSameWork(result, {
+            title: videoTitleRef.current,
+            year: videoYearRef.current,
+            type:
+              searchType === 'tv' || searchType === 'movie' ? searchType : '',
+          })
         );
         setAvailableSources(results);
         return results;
@@ -681,6 +671,11 @@ function PlayPageClient() {
         return;
       }
 
+      sourcePreferenceRef.current = {
+        title: searchTitle || videoTitle || sourcesInfo[0].title,
+        year: videoYear || sourcesInfo[0].year || '',
+      };
+
       let detailData: SearchResult = sourcesInfo[0];
       // 指定源和id且无需优选
       if (currentSource && currentId && !needPreferRef.current) {
@@ -716,6 +711,7 @@ function PlayPageClient() {
       setVideoTitle(detailData.title || videoTitleRef.current);
       setVideoCover(detailData.poster);
       setDetail(detailData);
+      resetPlayLine(detailData);
       if (currentEpisodeIndex >= detailData.episodes.length) {
         setCurrentEpisodeIndex(0);
       }
@@ -840,6 +836,18 @@ function PlayPageClient() {
         return;
       }
 
+      // 记录用户手动换源：离开的源扣分，切换到的源加分
+      const preference = sourcePreferenceRef.current;
+      if (preference && newSource !== currentSourceRef.current) {
+        reportCurrentSourceEvent('leave');
+        reportSourceEvent(
+          preference.title,
+          preference.year,
+          newSource,
+          'switch'
+        );
+      }
+
       // 尝试跳转到当前正在播放的集数
       let targetIndex = currentEpisodeIndex;
 
@@ -871,6 +879,7 @@ function PlayPageClient() {
       setCurrentSource(newSource);
       setCurrentId(newId);
       setDetail(newDetail);
+      resetPlayLine(newDetail);
       setCurrentEpisodeIndex(targetIndex);
     } catch (err) {
       // 隐藏换源加载状态
@@ -1043,6 +1052,7 @@ function PlayPageClient() {
         year: detailRef.current?.year,
         cover: detailRef.current?.poster || '',
         index: currentEpisodeIndexRef.current + 1, // 转换为1基索引
+        // 与 index 同为完整剧集列表（含预告、花絮）的计数
         total_episodes: detailRef.current?.episodes.length || 1,
         play_time: Math.floor(currentTime),
         total_time: Math.floor(duration),
@@ -1297,7 +1307,16 @@ function PlayPageClient() {
               if (data.fatal) {
                 switch (data.type) {
                   case Hls.ErrorTypes.NETWORK_ERROR:
-                    console.log('网络错误，尝试恢复...');
+                    // 播放列表都无法加载时直接换线路，避免无限重试
+                    if (
+                      (data.details === Hls.ErrorDetails.MANIFEST_LOAD_ERROR ||
+                        data.details ===
+                          Hls.ErrorDetails.MANIFEST_LOAD_TIMEOUT) &&
+                      fallbackToNextPlayLine()
+                    ) {
+                      hls.destroy();
+                      break;
+                    }
                     hls.startLoad();
                     break;
                   case Hls.ErrorTypes.MEDIA_ERROR:
@@ -1305,8 +1324,8 @@ function PlayPageClient() {
                     hls.recoverMediaError();
                     break;
                   default:
-                    console.log('无法恢复的错误');
                     hls.destroy();
+                    fallbackToNextPlayLine();
                     break;
                 }
               }
@@ -1527,6 +1546,7 @@ function PlayPageClient() {
         if (artPlayerRef.current.currentTime > 0) {
           return;
         }
+        fallbackToNextPlayLine();
       });
 
       // 监听视频播放结束事件，自动播放下一集
@@ -1553,6 +1573,25 @@ function PlayPageClient() {
           saveCurrentPlayProgress();
           lastSaveTimeRef.current = now;
         }
+
+        // 当前源确实播放起来后记一次优选（从续播位置起算）
+        const source = currentSourceRef.current;
+        if (!source || pickedSourcesRef.current.has(source)) return;
+        const playedTo = artPlayerRef.current.currentTime || 0;
+        if (pickStartRef.current?.source !== source) {
+          pickStartRef.current = { source, time: playedTo };
+        } else if (
+          playedTo - pickStartRef.current.time >=
+          PICK_MIN_PLAY_SECONDS
+        ) {
+          pickedSourcesRef.current.add(source);
+          reportCurrentSourceEvent('pick');
+        }
+      });
+
+      // 拖动进度后重新计算优选所需的播放时长
+      artPlayerRef.current.on('video:seeked', () => {
+        pickStartRef.current = null;
       });
 
       artPlayerRef.current.on('pause', () => {
@@ -1876,6 +1915,10 @@ function PlayPageClient() {
                 sourceSearchLoading={sourceSearchLoading}
                 sourceSearchError={sourceSearchError}
                 precomputedVideoInfo={precomputedVideoInfo}
+                episodes={detail?.episode_list}
+                playLines={detail?.play_lines}
+                currentLine={currentLineIndex}
+                onLineChange={switchPlayLine}
               />
             </div>
           </div>
@@ -1,9 +1,9 @@
 /* eslint-disable react-hooks/exhaustive-deps, @typescript-eslint/no-explicit-any */
 'use client';
 
-import { ChevronUp, Search, X } from 'lucide-react';
+import { ChevronUp, Clock, Search, TrendingUp, X } from 'lucide-react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Suspense, useEffect, useMemo, useState } from 'react';
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react';
 
 import {
   addSearchHistory,
@@ -12,12 +12,38 @@ import {
   getSearchHistory,
   subscribeToDataUpdates,
 } from '@/lib/db.client';
+import { countRegularEpisodes } from '@/lib/episodes';
+import { SearchSort } from '@/lib/search.filter';
+import {
+  getWorkType,
+  groupSearchResults,
+  normalizeTitle,
+} from '@/lib/search.grouping';
+import type { SearchSuggestion } from '@/lib/search.suggest';
 import { SearchResult } from '@/lib/types';
 import { yellowWords } from '@/lib/yellow';
 
 import PageLayout from '@/components/PageLayout';
 import VideoCard from '@/components/VideoCard';
 
+// 平铺视图每页条数
+const SEARCH_PAGE_SIZE = 48;
+
+// 搜索建议条数与输入防抖间隔（毫秒）
+const SUGGESTION_LIMIT = 8;
+const SUGGESTION_DEBOUNCE = 250;
+
+// 读取本地成人内容设置
+function getShowAdultSetting(): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    const saved = localStorage.getItem('showAdultContent');
+    return saved ? JSON.parse(saved) : false;
+  } catch {
+    return false;
+  }
+}
+
 function SearchPageClient() {
   // 搜索历史
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
@@ -30,6 +56,18 @@ function SearchPageClient() {
   const [isLoading, setIsLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  // 流式搜索：仍有源未返回时为 true
+  const [isStreaming, setIsStreaming] = useState(false);
+  // 失败或超时的源名称，搜索结束后展示
+  const [failedSources, setFailedSources] = useState<string[]>([]);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  // 已发起流式搜索的关键词，切回聚合视图时避免重复请求
+  const streamedQueryRef = useRef('');
+  // 搜索建议：输入停顿后请求，支持方向键选择
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const suggestAbortRef = useRef<AbortController | null>(null);
 
   // 获取默认聚合设置：只读取用户本地设置，默认为 true
   const getDefaultAggregate = () => {
@@ -46,50 +84,50 @@ function SearchPageClient() {
     return getDefaultAggregate() ? 'agg' : 'all';
   });
 
-  // 聚合后的结果（按标题和年份分组）
+  // 平铺视图：由服务端筛选、排序并分页，滚动到底部时加载下一页
+  const [listKind, setListKind] = useState<'' | 'movie' | 'tv'>('');
+  const [listSort, setListSort] = useState<SearchSort>('relevance');
+  const [pagedResults, setPagedResults] = useState<SearchResult[]>([]);
+  const [pagedHasMore, setPagedHasMore] = useState(false);
+  const [pagedLoading, setPagedLoading] = useState(false);
+  const pagedPageRef = useRef(0);
+  const pagedRequestRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const currentQuery = searchParams.get('q') || '';
+
+  // 聚合后的结果（按规范化标题、季数、年份与类型分组，规则与播放页一致）
   const aggregatedResults = useMemo(() => {
-    const map = new Map<string, SearchResult[]>();
-    searchResults.forEach((item) => {
-      // 使用 title + year + type 作为键，year 必然存在，但依然兜底 'unknown'
-      const key = `${item.title.replaceAll(' ', '')}-${
-        item.year || 'unknown'
-      }-${item.episodes.length === 1 ? 'movie' : 'tv'}`;
-      const arr = map.get(key) || [];
-      arr.push(item);
-      map.set(key, arr);
-    });
-    return Array.from(map.entries()).sort((a, b) => {
-      // 优先排序：标题与搜索词完全一致的排在前面
-      const aExactMatch = a[1][0].title
-        .replaceAll(' ', '')
-        .includes(searchQuery.trim().replaceAll(' ', ''));
-      const bExactMatch = b[1][0].title
-        .replaceAll(' ', '')
-        .includes(searchQuery.trim().replaceAll(' ', ''));
-
-      if (aExactMatch && !bExactMatch) return -1;
-      if (!aExactMatch && bExactMatch) return 1;
-
-      // 年份排序
-      if (a[1][0].year === b[1][0].year) {
-        return a[0].localeCompare(b[0]);
-      } else {
-        // 处理 unknown 的情况
-        const aYear = a[1][0].year;
-        const bYear = b[1][0].year;
-
-        if (aYear === 'unknown' && bYear === 'unknown') {
-          return 0;
-        } else if (aYear === 'unknown') {
-          return 1; // a 排在后面
-        } else if (bYear === 'unknown') {
-          return -1; // b 排在后面
+    const normalizedQuery = normalizeTitle(searchQuery);
+    return groupSearchResults(searchResults)
+      .map((group): [string, SearchResult[]] => [group.key, group.items])
+      .sort((a, b) => {
+        // 优先排序：规范化后的标题包含搜索词的排在前面
+        const aMatch = normalizeTitle(a[1][0].title).includes(normalizedQuery);
+        const bMatch = normalizeTitle(b[1][0].title).includes(normalizedQuery);
+
+        if (aMatch && !bMatch) return -1;
+        if (!aMatch && bMatch) return 1;
+
+        // 年份排序
+        if (a[1][0].year === b[1][0].year) {
+          return a[0].localeCompare(b[0]);
         } else {
-          // 都是数字年份，按数字大小排序（大的在前面）
-          return aYear > bYear ? -1 : 1;
+          // 处理 unknown 的情况
+          const aYear = a[1][0].year;
+          const bYear = b[1][0].year;
+
+          if (aYear === 'unknown' && bYear === 'unknown') {
+            return 0;
+          } else if (aYear === 'unknown') {
+            return 1; // a 排在后面
+          } else if (bYear === 'unknown') {
+            return -1; // b 排在后面
+          } else {
+            // 都是数字年份，按数字大小排序（大的在前面）
+            return aYear > bYear ? -1 : 1;
+          }
         }
-      }
-    });
+      });
   }, [searchResults]);
 
   useEffect(() => {
@@ -139,6 +177,7 @@ function SearchPageClient() {
     return () => {
       unsubscribe();
       isRunning = false; // 停止 requestAnimationFrame 循环
+      searchAbortRef.current?.abort(); // 中断未完成的流式搜索
 
       // 移除 body 滚动事件监听器
       document.body.removeEventListener('scroll', handleScroll);
@@ -150,7 +189,6 @@ function SearchPageClient() {
     const query = searchParams.get('q');
     if (query) {
       setSearchQuery(query);
-      fetchSearchResults(query);
 
       // 保存到搜索历史 (事件监听会自动更新界面)
       addSearchHistory(query);
@@ -159,75 +197,278 @@ function SearchPageClient() {
     }
   }, [searchParams]);
 
+  // 聚合视图使用流式搜索，平铺视图只走服务端分页，两者不同时请求
+  useEffect(() => {
+    if (!currentQuery) return;
+    if (viewMode === 'agg') {
+      if (streamedQueryRef.current !== currentQuery) {
+        fetchSearchResults(currentQuery);
+      }
+      return;
+    }
+    // 切到平铺视图时中断未完成的流式搜索，切回聚合时重新请求
+    if (searchAbortRef.current) {
+      searchAbortRef.current.abort();
+      searchAbortRef.current = null;
+      streamedQueryRef.current = '';
+      setIsStreaming(false);
+    }
+    setIsLoading(false);
+    setShowResults(true);
+  }, [viewMode, currentQuery]);
+
+  // 搜索结果排序：标题完全一致优先，其次按年份倒序
+  const sortSearchResults = (results: SearchResult[], query: string) =>
+    results.sort((a: SearchResult, b: SearchResult) => {
+      // 优先排序：标题与搜索词完全一致的排在前面
+      const aExactMatch = a.title === query.trim();
+      const bExactMatch = b.title === query.trim();
+
+      if (aExactMatch && !bExactMatch) return -1;
+      if (!aExactMatch && bExactMatch) return 1;
+
+      // 如果都匹配或都不匹配，则按原来的逻辑排序
+      if (a.year === b.year) {
+        return a.title.localeCompare(b.title);
+      } else {
+        // 处理 unknown 的情况
+        if (a.year === 'unknown' && b.year === 'unknown') {
+          return 0;
+        } else if (a.year === 'unknown') {
+          return 1; // a 排在后面
+        } else if (b.year === 'unknown') {
+          return -1; // b 排在后面
+        } else {
+          // 都是数字年份，按数字大小排序（大的在前面）
+          return parseInt(a.year) > parseInt(b.year) ? -1 : 1;
+        }
+      }
+    });
+
   const fetchSearchResults = async (query: string) => {
+    // 新的搜索开始时中断上一次仍在进行的流式请求
+    searchAbortRef.current?.abort();
+    const abortController = new AbortController();
+    searchAbortRef.current = abortController;
+    streamedQueryRef.current = query;
+
     try {
       setIsLoading(true);
+      setIsStreaming(true);
+      setSearchResults([]);
+      setFailedSources([]);
       // Read local setting for adult content
-      let showAdult = false;
-      if (typeof window !== 'undefined') {
-        try {
-          const saved = localStorage.getItem('showAdultContent');
-          showAdult = saved ? JSON.parse(saved) : false;
-        } catch {
-          showAdult = false;
-        }
-      }
+      const showAdult = getShowAdultSetting();
+      const shouldFilterOnClient =
+        !showAdult &&
+        typeof window !== 'undefined' &&
+        !(window as any).RUNTIME_CONFIG?.DISABLE_YELLOW_FILTER;
+
       const response = await fetch(
-        `/api/search?q=${encodeURIComponent(query.trim())}&showAdult=${showAdult ? '1' : '0'}`
+        `/api/search?q=${encodeURIComponent(query.trim())}&showAdult=${
+          showAdult ? '1' : '0'
+        }&stream=1`,
+        { signal: abortController.signal }
       );
-      const data = await response.json();
-      let results = data.results;
-      // If we explicitly set showAdult via query, do not apply additional client filtering when showAdult=true
-      if (!showAdult) {
-        if (
-          typeof window !== 'undefined' &&
-          !(window as any).RUNTIME_CONFIG?.DISABLE_YELLOW_FILTER
-        ) {
-          results = results.filter((result: SearchResult) => {
-            const typeName = result.type_name || '';
-            return !yellowWords.some((word: string) => typeName.includes(word));
-          });
-        }
+      if (!response.ok || !response.body) {
+        throw new Error(`搜索请求失败: ${response.status}`);
       }
-      setSearchResults(
-        results.sort((a: SearchResult, b: SearchResult) => {
-          // 优先排序：标题与搜索词完全一致的排在前面
-          const aExactMatch = a.title === query.trim();
-          const bExactMatch = b.title === query.trim();
-
-          if (aExactMatch && !bExactMatch) return -1;
-          if (!aExactMatch && bExactMatch) return 1;
-
-          // 如果都匹配或都不匹配，则按原来的逻辑排序
-          if (a.year === b.year) {
-            return a.title.localeCompare(b.title);
-          } else {
-            // 处理 unknown 的情况
-            if (a.year === 'unknown' && b.year === 'unknown') {
-              return 0;
-            } else if (a.year === 'unknown') {
-              return 1; // a 排在后面
-            } else if (b.year === 'unknown') {
-              return -1; // b 排在后面
-            } else {
-              // 都是数字年份，按数字大小排序（大的在前面）
-              return parseInt(a.year) > parseInt(b.year) ? -1 : 1;
-            }
+
+      // 逐行解析 NDJSON，每个源返回后立即追加渲染
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let accumulated: SearchResult[] = [];
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const event = JSON.parse(line);
+        if (event.type === 'results') {
+          let results: SearchResult[] = event.results || [];
+          // If we explicitly set showAdult via query, do not apply additional client filtering when showAdult=true
+          if (shouldFilterOnClient) {
+            results = results.filter((result: SearchResult) => {
+              const typeName = result.type_name || '';
+              return !yellowWords.some((word: string) =>
+                typeName.includes(word)
+              );
+            });
           }
-        })
-      );
+          if (results.length > 0) {
+            accumulated = sortSearchResults(
+              [...accumulated, ...results],
+              query
+            );
+            setSearchResults(accumulated);
+            setIsLoading(false);
+            setShowResults(true);
+          }
+        } else if (event.type === 'done') {
+          setFailedSources(
+            [
+              ...(event.failed || []),
+              ...(event.timedOut || []),
+              ...(event.skipped || []),
+            ].map((s: { source_name: string }) => s.source_name)
+          );
+        }
+      };
+
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer);
+
       setShowResults(true);
     } catch (error) {
+      if ((error as Error)?.name === 'AbortError') return;
       setSearchResults([]);
     } finally {
-      setIsLoading(false);
+      if (searchAbortRef.current === abortController) {
+        searchAbortRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
+    }
+  };
+
+  const fetchPagedResults = async (query: string, page: number) => {
+    const requestId = ++pagedRequestRef.current;
+    setPagedLoading(true);
+    try {
+      const params = new URLSearchParams({
+        q: query.trim(),
+        showAdult: getShowAdultSetting() ? '1' : '0',
+        page: String(page),
+        pageSize: String(SEARCH_PAGE_SIZE),
+        sort: listSort,
+      });
+      if (listKind) params.set('kind', listKind);
+      const response = await fetch(`/api/search?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`搜索请求失败: ${response.status}`);
+      }
+      const data = await response.json();
+      // 条件已变化的过期响应直接丢弃
+      if (requestId !== pagedRequestRef.current) return;
+      pagedPageRef.current = page;
+      setPagedResults((prev) =>
+        page === 1 ? data.results || [] : [...prev, ...(data.results || [])]
+      );
+      setPagedHasMore(Boolean(data.hasMore));
+    } catch (error) {
+      if (requestId === pagedRequestRef.current) {
+        setPagedHasMore(false);
+      }
+    } finally {
+      if (requestId === pagedRequestRef.current) {
+        setPagedLoading(false);
+      }
+    }
+  };
+
+  // 平铺视图下，关键词或筛选条件变化时重新加载第一页
+  useEffect(() => {
+    if (viewMode !== 'all' || !currentQuery) return;
+    setPagedResults([]);
+    setPagedHasMore(false);
+    pagedPageRef.current = 0;
+    fetchPagedResults(currentQuery, 1);
+  }, [viewMode, currentQuery, listKind, listSort]);
+
+  // 滚动到列表底部时加载下一页
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (viewMode !== 'all' || !sentinel || !pagedHasMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !pagedLoading) {
+        fetchPagedResults(currentQuery, pagedPageRef.current + 1);
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [viewMode, pagedHasMore, pagedLoading, currentQuery]);
+
+  // 输入停顿后请求搜索建议，本地搜索历史中的匹配项排在最前
+  useEffect(() => {
+    const keyword = searchQuery.trim();
+    suggestAbortRef.current?.abort();
+    if (!showSuggestions || !keyword) {
+      setSuggestions([]);
+      setActiveSuggestion(-1);
+      return;
+    }
+
+    const controller = new AbortController();
+    suggestAbortRef.current = controller;
+    const timer = setTimeout(async () => {
+      const normalizedKeyword = normalizeTitle(keyword);
+      const local: SearchSuggestion[] = searchHistory
+        .filter(
+          (item) =>
+            item !== keyword && normalizeTitle(item).includes(normalizedKeyword)
+        )
+        .slice(0, SUGGESTION_LIMIT)
+        .map((title) => ({ title, source: 'history' }));
+      try {
+        const response = await fetch(
+          `/api/search/suggest?q=${encodeURIComponent(
+            keyword
+          )}&limit=${SUGGESTION_LIMIT}`,
+          { signal: controller.signal }
+        );
+        const data = response.ok ? await response.json() : { suggestions: [] };
+        const seen = new Set(local.map((item) => normalizeTitle(item.title)));
+        const remote = (data.suggestions as SearchSuggestion[]).filter(
+          (item) => !seen.has(normalizeTitle(item.title))
+        );
+        setSuggestions([...local, ...remote].slice(0, SUGGESTION_LIMIT));
+      } catch (error) {
+        if ((error as Error)?.name === 'AbortError') return;
+        setSuggestions(local);
+      }
+      setActiveSuggestion(-1);
+    }, SUGGESTION_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery, showSuggestions]);
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveSuggestion((index) => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion((index) =>
+        index <= 0 ? suggestions.length - 1 : index - 1
+      );
+    } else if (e.key === 'Enter' && activeSuggestion >= 0) {
+      e.preventDefault();
+      submitSearch(suggestions[activeSuggestion].title);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
     }
   };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    const trimmed = searchQuery.trim().replace(/\s+/g, ' ');
+    submitSearch(searchQuery);
+  };
+
+  const submitSearch = (keyword: string) => {
+    const trimmed = keyword.trim().replace(/\s+/g, ' ');
     if (!trimmed) return;
+    setShowSuggestions(false);
 
     // 回显搜索框
     setSearchQuery(trimmed);
@@ -268,10 +509,63 @@ function SearchPageClient() {
                 id='searchInput'
                 type='text'
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setShowSuggestions(true);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                onKeyDown={handleSearchKeyDown}
+                autoComplete='off'
+                role='combobox'
+                aria-expanded={showSuggestions && suggestions.length > 0}
+                aria-controls='searchSuggestions'
+                aria-activedescendant={
+                  activeSuggestion >= 0
+                    ? `searchSuggestion-${activeSuggestion}`
+                    : undefined
+                }
                 placeholder='搜索电影、电视剧...'
                 className='w-full h-12 rounded-lg bg-gray-50/80 py-3 pl-10 pr-4 text-sm text-gray-700 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-400 focus:bg-white border border-gray-200/50 shadow-sm dark:bg-gray-800 dark:text-gray-300 dark:placeholder-gray-500 dark:focus:bg-gray-700 dark:border-gray-700'
               />
+              {showSuggestions && suggestions.length > 0 && (
+                <ul
+                  id='searchSuggestions'
+                  role='listbox'
+                  className='absolute left-0 right-0 top-full z-20 mt-1 overflow-hidden rounded-lg border border-gray-200/50 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800'
+                >
+                  {suggestions.map((item, index) => {
+                    const Icon =
+                      item.source === 'history'
+                        ? Clock
+                        : item.source === 'hot'
+                        ? TrendingUp
+                        : Search;
+                    return (
+                      <li
+                        key={`${item.source}-${item.title}`}
+                        id={`searchSuggestion-${index}`}
+                        role='option'
+                        aria-selected={index === activeSuggestion}
+                        // 使用 mousedown 并阻止默认行为，避免输入框先失焦导致列表关闭
+                        onMouseDown={(e) => {
+                          e.preventDefault();
+                          submitSearch(item.title);
+                        }}
+                        onMouseEnter={() => setActiveSuggestion(index)}
+                        className={`flex cursor-pointer items-center gap-3 px-4 py-3 text-sm text-gray-700 dark:text-gray-300 ${
+                          index === activeSuggestion
+                            ? 'bg-green-50 dark:bg-gray-700'
+                            : ''
+                        }`}
+                      >
+                        <Icon className='h-4 w-4 flex-shrink-0 text-gray-400 dark:text-gray-500' />
+                        <span className='truncate'>{item.title}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
             </div>
           </form>
         </div>
@@ -286,27 +580,62 @@ function SearchPageClient() {
             <section className='mb-12'>
               {/* 标题 + 聚合开关 */}
               <div className='mb-8 flex items-center justify-between'>
-                <h2 className='text-xl font-bold text-gray-800 dark:text-gray-200'>
+                <h2 className='flex items-center gap-3 text-xl font-bold text-gray-800 dark:text-gray-200'>
                   搜索结果
+                  {viewMode === 'agg' && isStreaming && (
+                    <span className='flex items-center gap-1 text-sm font-normal text-gray-500 dark:text-gray-400'>
+                      <span className='animate-spin rounded-full h-3 w-3 border-b-2 border-green-500'></span>
+                      更多源加载中
+                    </span>
+                  )}
                 </h2>
-                {/* 聚合开关 */}
-                <label className='flex items-center gap-2 cursor-pointer select-none'>
-                  <span className='text-sm text-gray-700 dark:text-gray-300'>
-                    聚合
-                  </span>
-                  <div className='relative'>
-                    <input
-                      type='checkbox'
-                      className='sr-only peer'
-                      checked={viewMode === 'agg'}
-                      onChange={() =>
-                        setViewMode(viewMode === 'agg' ? 'all' : 'agg')
-                      }
-                    />
-                    <div className='w-9 h-5 bg-gray-300 rounded-full peer-checked:bg-green-500 transition-colors dark:bg-gray-600'></div>
-                    <div className='absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full transition-transform peer-checked:translate-x-4'></div>
-                  </div>
-                </label>
+                <div className='flex items-center gap-4'>
+                  {/* 平铺视图的类型与排序筛选 */}
+                  {viewMode === 'all' && (
+                    <div className='flex items-center gap-2 text-sm'>
+                      <select
+                        value={listKind}
+                        onChange={(e) =>
+                          setListKind(e.target.value as '' | 'movie' | 'tv')
+                        }
+                        className='rounded-md border border-gray-200 bg-white px-2 py-1 text-gray-700 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300'
+                      >
+                        <option value=''>全部类型</option>
+                        <option value='movie'>电影</option>
+                        <option value='tv'>剧集</option>
+                      </select>
+                      <select
+                        value={listSort}
+                        onChange={(e) =>
+                          setListSort(e.target.value as SearchSort)
+                        }
+                        className='rounded-md border border-gray-200 bg-white px-2 py-1 text-gray-700 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300'
+                      >
+                        <option value='relevance'>相关度</option>
+                        <option value='year'>年份</option>
+                        <option value='priority'>源优先级</option>
+                      </select>
+                    </div>
+                  )}
+                  {/* 聚合开关 */}
+                  <label className='flex items-center gap-2 cursor-pointer select-none'>
+                    <span className='text-sm text-gray-700 dark:text-gray-300'>
+                      聚合
+                    </span>
+                    <div className='relative'>
+                      <input
+                        type='checkbox'
+                        className='sr-only peer'
+                        checked={viewMode === 'agg'}
+                        onChange={() =>
+                          setViewMode(viewMode === 'agg' ? 'all' : 'agg')
+                        }
+                      />
+                      <div className='w-9 h-5 bg-gray-300 rounded-full peer-checked:bg-green-500 transition-colors dark:bg-gray-600'></div>
+                      <div className='absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full transition-transform peer-checked:translate-x-4'></div>
+                    </div>
+                  </label>
+                </div>
               </div>
               <div
                 key={`search-results-${viewMode}`}
@@ -328,7 +657,7 @@ function SearchPageClient() {
                         </div>
                       );
                     })
-                  : searchResults.map((item) => (
+                  : pagedResults.map((item) => (
                       <div
                         key={`all-${item.source}-${item.id}`}
                         className='w-full'
@@ -337,7 +666,7 @@ function SearchPageClient() {
                           id={item.id}
                           title={item.title + ' ' + item.type_name}
                           poster={item.poster}
-                          episodes={item.episodes.length}
+                          episodes={countRegularEpisodes(item)}
                           source={item.source}
                           source_name={item.source_name}
                           douban_id={item.douban_id?.toString()}
@@ -348,16 +677,35 @@ function SearchPageClient() {
                           }
                           year={item.year}
                           from='search'
-                          type={item.episodes.length > 1 ? 'tv' : 'movie'}
+                          type={getWorkType(item)}
                         />
                       </div>
                     ))}
-                {searchResults.length === 0 && (
+                {(viewMode === 'agg'
+                  ? searchResults.length === 0 && !isStreaming
+                  : pagedResults.length === 0 && !pagedLoading) && (
                   <div className='col-span-full text-center text-gray-500 py-8 dark:text-gray-400'>
                     未找到相关结果
                   </div>
                 )}
               </div>
+              {viewMode === 'all' && (
+                <div
+                  ref={loadMoreRef}
+                  className='flex justify-center items-center h-16'
+                >
+                  {pagedLoading && (
+                    <div className='animate-spin rounded-full h-6 w-6 border-b-2 border-green-500'></div>
+                  )}
+                </div>
+              )}
+              {viewMode === 'agg' &&
+                !isStreaming &&
+                failedSources.length > 0 && (
+                  <p className='mt-10 text-center text-xs text-gray-400 dark:text-gray-500'>
+                    以下源未响应：{failedSources.join('、')}
+                  </p>
+                )}
             </section>
           ) : searchHistory.length > 0 ? (
             // 搜索历史
@@ -7,10 +7,13 @@ import type { PlayRecord } from '@/lib/db.client';
 import {
   clearAllPlayRecords,
   getAllPlayRecords,
+  getSourceAvailability,
   subscribeToDataUpdates,
 } from '@/lib/db.client';
+import { SourceAvailability } from '@/lib/types';
 
 import ScrollableRow from '@/components/ScrollableRow';
+import SourceReplacementNotice from '@/components/SourceReplacementNotice';
 import VideoCard from '@/components/VideoCard';
 
 interface ContinueWatchingProps {
@@ -21,6 +24,9 @@ export default function ContinueWatching({ className }: ContinueWatchingProps) {
   const [playRecords, setPlayRecords] = useState<
     (PlayRecord & { key: string })[]
   >([]);
+  const [availability, setAvailability] = useState<
+    Record<string, SourceAvailability>
+  >({});
   const [loading, setLoading] = useState(true);
 
   // 处理播放记录数据更新的函数
@@ -56,12 +62,14 @@ export default function ContinueWatching({ className }: ContinueWatchingProps) {
     };
 
     fetchPlayRecords();
+    getSourceAvailability().then(setAvailability);
 
-    // 监听播放记录更新事件
+    // 监听播放记录更新事件（迁移到替代源后同样会触发）
     const unsubscribe = subscribeToDataUpdates(
       'playRecordsUpdated',
       (newRecords: Record<string, PlayRecord>) => {
         updatePlayRecords(newRecords);
+        getSourceAvailability().then(setAvailability);
       }
     );
 
@@ -145,6 +153,10 @@ export default function ContinueWatching({ className }: ContinueWatchingProps) {
                     }
                     type={record.total_episodes > 1 ? 'tv' : ''}
                   />
+                  <SourceReplacementNotice
+                    storageKey={record.key}
+                    availability={availability[record.key]}
+                  />
                 </div>
               );
             })}
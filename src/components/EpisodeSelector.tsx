@@ -9,7 +9,8 @@ import React, {
   useState,
 } from 'react';
 
-import { SearchResult } from '@/lib/types';
+import { countRegularEpisodes } from '@/lib/episodes';
+import { Episode, PlayLine, SearchResult } from '@/lib/types';
 import { getVideoResolutionFromM3u8, processImageUrl } from '@/lib/utils';
 
 // 定义视频信息类型
@@ -40,10 +41,25 @@ interface EpisodeSelectorProps {
   sourceSearchError?: string | null;
   /** 预计算的测速结果，避免重复测速 */
   precomputedVideoInfo?: Map<string, VideoInfo>;
+  /** 当前线路的剧集详情（标题、类型），缺省时仅显示序号 */
+  episodes?: Episode[];
+  /** 当前源的播放线路 */
+  playLines?: PlayLine[];
+  /** 当前线路索引（0 开始） */
+  currentLine?: number;
+  /** 切换线路回调 */
+  onLineChange?: (lineIndex: number) => void;
+}
+
+// 纯序号标题（"第01集"、"12"、"第3话"）只显示数字，其余显示原标题
+function getEpisodeLabel(episode: Episode | undefined, episodeNumber: number) {
+  if (!episode) return String(episodeNumber);
+  const numeric = episode.title.match(/^(?:第\s*)?0*(\d+)\s*[集话話回期]?$/);
+  return numeric ? numeric[1] : episode.title;
 }
 
 /**
- * 选集组件，支持分页、自动滚动聚焦当前分页标签，以及换源功能。
+ * 选集组件，支持分页、自动滚动聚焦当前分页标签、同源线路切换，以及换源功能。
  */
 const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
   totalEpisodes,
@@ -58,6 +74,10 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
   sourceSearchLoading = false,
   sourceSearchError = null,
   precomputedVideoInfo,
+  episodes = [],
+  playLines = [],
+  currentLine = 0,
+  onLineChange,
 }) => {
   const router = useRouter();
   const pageCount = Math.ceil(totalEpisodes / episodesPerPage);
@@ -295,6 +315,15 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
     [onSourceChange]
   );
 
+  // 存在非纯数字标题时加宽按钮
+  const hasNamedEpisodes = useMemo(
+    () =>
+      episodes.some(
+        (ep, idx) => getEpisodeLabel(ep, idx + 1) !== String(idx + 1)
+      ),
+    [episodes]
+  );
+
   const currentStart = currentPage * episodesPerPage + 1;
   const currentEnd = Math.min(
     currentStart + episodesPerPage - 1,
@@ -333,6 +362,30 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
         </div>
       </div>
 
+      {/* 线路切换：同一源存在多条播放线路时显示 */}
+      {playLines.length > 1 && (
+        <div className='flex gap-2 overflow-x-auto pb-2 mb-2 flex-shrink-0'>
+          {playLines.map((line, idx) => {
+            const isActive = idx === currentLine;
+            return (
+              <button
+                key={`${line.name}-${idx}`}
+                onClick={() => !isActive && onLineChange?.(idx)}
+                title={`${line.name}（${line.episodes.length} 集）`}
+                className={`px-3 py-1 text-xs rounded-full whitespace-nowrap flex-shrink-0 transition-colors
+                  ${
+                    isActive
+                      ? 'bg-green-500 text-white dark:bg-green-600'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-white/10 dark:text-gray-300 dark:hover:bg-white/20'
+                  }`.trim()}
+              >
+                {line.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* 选集 Tab 内容 */}
       {activeTab === 'episodes' && (
         <>
@@ -391,7 +444,13 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
           </div>
 
           {/* 集数网格 */}
-          <div className='grid grid-cols-[repeat(auto-fill,minmax(40px,1fr))] auto-rows-[40px] gap-x-3 gap-y-3 overflow-y-auto h-full pb-4'>
+          <div
+            className={`grid ${
+              hasNamedEpisodes
+                ? 'grid-cols-[repeat(auto-fill,minmax(88px,1fr))]'
+                : 'grid-cols-[repeat(auto-fill,minmax(40px,1fr))]'
+            } auto-rows-[40px] gap-x-3 gap-y-3 overflow-y-auto h-full pb-4`}
+          >
             {(() => {
               const len = currentEnd - currentStart + 1;
               const episodes = Array.from({ length: len }, (_, i) =>
@@ -400,18 +459,25 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
               return episodes;
             })().map((episodeNumber) => {
               const isActive = episodeNumber === value;
+              const episode = episodes[episodeNumber - 1];
+              const isExtra = episode && episode.kind !== 'regular';
               return (
                 <button
                   key={episodeNumber}
                   onClick={() => handleEpisodeClick(episodeNumber - 1)}
-                  className={`h-10 flex items-center justify-center text-sm font-medium rounded-md transition-all duration-200 
+                  title={episode?.title}
+                  className={`h-10 px-2 flex items-center justify-center text-sm font-medium rounded-md transition-all duration-200 
                     ${
                       isActive
                         ? 'bg-green-500 text-white shadow-lg shadow-green-500/25 dark:bg-green-600'
+                        : isExtra
+                        ? 'bg-amber-100 text-amber-700 hover:bg-amber-200 hover:scale-105 dark:bg-amber-500/10 dark:text-amber-300 dark:hover:bg-amber-500/20'
                         : 'bg-gray-200 text-gray-700 hover:bg-gray-300 hover:scale-105 dark:bg-white/10 dark:text-gray-300 dark:hover:bg-white/20'
                     }`.trim()}
                 >
-                  {episodeNumber}
+                  <span className='truncate'>
+                    {getEpisodeLabel(episode, episodeNumber)}
+                  </span>
                 </button>
               );
             })}
@@ -563,9 +629,9 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
                             <span className='text-xs px-2 py-1 border border-gray-500/60 rounded text-gray-700 dark:text-gray-300'>
                               {source.source_name}
                             </span>
-                            {source.episodes.length > 1 && (
+                            {countRegularEpisodes(source) > 1 && (
                               <span className='text-xs text-gray-500 dark:text-gray-400 font-medium'>
-                                {source.episodes.length} 集
+                                {countRegularEpisodes(source)} 集
                               </span>
                             )}
                           </div>
@@ -0,0 +1,171 @@
+/* eslint-disable no-console */
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import type { Favorite } from '@/lib/db.client';
+import { getAllFavorites, subscribeToDataUpdates } from '@/lib/db.client';
+import { countRegularEpisodes } from '@/lib/episodes';
+import { getWorkType } from '@/lib/search.grouping';
+import { SearchResult } from '@/lib/types';
+
+import ScrollableRow from '@/components/ScrollableRow';
+import VideoCard from '@/components/VideoCard';
+
+interface LatestUpdatesProps {
+  className?: string;
+  hours?: number;
+}
+
+/**
+ * 首页 "最近更新"：汇总各源最近 hours 小时内更新的内容，可只看收藏中有更新的作品
+ */
+export default function LatestUpdates({
+  className,
+  hours = 24,
+}: LatestUpdatesProps) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [favorites, setFavorites] = useState<Record<string, Favorite>>({});
+  const [onlyFavorites, setOnlyFavorites] = useState(false);
+  const [loading, setLoading] = useState(true);
+  // 只看收藏：由服务端翻完各源在时间窗口内的全部更新后筛选
+  const [favoriteResults, setFavoriteResults] = useState<SearchResult[]>([]);
+  const [favoriteLoading, setFavoriteLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchLatest = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/latest?h=${hours}`);
+        const data = await response.json();
+        setResults(data.results || []);
+      } catch (error) {
+        console.error('获取最近更新失败:', error);
+        setResults([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLatest();
+  }, [hours]);
+
+  useEffect(() => {
+    getAllFavorites().then(setFavorites);
+
+    // 监听收藏更新事件
+    const unsubscribe = subscribeToDataUpdates(
+      'favoritesUpdated',
+      (newFavorites: Record<string, Favorite>) => {
+        setFavorites(newFavorites);
+      }
+    );
+
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!onlyFavorites) return;
+    let cancelled = false;
+
+    const fetchFavoriteUpdates = async () => {
+      try {
+        setFavoriteLoading(true);
+        const response = await fetch(`/api/latest?h=${hours}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            favorites: Object.entries(favorites).map(([key, fav]) => {
+              const [source, id] = key.split('+');
+              return {
+                source,
+                id,
+                title: fav.search_title || fav.title,
+                year: fav.year,
+              };
+            }),
+          }),
+        });
+        const data = await response.json();
+        if (!cancelled) setFavoriteResults(data.results || []);
+      } catch (error) {
+        console.error('获取收藏更新失败:', error);
+        if (!cancelled) setFavoriteResults([]);
+      } finally {
+        if (!cancelled) setFavoriteLoading(false);
+      }
+    };
+
+    fetchFavoriteUpdates();
+    return () => {
+      cancelled = true;
+    };
+  }, [onlyFavorites, favorites, hours]);
+
+  const visibleResults = onlyFavorites ? favoriteResults : results;
+  const visibleLoading = onlyFavorites ? favoriteLoading : loading;
+
+  // 没有任何更新时不渲染
+  if (!loading && results.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={`mb-8 ${className || ''}`}>
+      <div className='mb-4 flex items-center justify-between'>
+        <h2 className='text-xl font-bold text-gray-800 dark:text-gray-200'>
+          最近更新
+        </h2>
+        <label className='flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 cursor-pointer'>
+          <input
+            type='checkbox'
+            checked={onlyFavorites}
+            onChange={(e) => setOnlyFavorites(e.target.checked)}
+            className='h-4 w-4 accent-green-500'
+          />
+          只看收藏
+        </label>
+      </div>
+      <ScrollableRow>
+        {visibleLoading ? (
+          // 加载状态显示灰色占位数据
+          Array.from({ length: 6 }).map((_, index) => (
+            <div
+              key={index}
+              className='min-w-[96px] w-24 sm:min-w-[180px] sm:w-44'
+            >
+              <div className='relative aspect-[2/3] w-full overflow-hidden rounded-lg bg-gray-200 animate-pulse dark:bg-gray-800'>
+                <div className='absolute inset-0 bg-gray-300 dark:bg-gray-700'></div>
+              </div>
+              <div className='mt-2 h-4 bg-gray-200 rounded animate-pulse dark:bg-gray-800'></div>
+            </div>
+          ))
+        ) : visibleResults.length === 0 ? (
+          <div className='py-8 text-sm text-gray-500 dark:text-gray-400'>
+            收藏的作品最近 {hours} 小时内没有更新
+          </div>
+        ) : (
+          visibleResults.map((item) => (
+            <div
+              key={`${item.source}-${item.id}`}
+              className='min-w-[96px] w-24 sm:min-w-[180px] sm:w-44'
+            >
+              <VideoCard
+                id={item.id}
+                title={item.title}
+                poster={item.poster}
+                episodes={countRegularEpisodes(item)}
+                source={item.source}
+                source_name={item.source_name}
+                douban_id={item.douban_id?.toString()}
+                year={item.year}
+                from='search'
+                type={getWorkType(item)}
+              />
+            </div>
+          ))
+        )}
+      </ScrollableRow>
+    </section>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useState } from 'react';
+
+import { acceptSourceReplacement } from '@/lib/db.client';
+import { SourceAvailability } from '@/lib/types';
+
+interface SourceReplacementNoticeProps {
+  storageKey: string; // source+id
+  availability?: SourceAvailability;
+}
+
+/**
+ * 收藏/播放记录的源已失效时显示在卡片下方，有替代源时可一键迁移
+ */
+export default function SourceReplacementNotice({
+  storageKey,
+  availability,
+}: SourceReplacementNoticeProps) {
+  const [migrating, setMigrating] = useState(false);
+
+  if (!availability?.unavailable) {
+    return null;
+  }
+
+  const replacement = availability.replacement;
+  if (!replacement) {
+    return (
+      <p className='mt-1 text-xs text-red-500 dark:text-red-400'>
+        源已失效，暂无替代
+      </p>
+    );
+  }
+
+  return (
+    <div className='mt-1 flex flex-wrap items-center gap-1 text-xs text-red-500 dark:text-red-400'>
+      <span className='truncate'>
+        源已失效 · 切换到 {replacement.source_name}？
+      </span>
+      <button
+        disabled={migrating}
+        onClick={async () => {
+          setMigrating(true);
+          try {
+            await acceptSourceReplacement(storageKey);
+          } finally {
+            setMigrating(false);
+          }
+        }}
+        className='px-2 py-0.5 rounded-full bg-green-500 text-white hover:bg-green-600 disabled:opacity-50'
+      >
+        {migrating ? '切换中' : '切换'}
+      </button>
+    </div>
+  );
+}
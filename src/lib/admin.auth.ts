@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from './auth';
+import { getConfig } from './config';
+
+/**
+ * 校验管理员身份（站长或 role 为 admin 的用户），服务端使用
+ * 通过时返回 null，否则返回可直接作为响应的 401 错误
+ */
+export async function checkAdmin(
+  request: NextRequest
+): Promise<NextResponse | null> {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const username = authInfo.username;
+  if (username !== process.env.USERNAME) {
+    const config = await getConfig();
+    const userEntry = config.UserConfig.Users.find(
+      (u) => u.username === username
+    );
+    if (!userEntry || userEntry.role !== 'admin') {
+      return NextResponse.json({ error: '权限不足' }, { status: 401 });
+    }
+  }
+  return null;
+}
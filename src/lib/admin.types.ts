@@ -1,3 +1,46 @@
+// 下游视频源类型，决定使用哪个 SourceAdapter 解析
+// maccms：苹果CMS V10 JSON 接口；maccms_xml：苹果CMS V10 XML 接口（at/xml）；
+// html：搜索走 MacCMS 接口，详情抓取 HTML 详情页；eporner：Eporner API
+export type SourceType = 'maccms' | 'maccms_xml' | 'html' | 'eporner';
+
+// HTML 详情页抓取规则，均为正则表达式字符串，第一个捕获组为目标内容
+export interface HtmlScraperConfig {
+  detailPath?: string; // 详情页路径模板，{id} 会被替换，默认 /index.php/vod/detail/id/{id}.html
+  episodePattern?: string; // 播放地址，默认匹配 $ 开头的 m3u8 链接
+  titlePattern?: string;
+  descPattern?: string;
+  posterPattern?: string;
+  yearPattern?: string;
+}
+
+// 单个源的请求设置，均为可选，未设置时使用全局默认值
+export interface SourceRequestConfig {
+  timeout?: number; // 请求超时（毫秒），默认搜索 8 秒、详情 10 秒
+  maxConcurrency?: number; // 同一源同时进行的请求数（如搜索翻页），默认 4
+  headers?: Record<string, string>; // 额外请求头，可覆盖默认的 User-Agent、Accept
+  referer?: string;
+  // 代理地址模板，{url} 会被替换为编码后的原地址，不含 {url} 时直接拼接在末尾；
+  // 设为 builtin 时使用本站的 /api/cors-proxy（需配置 SITE_BASE）
+  proxy?: string;
+}
+
+// 苹果CMS 接口（/api/maccms）列表的排序方式，与 Eporner 的 order 参数一致
+export type MacCMSCategoryOrder =
+  | 'latest'
+  | 'longest'
+  | 'shortest'
+  | 'top-rated'
+  | 'most-viewed';
+
+// 苹果CMS 接口的分类，ac=list 输出为 class，videolist 按 t=type_id 取对应的搜索词
+export interface MacCMSCategoryConfig {
+  type_id: number;
+  type_name: string;
+  type_pid: number; // 父分类 ID，顶级分类为 0
+  query: string; // 该分类对应的 Eporner 搜索关键词
+  order?: MacCMSCategoryOrder; // 未设置时使用请求中的排序
+}
+
 export interface AdminConfig {
   SiteConfig: {
     SiteName: string;
@@ -21,6 +64,9 @@ export interface AdminConfig {
     name: string;
     api: string;
     detail?: string;
+    type?: SourceType;
+    scraper?: HtmlScraperConfig;
+    request?: SourceRequestConfig;
     is_adult?: boolean;
     from: 'config' | 'custom';
     disabled?: boolean;
@@ -34,6 +80,7 @@ export interface AdminConfig {
     from: 'config' | 'custom';
     disabled?: boolean;
   }[];
+  MacCMSCategories: MacCMSCategoryConfig[];
 }
 
 export interface AdminConfigResult {
@@ -0,0 +1,267 @@
+/**
+ * 简繁转换与拼音首字母数据，随代码打包，无需联网
+ *
+ * - SIMPLIFIED / TRADITIONAL：逐字对应的常用简繁字对
+ * - TRADITIONAL_ONLY：一简对多繁时其余繁体写法，仅用于繁转简
+ * - PINYIN_INITIALS：GB2312 一、二级汉字按拼音首字母分组（多音字取常用读音）
+ * - POLYPHONE_INITIALS：常见多音字的其余读音首字母
+ */
+
+export const SIMPLIFIED =
+  '万与专业丛东丝丢两严丧个丰临为丽举么义乌乐乔习乡书买乱争于亏云亚产亩亲亿仅从仑仓仪们价众优伙会伞伟传伤伦伪体佣侠侣侥侦侧' +
+  '侨侬俭债倾偿储儿兑党兰关兴养兽内冈册写军农冯冲决况冻净凉减凑凤凭凯击凿刘则刚创删别刹刽剂剑剧劝办务动励劲劳势勋匀区医华协' +
+  '单卖卢卫却厂厅历压厌厕厢厦厨县参双发变叙叠台叶号叹吓吕吗启吴员呜咏哑响哟唤啰喷嘱团园围国图圆圣场坏块坚坛坝坟坠垄垒埘堕墙' +
+  '壮声壳处备复够头夹夺奋奖妆妇妈妩娄娱婴婶孙学宁宝实宠审宪宫宽宾对寻导寿将尔尘尝层属岁岂岚岛岭峡巩币帅师帐帘带帮广庄庆库应' +
+  '庙废开异弃张弥弯弹强归当录彦彻径忆忧怀态怜总恋恒恶恼悦悬惊惧惨惩愤愿戏战户执扩扫扬扰抚抢护报拟拥择挂挚挡挣挤挥捞损换据掳' +
+  '掷揽搀摄摆摇撑敌数斋斩断无旧时旷昙昼显晋晒晓晕暂术机杀杂权条来杨极构枪枫柜标栋栏树样桥梦检楼欢欧歼残毁毕气汉汤沟没沪泪泽' +
+  '洁浅测济浑浓涛润涩渊渐温湾湿满滚滞滥滨滩潜灭灯灵灾炉点炼烂烟烦烧热爱爷牵犹独狭狮狱猎猪猫献环现玛琐电画畅疗疯痒瘫皱盏监盖' +
+  '盘眯睁瞒矫矿码砖础硕确碍礼祸离种积称稳穷窃窍竞笔笼筑签简类粮紧纠红约级纪纯纲纳纵纷纸纹线练组细织终绍经结绕绘给络绝统继绩' +
+  '绪续绳维绵综绿缓编缘缠网罗罚罢职联聪肃肠肤肿胁胆胜脉脏脑脚脸腊舰艰艺节芦苍苏苹茧荐药荣荡莱获莹营萝萧葱蓝蔼虏虑虚虫虽蚀蚁' +
+  '蛮蜡补衬袜装见观规视览觉触誉计订认讨让训议记讲许论设访证评识诈诉词译试诗诚话诞询该详语误说请诸读课谁调谈谊谋谍谎谐谜谢谣' +
+  '谱谷贝贞负贡财责贤败货质贩贪贫购贯贱贴贵贷贸费贺贼资赌赏赔赖赚赛赞赵赶趋跃践踪车轨转轮软轰轻载较辅辆辈辉输辞边达迁过迈运' +
+  '还这进远违连迟适选逊递逻遗邓邮邻郑酱释里鉴针钓钞钟钢钥钱铁铃铜铭银锁锅锋错锦键镇镜长门闪闭问闯闲间闷闹闻阁阅队阳阴阵阶际' +
+  '陆陈险随隐隶难雏雾静韦韩页顶项顺须顽顾顿预领频题颜额风飘飞饥饭饮饰饱饼馆马驰驱驶驻驾验骂骄骑骗骚鱼鲁鲜鸟鸡鸣鸭鸿鹅鹤鹰麦' +
+  '黄齐齿龙龟后干丑几余尽汇凄剥嫔谭诀铠灿烁颂赋虾蝎钻锤剐嘘恺觅奂缤锐扑仆厉厘叁吁啸坞岗峦巅帜幂庐庞弑惯戆扎拣挞捣搅撵擞晖栈' +
+  '桩棂椭榄横檐殴毡氢汹沦沧泞浊涡涨渔溃滤潇澜灶炖烛烫焕犊狈猬玺琼瓒瓯畴疟痨瘾皑眬睐碱祯禅秃稣窜窝竖笃筛筹箩篮篱粤絷缀缆罂翘' +
+  '耸聂肴胶脐腻舱苇茎荚莲莺萤蔷蕴蛊蝇袄袭裤誊谤谦谨谴贬赂赃赎跄跷蹒躏轴轿辖辩迹逦邹郦酝钩铲锻镖闺阎陨隽雳霁韵颈颗飒饺馈驴骆' +
+  '骤鲍鸥鹊黩龄龚';
+
+export const TRADITIONAL =
+  '萬與專業叢東絲丟兩嚴喪個豐臨為麗舉麼義烏樂喬習鄉書買亂爭於虧雲亞產畝親億僅從侖倉儀們價眾優夥會傘偉傳傷倫偽體傭俠侶僥偵側' +
+  '僑儂儉債傾償儲兒兌黨蘭關興養獸內岡冊寫軍農馮衝決況凍淨涼減湊鳳憑凱擊鑿劉則剛創刪別剎劊劑劍劇勸辦務動勵勁勞勢勳勻區醫華協' +
+  '單賣盧衛卻廠廳歷壓厭廁廂廈廚縣參雙發變敘疊臺葉號嘆嚇呂嗎啟吳員嗚詠啞響喲喚囉噴囑團園圍國圖圓聖場壞塊堅壇壩墳墜壟壘塒墮牆' +
+  '壯聲殼處備復夠頭夾奪奮獎妝婦媽嫵婁娛嬰嬸孫學寧寶實寵審憲宮寬賓對尋導壽將爾塵嘗層屬歲豈嵐島嶺峽鞏幣帥師帳簾帶幫廣莊慶庫應' +
+  '廟廢開異棄張彌彎彈強歸當錄彥徹徑憶憂懷態憐總戀恆惡惱悅懸驚懼慘懲憤願戲戰戶執擴掃揚擾撫搶護報擬擁擇掛摯擋掙擠揮撈損換據擄' +
+  '擲攬攙攝擺搖撐敵數齋斬斷無舊時曠曇晝顯晉曬曉暈暫術機殺雜權條來楊極構槍楓櫃標棟欄樹樣橋夢檢樓歡歐殲殘毀畢氣漢湯溝沒滬淚澤' +
+  '潔淺測濟渾濃濤潤澀淵漸溫灣濕滿滾滯濫濱灘潛滅燈靈災爐點煉爛煙煩燒熱愛爺牽猶獨狹獅獄獵豬貓獻環現瑪瑣電畫暢療瘋癢癱皺盞監蓋' +
+  '盤瞇睜瞞矯礦碼磚礎碩確礙禮禍離種積稱穩窮竊竅競筆籠築簽簡類糧緊糾紅約級紀純綱納縱紛紙紋線練組細織終紹經結繞繪給絡絕統繼績' +
+  '緒續繩維綿綜綠緩編緣纏網羅罰罷職聯聰肅腸膚腫脅膽勝脈臟腦腳臉臘艦艱藝節蘆蒼蘇蘋繭薦藥榮蕩萊獲瑩營蘿蕭蔥藍藹虜慮虛蟲雖蝕蟻' +
+  '蠻蠟補襯襪裝見觀規視覽覺觸譽計訂認討讓訓議記講許論設訪證評識詐訴詞譯試詩誠話誕詢該詳語誤說請諸讀課誰調談誼謀諜謊諧謎謝謠' +
+  '譜穀貝貞負貢財責賢敗貨質販貪貧購貫賤貼貴貸貿費賀賊資賭賞賠賴賺賽贊趙趕趨躍踐蹤車軌轉輪軟轟輕載較輔輛輩輝輸辭邊達遷過邁運' +
+  '還這進遠違連遲適選遜遞邏遺鄧郵鄰鄭醬釋裡鑒針釣鈔鐘鋼鑰錢鐵鈴銅銘銀鎖鍋鋒錯錦鍵鎮鏡長門閃閉問闖閒間悶鬧聞閣閱隊陽陰陣階際' +
+  '陸陳險隨隱隸難雛霧靜韋韓頁頂項順須頑顧頓預領頻題顏額風飄飛飢飯飲飾飽餅館馬馳驅駛駐駕驗罵驕騎騙騷魚魯鮮鳥雞鳴鴨鴻鵝鶴鷹麥' +
+  '黃齊齒龍龜後幹醜幾餘盡匯淒剝嬪譚訣鎧燦爍頌賦蝦蠍鑽錘剮噓愷覓奐繽銳撲僕厲釐叄籲嘯塢崗巒巔幟冪廬龐弒慣戇紮揀撻搗攪攆擻暉棧' +
+  '樁欞橢欖橫簷毆氈氫洶淪滄濘濁渦漲漁潰濾瀟瀾竈燉燭燙煥犢狽蝟璽瓊瓚甌疇瘧癆癮皚矓睞鹼禎禪禿穌竄窩豎篤篩籌籮籃籬粵縶綴纜罌翹' +
+  '聳聶餚膠臍膩艙葦莖莢蓮鶯螢薔蘊蠱蠅襖襲褲謄謗謙謹譴貶賂贓贖蹌蹺蹣躪軸轎轄辯跡邐鄒酈醞鉤鏟鍛鏢閨閻隕雋靂霽韻頸顆颯餃饋驢駱' +
+  '驟鮑鷗鵲黷齡龔';
+
+export const TRADITIONAL_ONLY: { [traditional: string]: string } = {
+  裏: '里',
+  乾: '干',
+  颱: '台',
+  髮: '发',
+  麵: '面',
+  鍾: '钟',
+  爲: '为',
+  僞: '伪',
+  衆: '众',
+  啓: '启',
+  綫: '线',
+  曆: '历',
+  範: '范',
+  複: '复',
+  隻: '只',
+  係: '系',
+  繫: '系',
+  鬆: '松',
+  穫: '获',
+  儘: '尽',
+  彙: '汇',
+  遊: '游',
+  鬱: '郁',
+  佔: '占',
+  製: '制',
+  誌: '志',
+  錶: '表',
+  準: '准',
+  捲: '卷',
+  採: '采',
+  鬥: '斗',
+  沖: '冲',
+  閑: '闲',
+  峯: '峰',
+  羣: '群',
+  牀: '床',
+  綉: '绣',
+  鑑: '鉴',
+  蹟: '迹',
+  祕: '秘',
+  脣: '唇',
+};
+
+export const PINYIN_INITIALS: { [letter: string]: string } = {
+  a:
+    '啊阿埃挨哎唉哀皑癌蔼矮艾碍爱隘鞍氨安俺按暗岸胺案肮昂盎凹敖熬翱袄傲奥懊澳谙坳埯拗捱揞嗷嗳嗌岙岜犴庵廒遨媪嫒骜瑷桉獒暧砹铵' +
+    '锿鹌聱螯霭鏊鳌鏖黯',
+  b:
+    '芭捌扒叭吧笆八疤巴拔跋靶把耙坝霸罢爸白柏百摆佰败拜稗斑班搬扳般颁板版扮拌伴瓣半办绊邦帮梆榜膀绑棒磅蚌镑傍谤苞胞包褒剥薄雹' +
+    '保堡饱宝抱报暴豹鲍爆杯碑悲卑北辈背贝钡倍狈备惫焙被奔苯本笨崩绷甭泵蹦迸逼鼻比鄙笔彼碧蓖蔽毕毙毖币庇痹闭敝弊必辟壁臂避陛鞭' +
+    '边编贬扁便变卞辨辩辫遍标彪膘表鳖憋别瘪彬斌濒滨宾摈兵冰柄丙秉饼炳病并玻菠播拨钵波博勃搏铂箔伯帛舶脖膊渤泊驳捕卜哺补埠不布' +
+    '步簿部怖匕孛匾俾傧勹亳禀冫阪邴邶弁畚坌坂芘苄茇荜荸菝萆葆蓓蒡蕃薜捭摒卟吡呗哔啵嘣嚓豳狴饽庳忭悖愎汴浜滗濞灞逋弼妣婊婢嬖孢' +
+    '骠缏缤玢璧杓槟檗殡瓿甏晡贲掰擘膑飑飙飚煲煸灬砭碚碥礴畀钚钣钯钸钹铋锛镔镖镳秕鸨鹁鹎瘢瘭癍窆裱裨褙褓褊蝙笾筚箅篦簸舭舨襞粑' +
+    '醭蹩趵跛跸踣龅鐾鲅鳊鳔鞴髀髌魃髟鬓',
+  c:
+    '擦猜裁材才财睬踩采彩菜蔡餐参蚕残惭惨灿苍舱仓沧藏操糙槽曹草厕策侧册测层蹭插叉茬茶查碴搽察岔差诧拆柴豺搀掺蝉馋谗缠铲产阐颤' +
+    '昌猖场尝常长偿肠厂敞畅唱倡超抄钞朝嘲潮巢吵炒车扯撤掣彻澈郴臣辰尘晨忱沉陈趁衬撑称城橙成呈乘程惩澄诚承逞骋秤吃痴持匙池迟弛' +
+    '驰耻齿侈尺赤翅斥炽充冲虫崇宠抽酬畴踌稠愁筹仇绸瞅丑臭初出橱厨躇锄雏滁除楚础储矗搐触处揣川穿椽传船喘串疮窗幢床闯创吹炊捶锤' +
+    '垂春椿醇唇淳纯蠢戳绰疵茨磁雌辞慈瓷词此刺赐次聪葱囱匆从丛凑粗醋簇促蹿篡窜摧崔催脆瘁粹淬翠村存寸磋撮搓措挫错亍丞厝伥伧侪俦' +
+    '傺汆冁谄谌谶陲刍鬯坼埕墀艹苌苁茌茈茺莼菖萃蒇蔟耷抻搋撺叱哒呲哧啐啜嗒啻嗔嗤嘈噌帱岑嵯彳徂徜猝猹舛饬馇廛忖忏忡怅怆怵怊恻惝' +
+    '惆悴憧憷阊汊涔淙漕潺澶宸辶遄孱羼屮姹娼婵媸嫦骖骢骣绌巛琮琛璀璁璨杈杵枨枞柽楮棰槌榇槎榱樗檫殂辍辏昶晟晁觇毳氅氚敕脞腠塍膪' +
+    '焯爨祠禅砗碜礤眵瞠钏钗铖铳锉锸镡镩镲矬鸱鹑鹚痤瘥瘛瘳衩裎褚褫皴耖虿蚩蛏蜍蝽螭螬蟾笞篪舂舡艚艟粲糍豉酲鹾蹙踔踟踹蹉蹰蹴躔龀' +
+    '龊雠鲳魑黜黪',
+  d:
+    '搭达答瘩打大呆歹傣戴带殆代贷袋待逮怠耽担丹单郸掸胆旦氮但惮淡诞弹蛋当挡党荡档刀捣蹈倒岛祷导到稻悼道盗德得的蹬灯登等瞪凳邓' +
+    '堤低滴迪敌笛狄涤翟嫡抵底地蒂第帝弟递缔颠掂滇碘点典靛垫电佃甸店惦奠淀殿碉叼雕凋刁掉吊钓调跌爹碟蝶迭谍叠丁盯叮钉顶鼎锭定订' +
+    '丢东冬董懂动栋侗恫冻洞兜抖斗陡豆逗痘都督毒犊独读堵睹赌杜镀肚度渡妒端短锻段断缎堆兑队对墩吨蹲敦顿囤钝盾遁掇哆多夺垛躲朵跺' +
+    '舵剁惰堕氐刂仃儋籴诋谛谠阽邸凼坫坻垤垌埭堞芏莪荻萏菪蔸揲甙叨呔咚咄哚啖啶喋嘟嗲嘀噔岽岱峒嶝巅忉怛沌渎澹宕迨屙妲娣婀骀绐缍' +
+    '玎玷玳柢椟棣椴殚戥赕觌氘氡牍牒胨胴腚炖煅怼憝沓砀砘砥硐碓碇碲礅磴盹眈睇钭钿铎铛铞铥铫锇锝镝镦镫瓞鸫疔疸瘅癜癫窦裆裰褡耋耵' +
+    '聃蚪蠹笃笪箪篼簖簟簦羝纛酊趸踮蹀踱貂鲷鲽靼鞑骶髑黛黩',
+  e: '蛾峨鹅俄额讹娥恶厄扼遏鄂饿恩而儿耳尔饵洱二贰噩诶谔垩苊萼蒽摁呃愕迩珥轭腭铒锷鸸鹗颚鲕鳄',
+  f:
+    '发罚筏伐乏阀法珐藩帆番翻樊矾钒繁凡烦反返范贩犯饭泛坊芳方肪房防妨仿访纺放菲非啡飞肥匪诽吠肺废沸费芬酚吩氛分纷坟焚汾粉奋份' +
+    '忿愤粪丰封枫蜂峰锋风疯烽逢冯缝讽奉凤佛否夫敷肤孵扶拂辐幅氟符伏俘服浮涪福袱弗甫抚辅俯釜斧脯腑府腐赴副覆赋复傅付阜父腹负富' +
+    '讣附妇缚咐匚俸偾匐凫阝邡郛酆垡芙芾苻茯莩菔葑蘩拊呋呒唪幞幡狒怫悱沣淝滏瀵艴妃尜孚驸绂绋绯枋梵桴棼榧旮赙腓斐燔扉祓砜砝砩黻' +
+    '黼畈罘钆钫镄稃馥痱蚨蜉蜚蝠蝮缶篚舫翡麸趺跗蹯霏鲂鲋鲱鲼鳆鼢',
+  g:
+    '噶嘎该改概钙盖溉干甘杆柑竿肝赶感秆敢赣冈刚钢缸肛纲岗港杠篙皋高膏羔糕搞镐稿告哥歌搁戈鸽胳疙割革葛格蛤阁隔铬个各给根跟耕更' +
+    '庚羹埂耿梗工攻功恭龚供躬公宫弓巩汞拱贡共钩勾沟苟狗垢构购够辜菇咕箍估沽孤姑鼓古蛊骨谷股故顾固雇刮瓜剐寡挂褂乖拐怪棺关官冠' +
+    '观管馆罐惯灌贯光广逛瑰规圭硅归龟闺轨鬼诡癸桂柜跪贵刽辊滚棍锅郭国果裹过丐亘鬲丨睾嘏匦卦刿仡佝倌馘衮诂诖诟诰陔郜哿圪坩垓埚' +
+    '塥苷茛莞菰藁廾尬尴掴掼擀呙呱咣哏哽嗝帼岣崮崞犷猓庋赓汩泔淦涫澉宄遘妫媾尕绀绠绲缑缟珙枸桄栝桧梏椁槔槁橄轱戤旰杲晷赅觏牯牿' +
+    '搿虢肱胍胱膈臌彀毂戆矸硌磙瞽罡罟盥钴锆锢镉皈鸪鸹鹄鹳疳痼袼聒虼蚣蛄蜾蝈笱筻篝簋舸艮酐酤觚觥鲑鲠鲧鲴鳏鳜鞲鹘骼',
+  h:
+    '哈骸孩海氦亥害骇酣憨邯韩含涵寒函喊罕翰撼捍旱憾悍焊汗汉夯杭航壕嚎豪毫郝好耗号浩呵喝荷菏核禾和何合盒貉阂河涸赫褐鹤贺嘿黑痕' +
+    '很狠恨哼亨横衡恒轰哄烘虹鸿洪宏弘红喉侯猴吼厚候后呼乎忽瑚壶葫胡蝴狐糊湖弧虎唬护互沪户花哗华猾滑画划化话槐徊怀淮坏欢环桓还' +
+    '缓换患唤痪豢焕涣宦幻荒慌黄磺蝗簧皇凰惶煌晃幌恍谎灰挥辉徽恢蛔回毁悔慧卉惠晦贿秽会烩汇讳诲绘荤昏婚魂浑混豁活伙火获或惑霍货' +
+    '祸丌劐黉訇冱讧诃诙诨隍邗郇奂劾壑堠茴荟荭萑菡蒿蕙蕻薨薅藿蘅撖擐攉咴哕唿喙嗬嗥嗨嚆嚯囫圜岵後徨猢獾夥馄怙惚隳闳阍阖沆泓洹洄' +
+    '浍浒浣湟溷潢滹漶濠瀚灏寰逅逭遑彗骅纥绗缋缳珩珲琥璜桦桁槲轷昊曷晖晗肓胲觳烀焓煳戽扈祜恚砉盍钬铧铪锪锾镬皓瓠鹕鹱瘊癀耠顸颃' +
+    '颌颔颢虍虺蚝蚶蚵蟥蟪蠖笏篁篌糇翮醐醢踝斛鲎鲩鳇骺鬟麾鼾嬛',
+  j:
+    '击圾基机畸稽积箕肌饥迹激讥鸡姬绩缉吉极棘辑籍集及急疾汲即嫉级挤几脊己蓟技冀季伎祭剂悸济寄寂计记既忌际妓继纪嘉枷夹佳家加荚' +
+    '颊贾甲钾假稼价架驾嫁歼监坚尖笺间煎兼肩艰奸缄茧检柬碱硷拣捡简俭剪减荐槛鉴践贱见键箭件健舰剑饯渐溅涧建僵姜将浆江疆蒋桨奖讲' +
+    '匠酱降蕉椒礁焦胶交郊浇骄娇嚼搅铰矫侥脚狡角饺缴绞剿教酵轿较叫窖揭接皆秸街阶截劫节桔杰捷睫竭洁结解姐戒藉芥界借介疥诫届巾筋' +
+    '斤金今津襟紧锦仅谨进靳晋禁近烬浸尽劲荆兢茎睛晶鲸京惊精粳经井警景颈静境敬镜径痉靖竟竞净炯窘揪究纠玖韭久灸九酒厩救旧臼舅咎' +
+    '就疚鞠拘狙疽居驹菊局咀矩举沮聚拒据巨具距踞锯俱句惧炬剧捐鹃娟倦眷卷绢撅攫抉掘倔爵觉决诀绝均菌钧军君峻俊竣浚郡骏亟乩厥刭剞' +
+    '劂冂伽佶佼倨偈儆僭僬僦讦讵诘谏谫谲卩卺阱郏鄄矍墼艽芨芰苣苴莒荠茭茳荩菁堇菅葭蒺蒹蕨蕺拮挢捃掎掬搛叽咔咭哜唧喈啾嗟噘噍噤囝' +
+    '岌岬峤崛嵴徼狷獍獗馑廑憬阄泾浃洎洚涓湫湔蹇謇迥迦迳遽彐屐屦弪妗姣婧婕孑孓骥绛缙缣缰畿玑珏珈琚瑾枧柩桕桀桊桷楗椐楫榘榉槿橛' +
+    '橘殛戋戛戟戢戬炅赆赍觊觐牮犟犄犋犍毽敫肼胛胫腈腱飓齑旌爝扃恝矶碣礓睑羁蠲钅钜铗锏锔锩镌镓镢嵇稷皎鸠鹣鹪鹫疖痂瘕瘠窭衿裥裾' +
+    '皲矜耩颉虮蚧蛱蛟笈笄笕笳袈羯糨暨翦赳趄豇醮醵趼跏跻跤跽踺踽蹶觖靓霁龃隽雎鲒鲚鲛鲣鲫鞯鞫骱髻鬏麂麇',
+  k:
+    '喀咖卡咯开揩楷凯慨刊堪勘坎砍看康慷糠扛抗亢炕考拷烤靠坷苛柯棵磕颗科壳咳可渴克刻客课肯啃垦恳坑吭空恐孔控抠口扣寇枯哭窟苦酷' +
+    '库裤夸垮挎跨胯块筷侩快宽款匡筐狂框矿眶旷况亏盔岿窥葵奎魁傀馈愧溃坤昆捆困括扩廓阔馗匮刳剀蒯伉佧侉侃倥夔诓诳邝郐圹垲堀芤莰' +
+    '蒈蒉蔻夼揆叩哐哙喹喟喾嗑岢崆狯忾恺恪悝悃愦闶阃阚溘逵尻骒纩绔缂珂琨栲轲戡暌贶犒氪胩脍龛眍睽瞌瞰钪钶铐铠铿锎锞锟锴稞疴窠裉' +
+    '聩颏蛞蝰蝌筘箜篑醌跬鲲骷髁髋髡',
+  l:
+    '垃拉喇蜡腊辣啦莱来赖蓝婪栏拦篮阑兰澜谰揽览懒缆烂滥琅榔狼廊郎朗浪捞劳牢老佬姥酪烙涝勒乐雷镭蕾磊累儡垒擂肋类泪棱楞冷厘梨犁' +
+    '黎篱狸离漓理李里鲤礼莉荔吏栗丽厉励砾历利傈例俐痢立粒沥隶力璃哩俩联莲连镰廉怜涟帘敛脸链恋炼练粮凉梁粱良两辆量晾亮谅撩聊僚' +
+    '疗燎寥辽潦了撂镣廖料列裂烈劣猎琳林磷霖临邻鳞淋凛赁吝拎玲菱零龄铃伶羚凌灵陵岭领另令溜琉榴硫馏留刘瘤流柳六龙聋咙笼窿隆垄拢' +
+    '陇楼娄搂篓漏陋芦卢颅庐炉掳卤虏鲁麓碌露路赂鹿潞禄录陆戮驴吕铝侣旅履屡缕虑氯律率滤绿峦挛孪滦卵乱掠略抡轮伦仑沦纶论萝螺罗逻' +
+    '锣箩骡裸落洛骆络剌仂俪俚倮偻脔蠃羸冽诔郦酃坜垅垆埒塄墚苈茏苓荦莅莨蒌蓠蒗蔹蔺蓼藜奁尥捋捩摞撸叻呖呤咧唠啉啷唳喱喽嘞嘹噜囵' +
+    '囹岚崂崃嵝嶙徕猁猡獠廪愣懔闾阆泐泷泸泠泺洌浏涞渌溧漤漯潋漉濑澧濂寮逦逯遛遴邋娈娌嫠嫘骊骝绫绺缡缧缭珑珞琏璐枥栊栌柃栎栳栾' +
+    '棂椤椋楝榄榈橹檑檩殓轳轹辂辘辚瓴旯赉氇胧胪脶膂臁膦斓旒熘戾砺砻砬睐瞵詈罱罹钌铑铹铼锂锊锍锒镂镏镙镥镧稆稂鸬鸾鹂鹨鹩鹭疠疬' +
+    '痨瘌瘘瘰癃癞裢裣褛褴耒耢耧聆蛎蛉蜊螂蝼蠊蠡笠篥簏籁舻粝粼翎趔酹醪醴跞踉躏躐雳雒銮鎏鲈鲡鲢鲮鳓鳢髅魉鬣麟黧',
+  m:
+    '妈麻玛码蚂马骂嘛吗埋买麦卖迈脉瞒馒蛮满蔓曼慢漫谩芒茫盲氓忙莽猫茅锚毛矛铆卯茂冒帽貌贸么玫枚梅酶霉煤没眉媒镁每美昧寐妹媚门' +
+    '闷们萌蒙檬盟锰猛梦孟眯醚靡糜迷谜弥米秘觅泌蜜密幂棉眠绵冕免勉娩缅面苗描瞄藐秒渺庙妙蔑灭民抿皿敏悯闽明螟鸣铭名命谬摸摹蘑模' +
+    '膜磨摩魔抹末莫墨默沫漠寞陌谋牟某拇牡亩姆母墓暮幕募慕木目睦牧穆乜芈仫侔袤冖冥谟谧邙劢勐坶墁茉苜茆苠茗荬莓蓦甍瞢蘼扪咩咪哞' +
+    '唛喵嘧幔峁岷嵋犸猕猸馍懵闵沐沔汨泖泯浼渑湎湄漭溟宀宓邈弭嫫嬷缈缗缦缪珉瑁杩杪楣殁昴暝牦耄毪脒腼朦旄焖熳祢愍懋懑淼硭礞眄眇' +
+    '眸瞀瞑钔钼镅镆镘秣鹋鹛瘼袂耱颟虻蛑蜢蝥螨蟒蟆蟊蠓蠛篾艋艨敉糸酩貊貘霾黾鍪鳗鳘鞔魅髦麽縻麋',
+  n:
+    '拿哪呐钠那娜纳氖乃奶耐奈南男难囊挠脑恼闹淖呢馁内嫩能妮霓倪泥尼拟你匿腻逆溺蔫拈年碾撵捻念娘酿鸟尿捏聂孽啮镊镍涅您柠狞凝宁' +
+    '拧泞牛扭钮纽脓浓农弄奴努怒女暖虐疟挪懦糯诺廿孬鼐佞伲佴侬傩讷陧坭垴埝艿茑萘蘖捺搦攮咛呶哝喏喃喔嗫嗯噢囔囡狃猊猱馕忸怩甯弩' +
+    '妞胬嬲孥驽瑙柰楠辇昵曩肭脲腩旎恧恁硇睨钕铌铙锘镎黏疒衲耨聍颞蛲蝻臬衄袅赧蹑鲇鲵鲶',
+  o: '哦欧鸥殴藕呕偶沤讴怄瓯耦',
+  p:
+    '啪趴爬帕怕琶拍排牌徘湃派攀潘盘磐盼畔判叛乓庞旁耪胖抛咆刨炮袍跑泡呸胚培裴赔陪配佩沛喷盆砰抨烹澎彭蓬棚硼篷膨朋鹏捧碰坯砒霹' +
+    '批披劈琵毗啤脾疲皮匹痞僻屁譬篇偏片骗飘漂瓢票撇瞥拼频贫品聘乒坪苹萍平凭瓶评屏坡泼颇婆破魄迫粕剖扑铺仆莆葡菩蒲埔朴圃普浦谱' +
+    '曝瀑丕丿叵剽仳俜俳匍裒谝陂陴邳郫鄱圮埤堋鼙苤萋葩蒎匏拚掊擗哌辔嘌嘭噗噼帔彷狍庀庖怦爿泮淠湓溥滂濮逄姘娉媲嫔嫖骈纰缥珀璞枇' +
+    '杷枰桤榀殍甓攴牝犏氆氕攵胼脬旆睥瞟罴钋钷铍锫镤镨皤疱癖袢襻疋颦蚍蜱螃螵蟛蟠笸筢翩醅蹁蹒蹼貔霈鲆',
+  q:
+    '期欺栖戚妻七凄漆柒沏其棋奇歧畦崎脐齐旗祈祁骑起岂乞企启契砌器气迄弃汽泣讫掐恰洽牵扦钎铅千迁签仟谦乾黔钱钳前潜遣浅谴堑嵌欠' +
+    '歉枪呛腔羌墙蔷强抢橇锹敲悄桥瞧乔侨巧鞘撬翘峭俏窍切茄且怯窃钦侵亲秦琴勤芹擒禽寝沁青轻氢倾卿清擎晴氰情顷请庆琼穷秋丘邱球求' +
+    '囚酋泅趋区蛆曲躯屈驱渠取娶龋趣去圈颧权醛泉全痊拳犬券劝缺炔瘸却鹊榷确雀裙群亓劁俅俟倩佥诎诠诮谯阡邛郄劬凵巯圻芊芑芩芡芪苘' +
+    '茕茜荞荃萁葜葺蕖蕲蘧掮揿吣嗪嘁噙圊屺岍岐岖衢犭犰悭悛惬愀慊憔阒阕阙丬戕汔淇溱骞搴褰逑逡遒妾嫱骐绮绻缱缲琪琦璩杞椠楸樯槭檠' +
+    '樵檎辁戗耆赇觑挈氍肷朐欹炝祛祺悫愆憩硗碛磬磲畎钤铨锓锖锲锵镪鸲癯穹袷襁颀虔虬蚺蚯蛩蛐蛴蜣蜻蜞蜷蝤螓蠼罄筇筌箐箧箝衾裘羟糗' +
+    '綦綮麴跫跄跷蹊謦瞿銎鲭鳅鳍鞒髂鬈麒黢黥鼽',
+  r:
+    '然燃冉染瓤壤攘嚷让饶扰绕惹热壬仁人忍韧任认刃妊纫扔仍日戎茸蓉荣融熔溶容绒冗揉柔肉茹蠕儒孺如辱乳汝入褥软阮蕊瑞锐闰润若弱亻' +
+    '仨仞偌芮苒荛荏葚蓐蕤薷嚅嵘狨饪洳溽濡娆缛枘桡榕轫挲肜朊禳睿铷稔穰衽襦颥蚋蝾箬糅蹂鞣髯',
+  s:
+    '撒洒萨腮鳃塞赛三叁伞散桑嗓丧搔骚扫嫂瑟色涩森僧莎砂杀刹沙纱傻啥煞筛晒珊苫杉山删煽衫闪陕擅赡膳善汕扇缮墒伤商赏晌上尚裳梢捎' +
+    '稍烧芍勺韶少哨邵绍奢赊蛇舌舍赦摄射慑涉社设砷申呻伸身深娠绅神沈审婶甚肾慎渗声生甥牲升绳省盛剩胜圣师失狮施湿诗尸虱十石拾时' +
+    '什食蚀实识史矢使屎驶始式示士世柿事拭誓逝势是嗜噬适仕侍释饰氏市恃室视试收手首守寿授售受瘦兽蔬枢梳殊抒输叔舒淑疏书赎孰熟薯' +
+    '暑曙署蜀黍鼠属术述树束戍竖墅庶数漱恕刷耍摔衰甩帅栓拴霜双爽谁水睡税吮瞬顺舜说硕朔烁斯撕嘶思私司丝死肆寺嗣四伺似饲巳松耸怂' +
+    '颂送宋讼诵搜艘擞嗽苏酥俗素速粟僳塑溯宿诉肃酸蒜算虽隋随绥髓碎岁穗遂隧祟孙损笋蓑梭唆缩琐索锁所卅啬厍厮剡倏佘夙兕凇讪诜谂谇' +
+    '谡谥鄯劭叟厶塾埏垧埘埽芟苕荪莳荽莘菘菽蓍蒴蔌薮扌摅搠搡弑咝哂唢唼唰嗖嗉嗦嗄嗍嗾噻崧嵊嵩彡狩狲狻猞飧饣馊馓忪悚愫闩氵汜沭泗' +
+    '涑淞渖涮溲滠澍澌潸潲濉邃妁姒姗姝娑嬗孀驷骟纟纾绱绶缌缫桫椹榫槊殇轼贳毵毹胂脎腧臊膻歃歙飒飕殳炻熵燧礻祀磉眚眭睃睢瞍畲钐铄' +
+    '铈铊铩铯锶锼矧秫穑鸶疝痧瘙竦耜颡蛳蜃蛸螋螫蟀蟮舐笙笥筮筲簌舢艄艏裟羧糁酾豕趿跚觞觫霎隼稣鲥鲨鲺鳋鳝麝',
+  t:
+    '塌他它她塔獭挞蹋踏胎苔抬台泰酞太态汰坍摊贪瘫滩坛檀痰潭谭谈坦毯袒碳探叹炭汤塘搪堂棠膛唐糖倘躺淌趟烫掏涛滔绦萄桃逃淘陶讨套' +
+    '特藤腾疼誊梯剔踢锑提题蹄啼体替嚏惕涕剃屉天添填田甜恬舔腆挑条迢眺跳贴铁帖厅听烃汀廷停亭庭挺艇通桐酮瞳同铜彤童桶捅筒统痛偷' +
+    '投头透凸秃突图徒途涂屠土吐兔湍团推颓腿蜕褪退吞屯臀拖托脱鸵陀驮驼椭妥拓唾乇鼗佟佗佻倜傥僮仝氽亠邰郯坨堍荑茼莛荼萜菟葶薹抟' +
+    '掭忒啕嗵帑饨庹恸悌忝闼阗沲沱洮溻溏潼逖遢彖婷绨缇瑭韬柝柁梃榻樘橐殄昙暾肽豚滕炱煺焘祧忑忐慝砼砣町畋疃钍钛钽铤铴铽锬镗鹈窕' +
+    '裼耥覃蜓蜩螗螳笤箨羰粜酡酴醍醣跎跆霆龆鼍鲐鲦鳎骰餮饕髫',
+  w:
+    '挖哇蛙洼娃瓦袜歪外豌弯湾玩顽丸烷完碗挽晚皖惋宛婉万腕汪王亡枉网往旺望忘妄威巍微危韦违桅围唯惟为潍维苇萎委伟伪尾纬未蔚味畏' +
+    '胃喂魏位渭谓尉慰卫瘟温蚊文闻纹吻稳紊问嗡翁瓮挝蜗涡窝我斡卧握沃巫呜钨乌污诬屋无芜梧吾吴毋武五捂午舞伍侮坞戊雾晤物勿务悟误' +
+    '兀刎剜罔佤仵倭偎兮诿阢隈隗邬圩圬芄芴莴菀葳蓊薇蕹尢唔囗帏帷幄崴嵬猥猬庑怃忤惘闱阌汶沩洧浯涠渥寤迕逶妩娲娓婺骛纨绾玮玟琬璺' +
+    '韪杌辋軎牾肟脘腽炜焐煨硪畹鹉鹜痦痿蜈蜿艉雯龌鋈鲔魍鼯',
+  x:
+    '昔熙析西硒矽晰嘻吸锡牺稀息希悉膝夕惜熄烯溪汐犀檄袭席习媳喜铣洗系隙戏细瞎虾匣霞辖暇峡侠狭下厦夏吓掀锨先仙鲜纤咸贤衔舷闲涎' +
+    '弦嫌显险现献县腺馅羡宪陷限线相厢镶香箱襄湘乡翔祥详想响享项巷橡像向象萧硝霄削哮嚣销消宵淆晓小孝校肖啸笑效楔些歇蝎鞋协挟携' +
+    '邪斜胁谐写械卸蟹懈泄泻谢屑薪芯锌欣辛新忻心信衅星腥猩惺兴刑型形邢行醒幸杏性姓兄凶胸匈汹雄熊休修羞朽嗅锈秀袖绣墟戌需虚嘘须' +
+    '徐许蓄酗叙旭序畜恤絮婿绪续轩喧宣悬旋玄选癣眩绚靴薛学穴雪血勋熏循旬询寻驯巡殉汛训讯逊迅囟偕僖儇巽亵冼诩谑谖陉隰郗勖勰燮埙' +
+    '馨芎芗苋荇荀荥荨莶菥葙葸萱蓰蓿蕈薤薰藓奚揎撷擤呷哓咻唏噱岘岫峋崤徇徙狎猃獬獯饧饩饷馐庥庠廨忄恂悻阋泫洫洵浔浠淅渫溆渲溴潇' +
+    '漩瀣逍遐暹邂屣娴嬉骁骧绁绡缃缬顼玺瑕璇枭柙枵栩楦榭榍樨昕暄曛曦觋氙欷歆炫煊燹煦熹祆禊禧泶硎硖碹盱铉镟皙鸺鹇痃痫穸胥蚬蜥螅' +
+    '蟋蟓罅筅筱箫舄舾羲籼粞糈翕酰醑醯醺踅跣跹躞貅霰鑫鲞鲟鳕魈飨髹黠鼷',
+  y:
+    '压押鸦鸭呀丫芽牙蚜崖衙涯雅哑亚讶焉咽阉烟淹盐严研蜒岩延言颜阎炎沿奄掩眼衍演艳堰燕厌砚雁唁彦焰宴谚验殃央鸯秧杨扬佯疡羊洋阳' +
+    '氧仰痒养样漾邀腰妖瑶摇尧遥窑谣姚咬舀药要耀椰噎耶爷野冶也页掖业叶曳腋夜液一壹医揖铱依伊衣颐夷遗移仪胰疑沂宜姨彝椅蚁倚已乙' +
+    '矣以艺抑易邑屹亿役臆逸肄疫亦裔意毅忆义益溢诣议谊译异翼翌绎茵荫因殷音阴姻吟银淫寅饮尹引隐印英樱婴鹰应缨莹萤营荧蝇迎赢盈影' +
+    '颖硬映哟拥佣臃痈庸雍踊蛹咏泳涌永恿勇用幽优悠忧尤由邮铀犹油游酉有友右佑釉诱又幼迂淤于盂榆虞愚舆余俞逾鱼愉渝渔隅予娱雨与屿' +
+    '禹宇语羽玉域芋郁吁遇喻峪御愈欲狱育誉浴寓裕预豫驭鸳渊冤元垣袁原援辕园员圆猿源缘远苑愿怨院曰约越跃钥岳粤月悦阅耘云郧匀陨允' +
+    '运蕴酝晕韵孕禺夭爻胤毓厣靥赝卣刈劓伛伢攸佚侑佾俨俣俑偃龠兖嬴讠诒谀谒谕谳邺郓郢郾鄢鄞廴壅圯垭垠垸埸堙塬墉懿芫芸苡茚茔莠莜' +
+    '莸莺萸菸萦蓥蓣薏弈奕挹揶揠揄掾撄弋吆呓吲呦咦咿唷喁喑嘤噫囿圄圉岈峄崦崾嵛嶷徉徭狁狳狺猗夤饫饴馀庾膺怏怿怡恹恽悒愠慵闫阈阏' +
+    '沅泱洇湮滟滢潆漪瀛瀹宥迓迤鬻妍妪妤娅媛嫣驿纡纭缢幺邕琊珧瑛琰瑜瑗璎韫杳柚桠楹樾橼檐猷殒殪轶轺昀昱晔晏曜贻觎氩氤氲牖爰刖肴' +
+    '胭腌腴媵欤於旖炀烨烊焱煜熨熠燠恙肀聿砑眢眙睚罨钇钰钺铕铘铟镒镛镱甬鸢鹆鹞鹦鹬疣痖痍瘐瘀瘗瘿瘾癔翊窈窬窨窳衤颍蚓蚰蚴蛘蜮蜴' +
+    '蝓蝣螈罂竽筵筠箢臾舁舣羿翳繇酏酽雩霪龈龉鼋鱿鳐鳙鞅魇餍饔黝黟鼬鼹',
+  z:
+    '匝砸杂栽哉灾宰载再在咱攒暂赞赃脏葬遭糟凿藻枣早澡蚤躁噪造皂灶燥责择则泽贼怎增憎曾赠扎喳渣札轧铡闸眨栅榨咋乍炸诈摘斋宅窄债' +
+    '寨瞻毡詹粘沾盏斩辗崭展蘸栈占战站湛绽樟章彰漳张掌涨杖丈帐账仗胀瘴障招昭找沼赵照罩兆肇召遮折哲蛰辙者锗蔗这浙珍斟真甄砧臻贞' +
+    '针侦枕疹诊震振镇阵蒸挣睁征狰争怔整拯正政帧症郑证芝枝支吱蜘知肢脂汁之织职直植殖执值侄址指止趾只旨纸志挚掷至致置帜峙制智秩' +
+    '稚质炙痔滞治窒中盅忠钟衷终种肿重仲众舟周州洲诌粥轴肘帚咒皱宙昼骤珠株蛛朱猪诸诛逐竹烛煮拄瞩嘱主著柱助蛀贮铸筑住注祝驻抓爪' +
+    '拽专砖转撰赚篆桩庄装妆撞壮状椎锥追赘坠缀谆准捉拙卓桌琢茁酌啄着灼浊兹咨资姿滋淄孜紫仔籽滓子自渍字鬃棕踪宗综总纵邹走奏揍租' +
+    '足卒族祖诅阻组钻纂嘴醉最罪尊遵昨左佐柞做作坐座卮丶仄赜仉伫侏倬偬俎冢诏诤诹诼谘谪谮谵阼陟陬郅邾鄣鄹圳埴芷苎茱荮菹蓁蕞奘拶' +
+    '揸搌摭摺撙擢攥吒咂咤哳唣唑啧啭啁嘬帙帻幛峥崽嵫嶂徵獐夂馔忮怍惴浈洙浞渚涿潴濯迮彘咫姊妯嫜孳驵驺骓骘纣绉缁缒缜缯缵甾璋瓒杼' +
+    '栉柘枳栀桎桢梓棹楱楂榛槠橥樽轵轸轾辄辎臧甑昃昝贽赀赈肫胄胙胗胝朕腙膣旃炷祉祚祗祯禚恣斫砟砦碡磔黹眦畛罾钊钲铢铮锃锱镞镯锺' +
+    '雉秭稹鸩鸷鹧痄疰痣瘃瘵窀褶耔颛蚱蛭蜇螽蟑竺笊笫笮筝箦箸箴簪籀舯舳舴粢粽糌翥絷趑趱赭酎酢酯跖踬踯踵躅躜豸觜觯訾龇隹錾鲰鲻鳟' +
+    '髭麈齄',
+};
+
+export const POLYPHONE_INITIALS: { [char: string]: string } = {
+  传: 'z',
+  长: 'z',
+  行: 'h',
+  重: 'c',
+  乐: 'y',
+  朝: 'z',
+  调: 't',
+  藏: 'z',
+  单: 'cs',
+  会: 'k',
+  解: 'x',
+  降: 'x',
+  曾: 'c',
+  仇: 'q',
+  区: 'o',
+  查: 'z',
+  系: 'j',
+  省: 'x',
+  参: 's',
+  厦: 's',
+  弹: 't',
+  便: 'p',
+  率: 's',
+  给: 'j',
+  奇: 'j',
+  校: 'j',
+};
@@ -0,0 +1,249 @@
+import {
+  PINYIN_INITIALS,
+  POLYPHONE_INITIALS,
+  SIMPLIFIED,
+  TRADITIONAL,
+  TRADITIONAL_ONLY,
+} from './chinese.data';
+
+/**
+ * 搜索关键词的简繁与拼音容错
+ *
+ * 下游源通常只收录一种写法，"甄嬛傳" 与 "甄嬛传" 需要分别请求；
+ * 拼音（全拼、首字母或混写）无法直接交给源搜索，只能与近期搜索结果中的标题比对，
+ * 命中后以对应标题作为关键词。转换表随代码打包，离线可用。
+ */
+
+// 关键词最多扩展出的变体数（含原词），避免对每个源发起过多请求
+const MAX_QUERY_VARIANTS = 4;
+// 标题索引容量，超出后淘汰最早写入的标题
+const MAX_INDEXED_TITLES = 2000;
+
+const PINYIN_SYLLABLES =
+  'a ai an ang ao ba bai ban bang bao bei ben beng bi bian biao bie bin bing bo bu ' +
+  'ca cai can cang cao ce cen ceng cha chai chan chang chao che chen cheng chi chong ' +
+  'chou chu chua chuai chuan chuang chui chun chuo ci cong cou cu cuan cui cun cuo ' +
+  'da dai dan dang dao de dei den deng di dia dian diao die ding diu dong dou du duan ' +
+  'dui dun duo e ei en eng er fa fan fang fei fen feng fo fou fu ga gai gan gang gao ' +
+  'ge gei gen geng gong gou gu gua guai guan guang gui gun guo ha hai han hang hao he ' +
+  'hei hen heng hong hou hu hua huai huan huang hui hun huo ji jia jian jiang jiao jie ' +
+  'jin jing jiong jiu ju juan jue jun ka kai kan kang kao ke kei ken keng kong kou ku ' +
+  'kua kuai kuan kuang kui kun kuo la lai lan lang lao le lei leng li lia lian liang ' +
+  'liao lie lin ling liu lo long lou lu luan lun luo lv lve ma mai man mang mao me mei ' +
+  'men meng mi mian miao mie min ming miu mo mou mu na nai nan nang nao ne nei nen ' +
+  'neng ni nian niang niao nie nin ning niu nong nou nu nuan nuo nv nve o ou pa pai ' +
+  'pan pang pao pei pen peng pi pian piao pie pin ping po pou pu qi qia qian qiang qiao ' +
+  'qie qin qing qiong qiu qu quan que qun ran rang rao re ren reng ri rong rou ru rua ' +
+  'ruan rui run ruo sa sai san sang sao se sen seng sha shai shan shang shao she shei ' +
+  'shen sheng shi shou shu shua shuai shuan shuang shui shun shuo si song sou su suan ' +
+  'sui sun suo ta tai tan tang tao te teng ti tian tiao tie ting tong tou tu tuan tui ' +
+  'tun tuo wa wai wan wang wei wen weng wo wu xi xia xian xiang xiao xie xin xing xiong ' +
+  'xiu xu xuan xue xun ya yan yang yao ye yi yin ying yo yong you yu yuan yue yun za ' +
+  'zai zan zang zao ze zei zen zeng zha zhai zhan zhang zhao zhe zhei zhen zheng zhi ' +
+  'zhong zhou zhu zhua zhuai zhuan zhuang zhui zhun zhuo zi zong zou zu zuan zui zun zuo';
+
+let simplifiedMap: Map<string, string> | null = null;
+let traditionalMap: Map<string, string> | null = null;
+let initialsMap: Map<string, string> | null = null;
+let syllablePrefixes: Set<string> | null = null;
+
+// 转换表较大，首次使用时再构建
+function getSimplifiedMap(): Map<string, string> {
+  if (!simplifiedMap) {
+    simplifiedMap = new Map(Object.entries(TRADITIONAL_ONLY));
+    for (let i = 0; i < TRADITIONAL.length; i++) {
+      simplifiedMap.set(TRADITIONAL[i], SIMPLIFIED[i]);
+    }
+  }
+  return simplifiedMap;
+}
+
+function getTraditionalMap(): Map<string, string> {
+  if (!traditionalMap) {
+    traditionalMap = new Map();
+    for (let i = 0; i < SIMPLIFIED.length; i++) {
+      traditionalMap.set(SIMPLIFIED[i], TRADITIONAL[i]);
+    }
+  }
+  return traditionalMap;
+}
+
+function getInitialsMap(): Map<string, string> {
+  if (!initialsMap) {
+    initialsMap = new Map();
+    for (const letter of Object.keys(PINYIN_INITIALS)) {
+      for (const char of PINYIN_INITIALS[letter]) {
+        initialsMap.set(char, letter);
+      }
+    }
+  }
+  return initialsMap;
+}
+
+// 全部音节及其前缀，允许每个字只输入拼音的开头部分（含首字母）
+function getSyllablePrefixes(): Set<string> {
+  if (!syllablePrefixes) {
+    syllablePrefixes = new Set();
+    for (const syllable of PINYIN_SYLLABLES.split(' ')) {
+      for (let i = 1; i <= syllable.length; i++) {
+        syllablePrefixes.add(syllable.slice(0, i));
+      }
+    }
+  }
+  return syllablePrefixes;
+}
+
+function mapChars(text: string, map: Map<string, string>): string {
+  let result = '';
+  for (const char of text) {
+    result += map.get(char) ?? char;
+  }
+  return result;
+}
+
+/**
+ * 繁体转简体，表外字符原样保留
+ */
+export function toSimplified(text: string): string {
+  return mapChars(text, getSimplifiedMap());
+}
+
+/**
+ * 简体转繁体，表外字符原样保留
+ */
+export function toTraditional(text: string): string {
+  return mapChars(text, getTraditionalMap());
+}
+
+// 每个字可能的首字母：汉字含多音字的其余读音，字母与数字为其本身，其余字符忽略
+function getInitialCandidates(text: string): string[] {
+  const map = getInitialsMap();
+  const candidates: string[] = [];
+  for (const char of toSimplified(text.toLowerCase())) {
+    if (/[a-z0-9]/.test(char)) {
+      candidates.push(char);
+    } else if (map.has(char)) {
+      candidates.push(`${map.get(char)}${POLYPHONE_INITIALS[char] || ''}`);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * 拼音首字母串：汉字取首字母（多音字取常用读音），字母与数字转小写保留，其余字符忽略
+ * 例如 "流浪地球2" → "lldq2"
+ */
+export function getPinyinInitials(text: string): string {
+  return getInitialCandidates(text)
+    .map((letters) => letters[0])
+    .join('');
+}
+
+/**
+ * 拼音输入是否匹配标题：把输入切分为若干音节（或音节前缀），
+ * 各段首字母需依次对应标题中连续的若干字，因此首字母、全拼与混写均可命中。
+ * 例如 "zhz"、"zhenhuanzhuan"、"zhenhz" 都能匹配 "甄嬛传"
+ */
+export function matchesPinyin(title: string, query: string): boolean {
+  const input = query.toLowerCase().replace(/[\s']/g, '');
+  if (!/^[a-z]+$/.test(input)) return false;
+  const candidates = getInitialCandidates(title);
+  if (candidates.length === 0) return false;
+
+  const prefixes = getSyllablePrefixes();
+  const failed = new Set<number>();
+  // 从输入第 qi 位、标题第 ti 个字开始能否匹配完剩余输入
+  const matchFrom = (qi: number, ti: number): boolean => {
+    if (qi === input.length) return true;
+    const letters = candidates[ti];
+    if (!letters || letters.indexOf(input[qi]) === -1) return false;
+    const key = qi * (candidates.length + 1) + ti;
+    if (failed.has(key)) return false;
+    // 单个字母总可对应一个字（首字母或标题中的英文字母），更长的片段须为音节或其前缀
+    for (let end = Math.min(input.length, qi + 6); end > qi; end--) {
+      const piece = input.slice(qi, end);
+      if ((end === qi + 1 || prefixes.has(piece)) && matchFrom(end, ti + 1)) {
+        return true;
+      }
+    }
+    failed.add(key);
+    return false;
+  };
+
+  for (let start = 0; start < candidates.length; start++) {
+    if (matchFrom(0, start)) return true;
+  }
+  return false;
+}
+
+export interface RememberedTitle {
+  title: string; // 简体化后的标题
+  hits: number; // 出现次数，同一标题被越多源、越多次搜索返回则越高
+}
+
+// 近期搜索结果中出现过的标题，键为简体化后的标题，值为出现次数
+const titleIndex = new Map<string, number>();
+
+/**
+ * 记录搜索结果标题，供拼音关键词匹配与搜索建议
+ */
+export function rememberTitles(titles: string[]) {
+  for (const title of titles) {
+    const trimmed = title.trim();
+    if (!trimmed) continue;
+    const key = toSimplified(trimmed);
+    const hits = (titleIndex.get(key) || 0) + 1;
+    // 重新插入以刷新顺序
+    titleIndex.delete(key);
+    titleIndex.set(key, hits);
+  }
+  while (titleIndex.size > MAX_INDEXED_TITLES) {
+    const oldest = titleIndex.keys().next().value as string;
+    titleIndex.delete(oldest);
+  }
+}
+
+/**
+ * 已记录的标题，越近写入的越靠前
+ */
+export function listRememberedTitles(): RememberedTitle[] {
+  return Array.from(titleIndex.entries())
+    .reverse()
+    .map(([title, hits]) => ({ title, hits }));
+}
+
+/**
+ * 在已记录的标题中查找与拼音输入匹配的标题，越近写入的越靠前
+ */
+export function findTitlesByPinyin(query: string, limit = 5): string[] {
+  const matched: string[] = [];
+  for (const { title } of listRememberedTitles()) {
+    if (matched.length >= limit) break;
+    if (matchesPinyin(title, query)) matched.push(title);
+  }
+  return matched;
+}
+
+export function clearTitleIndex() {
+  titleIndex.clear();
+}
+
+/**
+ * 将关键词扩展为需要分别请求的变体：原词、简体、繁体，
+ * 纯字母关键词再附加拼音命中的已知标题。结果去重，原词总在首位
+ */
+export function expandSearchQuery(query: string): string[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const simplified = toSimplified(trimmed);
+  const variants = [trimmed, simplified, toTraditional(simplified)];
+  if (
+    /^[a-z\s']+$/i.test(trimmed) &&
+    trimmed.replace(/[\s']/g, '').length > 1
+  ) {
+    variants.push(...findTitlesByPinyin(trimmed));
+  }
+
+  return Array.from(new Set(variants)).slice(0, MAX_QUERY_VARIANTS);
+}
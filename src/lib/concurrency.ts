@@ -0,0 +1,67 @@
+/**
+ * 并发限制器：同时运行的任务数超过上限时排队，按先来后到执行
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private max: number) {}
+
+  // 调整上限：调高时立即放行排队中的任务，调低时等运行中的任务结束后逐步收紧
+  setMax(max: number) {
+    this.max = Math.max(1, max);
+    while (this.active < this.max && this.queue.length > 0) {
+      this.active++;
+      this.queue.shift()?.();
+    }
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  // signal 中止时，仍在排队的任务退出队列并以 AbortError 失败
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (this.active < this.max) {
+      this.active++;
+    } else {
+      await this.wait(signal);
+    }
+
+    try {
+      return await task();
+    } finally {
+      // 运行中的任务数超过上限（上限被调低）时不再交出名额
+      const next = this.active <= this.max ? this.queue.shift() : undefined;
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  // 排队等待，前一个任务结束时直接把名额交给队首
+  private wait(signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        const index = this.queue.indexOf(grant);
+        if (index >= 0) this.queue.splice(index, 1);
+        const error = new Error('排队等待已中止');
+        error.name = 'AbortError';
+        reject(error);
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+      this.queue.push(grant);
+    });
+  }
+}
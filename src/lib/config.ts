@@ -2,7 +2,13 @@
 
 import { getStorage } from '@/lib/db';
 
-import { AdminConfig } from './admin.types';
+import {
+  AdminConfig,
+  HtmlScraperConfig,
+  SourceRequestConfig,
+  SourceType,
+} from './admin.types';
+import { getDefaultMacCMSCategories } from './maccms.category';
 import runtimeConfig from './runtime';
 
 export interface ApiSite {
@@ -10,6 +16,9 @@ export interface ApiSite {
   api: string;
   name: string;
   detail?: string;
+  type?: SourceType;
+  scraper?: HtmlScraperConfig;
+  request?: SourceRequestConfig;
   is_adult?: boolean;
   priority?: number;
   description?: string;
@@ -109,6 +118,10 @@ async function initConfig() {
             name: site.name,
             api: site.api,
             detail: site.detail,
+            type: site.type,
+            scraper: site.scraper,
+            // 管理后台修改过的请求设置优先于配置文件
+            request: sourceConfigMap.get(key)?.request || site.request,
             is_adult: site.is_adult || false,
             from: 'config',
             disabled: false,
@@ -131,6 +144,11 @@ async function initConfig() {
           adminConfig.CustomCategories = [];
         }
 
+        // 确保 MacCMSCategories 被初始化
+        if (!adminConfig.MacCMSCategories) {
+          adminConfig.MacCMSCategories = getDefaultMacCMSCategories();
+        }
+
         // 补全 CustomCategories
         const customCategoriesMap = new Map(
           adminConfig.CustomCategories.map((c) => [c.query + c.type, c])
@@ -218,6 +236,9 @@ async function initConfig() {
             name: site.name,
             api: site.api,
             detail: site.detail,
+            type: site.type,
+            scraper: site.scraper,
+            request: site.request,
             is_adult: site.is_adult || false,
             from: 'config',
             disabled: false,
@@ -229,6 +250,7 @@ async function initConfig() {
             from: 'config',
             disabled: false,
           })),
+          MacCMSCategories: getDefaultMacCMSCategories(),
         };
       }
 
@@ -267,6 +289,9 @@ async function initConfig() {
         name: site.name,
         api: site.api,
         detail: site.detail,
+        type: site.type,
+        scraper: site.scraper,
+        request: site.request,
         is_adult: site.is_adult || false,
         from: 'config',
         disabled: false,
@@ -279,6 +304,7 @@ async function initConfig() {
           from: 'config',
           disabled: false,
         })) || [],
+      MacCMSCategories: getDefaultMacCMSCategories(),
     } as AdminConfig;
   }
 }
@@ -300,6 +326,10 @@ export async function getConfig(): Promise<AdminConfig> {
     if (!adminConfig.CustomCategories) {
       adminConfig.CustomCategories = [];
     }
+    // 确保 MacCMSCategories 被初始化
+    if (!adminConfig.MacCMSCategories) {
+      adminConfig.MacCMSCategories = getDefaultMacCMSCategories();
+    }
 
     // 合并一些环境变量配置
     adminConfig.SiteConfig.SiteName = process.env.SITE_NAME || 'TeslaTV';
@@ -329,6 +359,8 @@ export async function getConfig(): Promise<AdminConfig> {
         existingSource.name = site.name;
         existingSource.api = site.api;
         existingSource.detail = site.detail;
+        existingSource.type = site.type;
+        existingSource.scraper = site.scraper;
         existingSource.from = 'config';
       } else {
         // 如果不存在，创建新条目
@@ -337,6 +369,9 @@ export async function getConfig(): Promise<AdminConfig> {
           name: site.name,
           api: site.api,
           detail: site.detail,
+          type: site.type,
+          scraper: site.scraper,
+          request: site.request,
           from: 'config',
           disabled: false,
         });
@@ -457,6 +492,9 @@ export async function resetConfig() {
       name: site.name,
       api: site.api,
       detail: site.detail,
+      type: site.type,
+      scraper: site.scraper,
+      request: site.request,
       from: 'config',
       disabled: false,
     })),
@@ -470,6 +508,7 @@ export async function resetConfig() {
           disabled: false,
         })) || []
         : [],
+    MacCMSCategories: getDefaultMacCMSCategories(),
   } as AdminConfig;
 
   if (storage && typeof (storage as any).setAdminConfig === 'function') {
@@ -483,6 +522,7 @@ export async function resetConfig() {
   cachedConfig.UserConfig = adminConfig.UserConfig;
   cachedConfig.SourceConfig = adminConfig.SourceConfig;
   cachedConfig.CustomCategories = adminConfig.CustomCategories;
+  cachedConfig.MacCMSCategories = adminConfig.MacCMSCategories;
 }
 
 export async function getCacheTime(): Promise<number> {
@@ -497,6 +537,9 @@ export async function getAvailableApiSites(): Promise<ApiSite[]> {
     name: s.name,
     api: s.api,
     detail: s.detail,
+    type: s.type,
+    scraper: s.scraper,
+    request: s.request,
   }));
 
   // 在客户端环境下，添加用户自定义的API源
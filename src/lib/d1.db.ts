@@ -1,7 +1,14 @@
 /* eslint-disable no-console, @typescript-eslint/no-explicit-any, @typescript-eslint/no-non-null-assertion */
 
 import { AdminConfig } from './admin.types';
-import { Favorite, IStorage, PlayRecord, SkipConfig } from './types';
+import {
+  Favorite,
+  IStorage,
+  PlayRecord,
+  SkipConfig,
+  SourceAvailability,
+  SourcePreferences,
+} from './types';
 
 // 搜索历史最大条数
 const SEARCH_HISTORY_LIMIT = 20;
@@ -343,6 +350,12 @@ export class D1Storage implements IStorage {
         db
           .prepare('DELETE FROM skip_configs WHERE username = ?')
           .bind(userName),
+        db
+          .prepare('DELETE FROM source_preferences WHERE username = ?')
+          .bind(userName),
+        db
+          .prepare('DELETE FROM source_availability WHERE username = ?')
+          .bind(userName),
       ];
 
       await db.batch(statements);
@@ -584,4 +597,185 @@ export class D1Storage implements IStorage {
       throw err;
     }
   }
+
+  // ---------- 播放源偏好 ----------
+  // 全体用户的汇总以空用户名存储
+  async getSourcePreferences(
+    userName: string | null,
+    titleKey: string
+  ): Promise<SourcePreferences | null> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare(
+          'SELECT data FROM source_preferences WHERE username = ? AND title_key = ?'
+        )
+        .bind(userName || '', titleKey)
+        .first<{ data: string }>();
+
+      return result ? (JSON.parse(result.data) as SourcePreferences) : null;
+    } catch (err) {
+      console.error('Failed to get source preferences:', err);
+      throw err;
+    }
+  }
+
+  async setSourcePreferences(
+    userName: string | null,
+    titleKey: string,
+    preferences: SourcePreferences
+  ): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          `
+          INSERT OR REPLACE INTO source_preferences
+          (username, title_key, data, updated_at)
+          VALUES (?, ?, ?, ?)
+        `
+        )
+        .bind(userName || '', titleKey, JSON.stringify(preferences), Date.now())
+        .run();
+    } catch (err) {
+      console.error('Failed to set source preferences:', err);
+      throw err;
+    }
+  }
+
+  // ---------- 源可用性 ----------
+  async getAllSourceAvailability(
+    userName: string
+  ): Promise<{ [key: string]: SourceAvailability }> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare('SELECT key, data FROM source_availability WHERE username = ?')
+        .bind(userName)
+        .all<{ key: string; data: string }>();
+
+      const availability: { [key: string]: SourceAvailability } = {};
+      result.results.forEach((row) => {
+        availability[row.key] = JSON.parse(row.data) as SourceAvailability;
+      });
+      return availability;
+    } catch (err) {
+      console.error('Failed to get source availability:', err);
+      throw err;
+    }
+  }
+
+  async setSourceAvailability(
+    userName: string,
+    key: string,
+    availability: SourceAvailability
+  ): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          `
+          INSERT OR REPLACE INTO source_availability
+          (username, key, data, updated_at)
+          VALUES (?, ?, ?, ?)
+        `
+        )
+        .bind(userName, key, JSON.stringify(availability), Date.now())
+        .run();
+    } catch (err) {
+      console.error('Failed to set source availability:', err);
+      throw err;
+    }
+  }
+
+  async deleteSourceAvailability(userName: string, key: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          'DELETE FROM source_availability WHERE username = ? AND key = ?'
+        )
+        .bind(userName, key)
+        .run();
+    } catch (err) {
+      console.error('Failed to delete source availability:', err);
+      throw err;
+    }
+  }
+
+  // ---------- MacCMS vod_id 登记表 ----------
+  async registerVodId(key: string): Promise<number> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare('INSERT OR IGNORE INTO vod_ids (key) VALUES (?)')
+        .bind(key)
+        .run();
+      const result = await db
+        .prepare('SELECT id FROM vod_ids WHERE key = ?')
+        .bind(key)
+        .first<{ id: number }>();
+
+      return result!.id;
+    } catch (err) {
+      console.error('Failed to register vod id:', err);
+      throw err;
+    }
+  }
+
+  async getVodKey(vodId: number): Promise<string | null> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare('SELECT key FROM vod_ids WHERE id = ?')
+        .bind(vodId)
+        .first<{ key: string }>();
+
+      return result ? result.key : null;
+    } catch (err) {
+      console.error('Failed to get vod key:', err);
+      throw err;
+    }
+  }
+
+  // ---------- 共享缓存 ----------
+  async getCache(key: string): Promise<string | null> {
+    try {
+      const db = await this.getDatabase();
+      const result = await db
+        .prepare('SELECT value, expires_at FROM cache WHERE key = ?')
+        .bind(key)
+        .first<{ value: string; expires_at: number }>();
+
+      if (!result) return null;
+      if (result.expires_at <= Date.now()) {
+        await db.prepare('DELETE FROM cache WHERE key = ?').bind(key).run();
+        return null;
+      }
+
+      return result.value;
+    } catch (err) {
+      console.error('Failed to get cache:', err);
+      throw err;
+    }
+  }
+
+  async setCache(
+    key: string,
+    value: string,
+    ttlSeconds: number
+  ): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db
+        .prepare(
+          'INSERT OR REPLACE INTO cache (key, value, expires_at) VALUES (?, ?, ?)'
+        )
+        .bind(key, value, Date.now() + ttlSeconds * 1000)
+        .run();
+    } catch (err) {
+      console.error('Failed to set cache:', err);
+      throw err;
+    }
+  }
 }
@@ -15,7 +15,7 @@
  */
 
 import { getAuthInfoFromBrowserCookie } from './auth';
-import { SkipConfig } from './types';
+import { SkipConfig, SourceAvailability } from './types';
 
 // 全局错误触发函数
 function triggerGlobalError(message: string) {
@@ -1597,3 +1597,101 @@ export async function deleteSkipConfig(
     throw err;
   }
 }
+
+// ---------------- 播放源偏好 ----------------
+
+export type SourcePreferenceEvent = 'pick' | 'switch' | 'leave' | 'fail';
+
+/**
+ * 获取作品各播放源的历史偏好排序（得分从高到低）。
+ * 偏好依赖服务端存储，localStorage 模式下始终为空。
+ */
+export async function getSourcePreferenceRanking(
+  title: string,
+  year?: string
+): Promise<Array<{ source: string; score: number }>> {
+  if (STORAGE_TYPE === 'localstorage' || typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const params = new URLSearchParams({ title, year: year || '' });
+    const data = await fetchFromApi<{
+      ranking?: Array<{ source: string; score: number }>;
+    }>(`/api/source/preference?${params.toString()}`);
+    return data.ranking || [];
+  } catch (err) {
+    console.error('获取播放源偏好失败:', err);
+    return [];
+  }
+}
+
+/**
+ * 上报播放源事件（优选播放、手动切换、离开、播放失败），失败时静默忽略
+ */
+export async function reportSourceEvent(
+  title: string,
+  year: string | undefined,
+  source: string,
+  event: SourcePreferenceEvent
+): Promise<void> {
+  if (STORAGE_TYPE === 'localstorage' || typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    await fetchWithAuth('/api/source/preference', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ title, year, source, event }),
+    });
+  } catch (err) {
+    console.error('上报播放源偏好失败:', err);
+  }
+}
+
+// ---------------- 源可用性 ----------------
+
+/**
+ * 获取收藏与播放记录的源可用性（key 为 source+id），由服务端定时任务检测。
+ * localStorage 模式下没有定时任务，始终为空。
+ */
+export async function getSourceAvailability(): Promise<
+  Record<string, SourceAvailability>
+> {
+  if (STORAGE_TYPE === 'localstorage' || typeof window === 'undefined') {
+    return {};
+  }
+
+  try {
+    const data = await fetchFromApi<{
+      availability?: Record<string, SourceAvailability>;
+    }>('/api/source/availability');
+    return data.availability || {};
+  } catch (err) {
+    console.error('获取源可用性失败:', err);
+    return {};
+  }
+}
+
+/**
+ * 把失效条目的收藏与播放记录迁移到检测到的替代源，完成后刷新本地缓存
+ */
+export async function acceptSourceReplacement(key: string): Promise<void> {
+  try {
+    await fetchWithAuth('/api/source/availability', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ key }),
+    });
+    await refreshAllCache();
+  } catch (err) {
+    console.error('迁移到替代源失败:', err);
+    triggerGlobalError('迁移到替代源失败');
+    throw err;
+  }
+}
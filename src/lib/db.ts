@@ -3,7 +3,14 @@
 import { AdminConfig } from './admin.types';
 import { D1Storage } from './d1.db';
 import { RedisStorage } from './redis.db';
-import { Favorite, IStorage, PlayRecord, SkipConfig } from './types';
+import {
+  Favorite,
+  IStorage,
+  PlayRecord,
+  SkipConfig,
+  SourceAvailability,
+  SourcePreferences,
+} from './types';
 import { UpstashRedisStorage } from './upstash.db';
 
 // storage type 常量: 'localstorage' | 'redis' | 'd1' | 'upstash'，默认 'localstorage'
@@ -223,6 +230,76 @@ export class DbManager {
     }
     return {};
   }
+
+  // ---------- 播放源偏好 ----------
+  async getSourcePreferences(
+    userName: string | null,
+    titleKey: string
+  ): Promise<SourcePreferences | null> {
+    if (typeof (this.storage as any).getSourcePreferences === 'function') {
+      return (this.storage as any).getSourcePreferences(userName, titleKey);
+    }
+    return null;
+  }
+
+  async setSourcePreferences(
+    userName: string | null,
+    titleKey: string,
+    preferences: SourcePreferences
+  ): Promise<void> {
+    if (typeof (this.storage as any).setSourcePreferences === 'function') {
+      await (this.storage as any).setSourcePreferences(
+        userName,
+        titleKey,
+        preferences
+      );
+    }
+  }
+
+  // ---------- 源可用性 ----------
+  async getAllSourceAvailability(
+    userName: string
+  ): Promise<{ [key: string]: SourceAvailability }> {
+    if (typeof (this.storage as any).getAllSourceAvailability === 'function') {
+      return (this.storage as any).getAllSourceAvailability(userName);
+    }
+    return {};
+  }
+
+  async setSourceAvailability(
+    userName: string,
+    key: string,
+    availability: SourceAvailability
+  ): Promise<void> {
+    if (typeof (this.storage as any).setSourceAvailability === 'function') {
+      await (this.storage as any).setSourceAvailability(
+        userName,
+        key,
+        availability
+      );
+    }
+  }
+
+  async deleteSourceAvailability(userName: string, key: string): Promise<void> {
+    if (typeof (this.storage as any).deleteSourceAvailability === 'function') {
+      await (this.storage as any).deleteSourceAvailability(userName, key);
+    }
+  }
+
+  // ---------- MacCMS vod_id 登记表 ----------
+  async registerVodId(key: string): Promise<number | null> {
+    if (typeof (this.storage as any).registerVodId === 'function') {
+      return (this.storage as any).registerVodId(key);
+    }
+    return null;
+  }
+
+  async getVodKey(vodId: number): Promise<string | null> {
+    if (typeof (this.storage as any).getVodKey === 'function') {
+      return (this.storage as any).getVodKey(vodId);
+    }
+    return null;
+  }
 }
 
 // 导出默认实例
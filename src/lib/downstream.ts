@@ -1,18 +1,54 @@
-import { API_CONFIG, ApiSite, getConfig } from '@/lib/config';
+import { SourceType } from '@/lib/admin.types';
+import { expandSearchQuery, rememberTitles } from '@/lib/chinese';
+import { ApiSite, getCacheTime, getConfig } from '@/lib/config';
+import { epornerAdapter } from '@/lib/eporner.adapter';
+import { htmlAdapter } from '@/lib/html.adapter';
+import { maccmsAdapter, maccmsXmlAdapter } from '@/lib/maccms.adapter';
+import { getOrLoadCache, normalizeCacheQuery } from '@/lib/server.cache';
+import {
+  BUILTIN_PROXY,
+  getSourceRoute,
+  SourceAdapter,
+  SourceCategory,
+  SourceListOptions,
+  SourcePage,
+} from '@/lib/source.adapter';
+import {
+  recordRouteResult,
+  SourceRoute,
+  withSourceHealth,
+} from '@/lib/source.health';
 import { SearchResult } from '@/lib/types';
-import { cleanHtmlTags } from '@/lib/utils';
 
-interface ApiSearchItem {
-  vod_id: string;
-  vod_name: string;
-  vod_pic: string;
-  vod_remarks?: string;
-  vod_play_url?: string;
-  vod_class?: string;
-  vod_year?: string;
-  vod_content?: string;
-  vod_douban_id?: number;
-  type_name?: string;
+// 分类列表极少变化，至少缓存一天
+const CATEGORY_CACHE_TIME = 24 * 60 * 60;
+
+const adapters: { [type in SourceType]?: SourceAdapter } = {
+  maccms: maccmsAdapter,
+  maccms_xml: maccmsXmlAdapter,
+  html: htmlAdapter,
+  eporner: epornerAdapter,
+};
+
+/**
+ * 注册（或覆盖）某种源类型的适配器
+ */
+export function registerSourceAdapter(adapter: SourceAdapter) {
+  adapters[adapter.type] = adapter;
+}
+
+function resolveSourceType(apiSite: ApiSite): SourceType {
+  if (apiSite.type) return apiSite.type;
+  if (apiSite.detail) return 'html';
+  return /\/at\/xml\b/.test(apiSite.api) ? 'maccms_xml' : 'maccms';
+}
+
+/**
+ * 按源类型选择适配器；未指定类型时，配置了 detail 的源按 HTML 抓取处理，
+ * 接口地址为 at/xml 的按 MacCMS XML 处理，其余按 MacCMS JSON 处理
+ */
+export function getSourceAdapter(apiSite: ApiSite): SourceAdapter {
+  return adapters[resolveSourceType(apiSite)] || maccmsAdapter;
 }
 
 export async function searchFromApi(
@@ -20,325 +56,213 @@ export async function searchFromApi(
   query: string
 ): Promise<SearchResult[]> {
   try {
-    const apiBaseUrl = apiSite.api;
-    const apiUrl =
-      apiBaseUrl + API_CONFIG.search.path + encodeURIComponent(query);
-    const apiName = apiSite.name;
-
-    // 添加超时处理
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-
-    const response = await fetch(apiUrl, {
-      headers: API_CONFIG.search.headers,
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      return [];
-    }
-
-    const data = await response.json();
-    if (
-      !data ||
-      !data.list ||
-      !Array.isArray(data.list) ||
-      data.list.length === 0
-    ) {
-      return [];
-    }
-    // 处理第一页结果
-    const results = data.list.map((item: ApiSearchItem) => {
-      let episodes: string[] = [];
-
-      // 使用正则表达式从 vod_play_url 提取 m3u8 链接
-      if (item.vod_play_url) {
-        const m3u8Regex = /\$(https?:\/\/[^"'\s]+?\.m3u8)/g;
-        // 先用 $$$ 分割
-        const vod_play_url_array = item.vod_play_url.split('$$$');
-        // 对每个分片做匹配，取匹配到最多的作为结果
-        vod_play_url_array.forEach((url: string) => {
-          const matches = url.match(m3u8Regex) || [];
-          if (matches.length > episodes.length) {
-            episodes = matches;
-          }
-        });
-      }
-
-      episodes = Array.from(new Set(episodes)).map((link: string) => {
-        link = link.substring(1); // 去掉开头的 $
-        const parenIndex = link.indexOf('(');
-        return parenIndex > 0 ? link.substring(0, parenIndex) : link;
-      });
-
-      return {
-        id: item.vod_id.toString(),
-        title: item.vod_name.trim().replace(/\s+/g, ' '),
-        poster: item.vod_pic,
-        episodes,
-        source: apiSite.key,
-        source_name: apiName,
-        class: item.vod_class,
-        year: item.vod_year
-          ? item.vod_year.match(/\d{4}/)?.[0] || ''
-          : 'unknown',
-        desc: cleanHtmlTags(item.vod_content || ''),
-        type_name: item.type_name,
-        douban_id: item.vod_douban_id,
-      };
-    });
-
-    const config = await getConfig();
-    const MAX_SEARCH_PAGES: number = config.SiteConfig.SearchDownstreamMaxPage;
-
-    // 获取总页数
-    const pageCount = data.pagecount || 1;
-    // 确定需要获取的额外页数
-    const pagesToFetch = Math.min(pageCount - 1, MAX_SEARCH_PAGES - 1);
-
-    // 如果有额外页数，获取更多页的结果
-    if (pagesToFetch > 0) {
-      const additionalPagePromises = [];
-
-      for (let page = 2; page <= pagesToFetch + 1; page++) {
-        const pageUrl =
-          apiBaseUrl +
-          API_CONFIG.search.pagePath
-            .replace('{query}', encodeURIComponent(query))
-            .replace('{page}', page.toString());
-
-        const pagePromise = (async () => {
-          try {
-            const pageController = new AbortController();
-            const pageTimeoutId = setTimeout(
-              () => pageController.abort(),
-              8000
-            );
-
-            const pageResponse = await fetch(pageUrl, {
-              headers: API_CONFIG.search.headers,
-              signal: pageController.signal,
-            });
-
-            clearTimeout(pageTimeoutId);
-
-            if (!pageResponse.ok) return [];
-
-            const pageData = await pageResponse.json();
-
-            if (!pageData || !pageData.list || !Array.isArray(pageData.list))
-              return [];
-
-            return pageData.list.map((item: ApiSearchItem) => {
-              let episodes: string[] = [];
-
-              // 使用正则表达式从 vod_play_url 提取 m3u8 链接
-              if (item.vod_play_url) {
-                const m3u8Regex = /\$(https?:\/\/[^"'\s]+?\.m3u8)/g;
-                episodes = item.vod_play_url.match(m3u8Regex) || [];
-              }
-
-              episodes = Array.from(new Set(episodes)).map((link: string) => {
-                link = link.substring(1); // 去掉开头的 $
-                const parenIndex = link.indexOf('(');
-                return parenIndex > 0 ? link.substring(0, parenIndex) : link;
-              });
-
-              return {
-                id: item.vod_id.toString(),
-                title: item.vod_name.trim().replace(/\s+/g, ' '),
-                poster: item.vod_pic,
-                episodes,
-                source: apiSite.key,
-                source_name: apiName,
-                class: item.vod_class,
-                year: item.vod_year
-                  ? item.vod_year.match(/\d{4}/)?.[0] || ''
-                  : 'unknown',
-                desc: cleanHtmlTags(item.vod_content || ''),
-                type_name: item.type_name,
-                douban_id: item.vod_douban_id,
-              };
-            });
-          } catch (error) {
-            return [];
-          }
-        })();
-
-        additionalPagePromises.push(pagePromise);
-      }
-
-      // 等待所有额外页的结果
-      const additionalResults = await Promise.all(additionalPagePromises);
-
-      // 合并所有页的结果
-      additionalResults.forEach((pageResults) => {
-        if (pageResults.length > 0) {
-          results.push(...pageResults);
-        }
-      });
-    }
-
-    return results;
+    return await searchFromApiOrThrow(apiSite, query);
   } catch (error) {
     return [];
   }
 }
 
-// 匹配 m3u8 链接的正则
-const M3U8_PATTERN = /(https?:\/\/[^"'\s]+?\.m3u8)/g;
-
-export async function getDetailFromApi(
+/**
+ * 与 searchFromApi 相同，但首页请求失败（超时、HTTP 错误、解析失败）时抛出异常，
+ * 源处于熔断状态时抛出 SourceUnavailableError，
+ * 供需要区分"无结果"与"源不可用"的调用方使用（如流式搜索）。
+ *
+ * 关键词会扩展为简体、繁体及拼音命中的标题等变体分别请求，结果按 id 去重合并，
+ * 全部变体均失败时才抛出异常。
+ */
+export async function searchFromApiOrThrow(
   apiSite: ApiSite,
-  id: string
-): Promise<SearchResult> {
-  if (apiSite.detail) {
-    return handleSpecialSourceDetail(id, apiSite);
+  query: string
+): Promise<SearchResult[]> {
+  const variants = expandSearchQuery(query);
+  if (variants.length <= 1) {
+    return searchVariantOrThrow(apiSite, variants[0] ?? query);
   }
 
-  const detailUrl = `${apiSite.api}${API_CONFIG.detail.path}${id}`;
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-  const response = await fetch(detailUrl, {
-    headers: API_CONFIG.detail.headers,
-    signal: controller.signal,
-  });
-
-  clearTimeout(timeoutId);
-
-  if (!response.ok) {
-    throw new Error(`详情请求失败: ${response.status}`);
+  const settled = await Promise.allSettled(
+    variants.map((variant) => searchVariantOrThrow(apiSite, variant))
+  );
+  const fulfilled = settled.filter(
+    (item): item is PromiseFulfilledResult<SearchResult[]> =>
+      item.status === 'fulfilled'
+  );
+  if (fulfilled.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
   }
 
-  const data = await response.json();
+  const seen = new Set<string>();
+  return fulfilled
+    .flatMap((item) => item.value)
+    .filter((result) => {
+      if (seen.has(result.id)) return false;
+      seen.add(result.id);
+      return true;
+    });
+}
 
-  if (
-    !data ||
-    !data.list ||
-    !Array.isArray(data.list) ||
-    data.list.length === 0
-  ) {
-    throw new Error('获取到的详情内容无效');
-  }
+// 单个关键词的搜索，结果按 源 + 规范化关键词 写入服务端共享缓存，有效期为 SiteInterfaceCacheTime
+async function searchVariantOrThrow(
+  apiSite: ApiSite,
+  query: string
+): Promise<SearchResult[]> {
+  const [cacheTime, config] = await Promise.all([getCacheTime(), getConfig()]);
+  const maxPages = config.SiteConfig.SearchDownstreamMaxPage;
+  const cacheKey = `search:${apiSite.key}:${maxPages}:${normalizeCacheQuery(
+    query
+  )}`;
+  const results = await getOrLoadCache(cacheKey, { ttl: cacheTime }, () =>
+    fetchSearchFromApi(apiSite, query)
+  );
+  // 记录标题供拼音关键词匹配
+  rememberTitles(results.map((result) => result.title));
+  return results;
+}
 
-  const videoDetail = data.list[0];
-  let episodes: string[] = [];
+async function fetchSearchFromApi(
+  apiSite: ApiSite,
+  query: string
+): Promise<SearchResult[]> {
+  const adapter = getSourceAdapter(apiSite);
 
-  // 处理播放源拆分
-  if (videoDetail.vod_play_url) {
-    const playSources = videoDetail.vod_play_url.split('$$$');
-    if (playSources.length > 0) {
-      const mainSource = playSources[0];
-      const episodeList = mainSource.split('#');
-      episodes = episodeList
-        .map((ep: string) => {
-          const parts = ep.split('$');
-          return parts.length > 1 ? parts[1] : '';
-        })
-        .filter(
-          (url: string) =>
-            url && (url.startsWith('http://') || url.startsWith('https://'))
-        );
-    }
+  // 首页请求计入源健康统计，熔断中的源直接抛出 SourceUnavailableError
+  const firstPage = await withSourceHealth(
+    apiSite.key,
+    () => adapter.search(apiSite, query, 1),
+    getSourceRoute(apiSite)
+  );
+  const results = [...firstPage.list];
+  if (results.length === 0) {
+    return [];
   }
 
-  // 如果播放源为空，则尝试从内容中解析 m3u8
-  if (episodes.length === 0 && videoDetail.vod_content) {
-    const matches = videoDetail.vod_content.match(M3U8_PATTERN) || [];
-    episodes = matches.map((link: string) => link.replace(/^\$/, ''));
+  const config = await getConfig();
+  const MAX_SEARCH_PAGES: number = config.SiteConfig.SearchDownstreamMaxPage;
+
+  // 确定需要获取的额外页数
+  const pagesToFetch = Math.min(firstPage.pageCount - 1, MAX_SEARCH_PAGES - 1);
+
+  // 如果有额外页数，获取更多页的结果，单页失败不影响整体
+  if (pagesToFetch > 0) {
+    const additionalResults = await Promise.all(
+      Array.from({ length: pagesToFetch }, (_, i) =>
+        adapter
+          .search(apiSite, query, i + 2)
+          .then((page) => page.list)
+          .catch(() => [] as SearchResult[])
+      )
+    );
+    additionalResults.forEach((pageResults) => results.push(...pageResults));
   }
 
-  return {
-    id: id.toString(),
-    title: videoDetail.vod_name,
-    poster: videoDetail.vod_pic,
-    episodes,
-    source: apiSite.key,
-    source_name: apiSite.name,
-    class: videoDetail.vod_class,
-    year: videoDetail.vod_year
-      ? videoDetail.vod_year.match(/\d{4}/)?.[0] || ''
-      : 'unknown',
-    desc: cleanHtmlTags(videoDetail.vod_content),
-    type_name: videoDetail.type_name,
-    douban_id: videoDetail.vod_douban_id,
-  };
+  return results;
 }
 
-async function handleSpecialSourceDetail(
-  id: string,
-  apiSite: ApiSite
+export async function getDetailFromApi(
+  apiSite: ApiSite,
+  id: string
 ): Promise<SearchResult> {
-  const detailUrl = `${apiSite.detail}/index.php/vod/detail/id/${id}.html`;
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-  const response = await fetch(detailUrl, {
-    headers: API_CONFIG.detail.headers,
-    signal: controller.signal,
-  });
-
-  clearTimeout(timeoutId);
-
-  if (!response.ok) {
-    throw new Error(`详情页请求失败: ${response.status}`);
-  }
-
-  const html = await response.text();
-  let matches: string[] = [];
-
-  if (apiSite.key === 'ffzy') {
-    const ffzyPattern =
-      /\$(https?:\/\/[^"'\s]+?\/\d{8}\/\d+_[a-f0-9]+\/index\.m3u8)/g;
-    matches = html.match(ffzyPattern) || [];
-  }
-
-  if (matches.length === 0) {
-    const generalPattern = /\$(https?:\/\/[^"'\s]+?\.m3u8)/g;
-    matches = html.match(generalPattern) || [];
-  }
-
-  // 去重并清理链接前缀
-  matches = Array.from(new Set(matches)).map((link: string) => {
-    link = link.substring(1); // 去掉开头的 $
-    const parenIndex = link.indexOf('(');
-    return parenIndex > 0 ? link.substring(0, parenIndex) : link;
-  });
+  const cacheTime = await getCacheTime();
+  return getOrLoadCache(`detail:${apiSite.key}:${id}`, { ttl: cacheTime }, () =>
+    fetchDetailFromApi(apiSite, id)
+  );
+}
 
-  // 提取标题
-  const titleMatch = html.match(/<h1[^>]*>([^<]+)<\/h1>/);
-  const titleText = titleMatch ? titleMatch[1].trim() : '';
+/**
+ * 不经过共享缓存直接请求详情，用于源可用性检测等需要实时结果的场景。
+ * 同样计入源健康统计，条目已下架时抛出 SourceItemNotFoundError，不计为源失败
+ */
+export async function fetchDetailFromApi(
+  apiSite: ApiSite,
+  id: string
+): Promise<SearchResult> {
+  const adapter = getSourceAdapter(apiSite);
+  return withSourceHealth(
+    apiSite.key,
+    () => adapter.detail(apiSite, id),
+    getSourceRoute(apiSite)
+  );
+}
 
-  // 提取描述
-  const descMatch = html.match(
-    /<div[^>]*class=["']sketch["'][^>]*>([\s\S]*?)<\/div>/
+/**
+ * 源的原生分类（?ac=list），按源缓存
+ */
+export async function getCategoriesFromApi(
+  apiSite: ApiSite
+): Promise<SourceCategory[]> {
+  const cacheTime = Math.max(await getCacheTime(), CATEGORY_CACHE_TIME);
+  return getOrLoadCache(`categories:${apiSite.key}`, { ttl: cacheTime }, () =>
+    withSourceHealth(
+      apiSite.key,
+      () => getSourceAdapter(apiSite).categories(apiSite),
+      getSourceRoute(apiSite)
+    )
   );
-  const descText = descMatch ? cleanHtmlTags(descMatch[1]) : '';
+}
 
-  // 提取封面
-  const coverMatch = html.match(/(https?:\/\/[^"'\s]+?\.jpg)/g);
-  const coverUrl = coverMatch ? coverMatch[0].trim() : '';
+/**
+ * 按分类、更新时间分页浏览源的内容（?ac=videolist&t=&pg=&h=）
+ */
+export async function getListFromApi(
+  apiSite: ApiSite,
+  options: SourceListOptions
+): Promise<SourcePage> {
+  const cacheTime = await getCacheTime();
+  const cacheKey = `list:${apiSite.key}:${options.typeId || ''}:${
+    options.page || 1
+  }:${options.hours || ''}`;
+  return getOrLoadCache(cacheKey, { ttl: cacheTime }, () =>
+    withSourceHealth(
+      apiSite.key,
+      () => getSourceAdapter(apiSite).latest(apiSite, options),
+      getSourceRoute(apiSite)
+    )
+  );
+}
 
-  // 提取年份
-  const yearMatch = html.match(/>(\d{4})</);
-  const yearText = yearMatch ? yearMatch[1] : 'unknown';
+export interface RouteCheckResult {
+  route: SourceRoute;
+  ok: boolean;
+  latency: number;
+  error?: string;
+}
 
-  return {
-    id,
-    title: titleText,
-    poster: coverUrl,
-    episodes: matches,
-    source: apiSite.key,
-    source_name: apiSite.name,
-    class: '',
-    year: yearText,
-    desc: descText,
-    type_name: '',
-    douban_id: 0,
-  };
+/**
+ * 分别直连和经代理请求一次源的分类列表，结果只计入各线路的统计，不影响熔断。
+ * 源未配置代理时使用内置代理作对比
+ */
+export async function compareSourceRoutes(
+  apiSite: ApiSite
+): Promise<RouteCheckResult[]> {
+  const request = apiSite.request || {};
+  const variants: Array<[SourceRoute, ApiSite]> = [
+    ['direct', { ...apiSite, request: { ...request, proxy: undefined } }],
+    [
+      'proxy',
+      {
+        ...apiSite,
+        request: { ...request, proxy: request.proxy || BUILTIN_PROXY },
+      },
+    ],
+  ];
+
+  return Promise.all(
+    variants.map(async ([route, site]) => {
+      const start = Date.now();
+      try {
+        await getSourceAdapter(site).categories(site);
+        const latency = Date.now() - start;
+        recordRouteResult(apiSite.key, route, latency);
+        return { route, ok: true, latency };
+      } catch (error) {
+        const latency = Date.now() - start;
+        recordRouteResult(apiSite.key, route, latency, error);
+        return {
+          route,
+          ok: false,
+          latency,
+          error: (error as Error)?.message || String(error),
+        };
+      }
+    })
+  );
 }
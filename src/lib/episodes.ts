@@ -0,0 +1,61 @@
+import { Episode, EpisodeKind, SearchResult } from './types';
+
+/**
+ * 剧集标题解析
+ *
+ * vod_play_url 中每集形如 "第01集$https://…m3u8"，$ 前为剧集标题。
+ * 根据标题推断剧集类型，预告、花絮等不计入总集数，
+ * 避免电影因附带预告被识别为剧集、或更新检测因预告误报新集。
+ */
+
+const TRAILER_PATTERN = /预告|片花|先导|抢先|trailer|teaser|\bpv\b/i;
+const SPECIAL_PATTERN =
+  /花絮|番外|特别|特辑|彩蛋|幕后|总集|加更|\bsp\d*\b|\bova\b|\boad\b|special|extra|bonus/i;
+
+export function inferEpisodeKind(title: string): EpisodeKind {
+  if (TRAILER_PATTERN.test(title)) return 'trailer';
+  if (SPECIAL_PATTERN.test(title)) return 'special';
+  return 'regular';
+}
+
+/**
+ * 将 "标题$地址" 形式的条目解析为剧集对象，缺少标题时以序号代替
+ */
+export function parseEpisode(entry: string, index: number): Episode {
+  const separator = entry.indexOf('$');
+  const title = separator >= 0 ? entry.substring(0, separator).trim() : '';
+  let url = (separator >= 0 ? entry.substring(separator + 1) : entry).trim();
+  const parenIndex = url.indexOf('(');
+  url = parenIndex > 0 ? url.substring(0, parenIndex) : url;
+
+  return {
+    title: title || String(index + 1),
+    url,
+    kind: title ? inferEpisodeKind(title) : 'regular',
+  };
+}
+
+/**
+ * 由地址列表生成剧集对象（无标题来源时使用）
+ */
+export function episodesFromUrls(urls: string[]): Episode[] {
+  return urls.map((url, index) => ({
+    title: String(index + 1),
+    url,
+    kind: 'regular',
+  }));
+}
+
+/**
+ * 正片集数：不含预告与花絮，全部为非正片时退回总条目数
+ */
+export function countRegularEpisodes(
+  result: Pick<SearchResult, 'episodes' | 'episode_list'>
+): number {
+  const list = result.episode_list;
+  if (!list || list.length === 0) {
+    return result.episodes?.length || 0;
+  }
+  const regular = list.filter((ep) => ep.kind === 'regular').length;
+  return regular > 0 ? regular : list.length;
+}
@@ -0,0 +1,57 @@
+import { ApiSite } from './config';
+import { epornerClient, EpornerVideo } from './eporner.client';
+import { extractYear, SourceAdapter } from './source.adapter';
+import { SourceItemNotFoundError } from './source.health';
+import { SearchResult } from './types';
+
+/**
+ * Eporner API 适配器，播放地址为嵌入页链接
+ */
+
+const PER_PAGE = 60;
+
+function toSearchResult(video: EpornerVideo, site: ApiSite): SearchResult {
+  const playUrl = video.embed || video.url || '';
+  return {
+    id: video.id,
+    title: (video.title || '').trim().replace(/\s+/g, ' '),
+    poster: video.default_thumb?.src || '',
+    episodes: playUrl ? [playUrl] : [],
+    source: site.key,
+    source_name: site.name,
+    class: '',
+    year: extractYear(video.added),
+    desc: video.keywords || '',
+    type_name: '伦理片',
+  };
+}
+
+export const epornerAdapter: SourceAdapter = {
+  type: 'eporner',
+
+  async search(site, query, page) {
+    const data = await epornerClient.search(query, page, PER_PAGE);
+    return {
+      list: (data.videos || []).map((video) => toSearchResult(video, site)),
+      page: data.current_page || page,
+      pageCount: data.total_pages || 1,
+      total: data.total_count || 0,
+    };
+  },
+
+  async detail(site, id) {
+    const video = await epornerClient.getVideoById(id);
+    if (!video || !video.id) {
+      throw new SourceItemNotFoundError();
+    }
+    return toSearchResult(video, site);
+  },
+
+  async categories() {
+    return [{ type_id: '3', type_name: '伦理片' }];
+  },
+
+  async latest(site, options) {
+    return epornerAdapter.search(site, 'all', options.page || 1);
+  },
+};
@@ -1,23 +1,31 @@
 import { getAvailableApiSites } from '@/lib/config';
 import { SearchResult } from '@/lib/types';
 
-import { getDetailFromApi, searchFromApi } from './downstream';
+import {
+  fetchDetailFromApi,
+  getDetailFromApi,
+  searchFromApi,
+} from './downstream';
 
 interface FetchVideoDetailOptions {
   source: string;
   id: string;
   fallbackTitle?: string;
+  // 跳过搜索与共享缓存，直接请求源的详情接口（可用性检测使用）
+  fresh?: boolean;
 }
 
 /**
  * 根据 source 与 id 获取视频详情。
  * 1. 若传入 fallbackTitle，则先调用 /api/search 搜索精确匹配。
  * 2. 若搜索未命中或未提供 fallbackTitle，则直接调用 /api/detail。
+ * fresh 为 true 时只请求源的详情接口且不读写缓存，条目下架会立即反映出来。
  */
 export async function fetchVideoDetail({
   source,
   id,
   fallbackTitle = '',
+  fresh = false,
 }: FetchVideoDetailOptions): Promise<SearchResult> {
   // 优先通过搜索接口查找精确匹配
   const apiSites = await getAvailableApiSites();
@@ -25,6 +33,9 @@ export async function fetchVideoDetail({
   if (!apiSite) {
     throw new Error('无效的API来源');
   }
+  if (fresh) {
+    return fetchDetailFromApi(apiSite, id);
+  }
   if (fallbackTitle) {
     try {
       const searchData = await searchFromApi(apiSite, fallbackTitle.trim());
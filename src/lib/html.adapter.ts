@@ -0,0 +1,142 @@
+import { HtmlScraperConfig } from './admin.types';
+import { API_CONFIG } from './config';
+import { maccmsAdapter } from './maccms.adapter';
+import { fetchSourceText, SourceAdapter } from './source.adapter';
+import { cleanHtmlTags } from './utils';
+
+/**
+ * HTML 详情页抓取适配器
+ *
+ * 搜索、分类、最近更新仍走站点的 MacCMS 接口，详情从 ApiSite.detail 站点的
+ * HTML 详情页中按正则抓取，规则可通过 SourceConfig.scraper 逐源配置。
+ */
+
+const DETAIL_TIMEOUT = 10000;
+
+export const DEFAULT_SCRAPER_CONFIG: Required<HtmlScraperConfig> = {
+  detailPath: '/index.php/vod/detail/id/{id}.html',
+  episodePattern: '\\$(https?:\\/\\/[^"\'\\s]+?\\.m3u8)',
+  titlePattern: '<h1[^>]*>([^<]+)<\\/h1>',
+  descPattern: '<div[^>]*class=["\']sketch["\'][^>]*>([\\s\\S]*?)<\\/div>',
+  posterPattern: '(https?:\\/\\/[^"\'\\s]+?\\.jpg)',
+  yearPattern: '>(\\d{4})<',
+};
+
+// 编译用户配置的正则，非法时回退默认规则
+function compilePattern(
+  pattern: string | undefined,
+  fallback: string,
+  flags = ''
+): RegExp {
+  if (pattern) {
+    try {
+      return new RegExp(pattern, flags);
+    } catch {
+      // 忽略非法正则
+    }
+  }
+  return new RegExp(fallback, flags);
+}
+
+function matchFirst(html: string, pattern: RegExp): string {
+  const match = html.match(pattern);
+  return match ? (match[1] ?? match[0]).trim() : '';
+}
+
+/**
+ * 从详情页 HTML 中抓取播放地址及基础信息
+ */
+export function scrapeDetailHtml(
+  html: string,
+  scraper: HtmlScraperConfig = {}
+): {
+  title: string;
+  poster: string;
+  episodes: string[];
+  year: string;
+  desc: string;
+} {
+  const episodePattern = compilePattern(
+    scraper.episodePattern,
+    DEFAULT_SCRAPER_CONFIG.episodePattern,
+    'g'
+  );
+  const episodes: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = episodePattern.exec(html)) !== null) {
+    let link = match[1] ?? match[0];
+    const parenIndex = link.indexOf('(');
+    link = parenIndex > 0 ? link.substring(0, parenIndex) : link;
+    if (link && !episodes.includes(link)) {
+      episodes.push(link);
+    }
+    if (match[0] === '') {
+      episodePattern.lastIndex++;
+    }
+  }
+
+  const year = matchFirst(
+    html,
+    compilePattern(scraper.yearPattern, DEFAULT_SCRAPER_CONFIG.yearPattern)
+  );
+
+  return {
+    title: matchFirst(
+      html,
+      compilePattern(scraper.titlePattern, DEFAULT_SCRAPER_CONFIG.titlePattern)
+    ),
+    poster: matchFirst(
+      html,
+      compilePattern(
+        scraper.posterPattern,
+        DEFAULT_SCRAPER_CONFIG.posterPattern
+      )
+    ),
+    episodes,
+    year: year || 'unknown',
+    desc: cleanHtmlTags(
+      matchFirst(
+        html,
+        compilePattern(scraper.descPattern, DEFAULT_SCRAPER_CONFIG.descPattern)
+      )
+    ),
+  };
+}
+
+export const htmlAdapter: SourceAdapter = {
+  type: 'html',
+
+  search: maccmsAdapter.search,
+  categories: maccmsAdapter.categories,
+  latest: maccmsAdapter.latest,
+
+  async detail(site, id) {
+    // 未配置详情站点时退回 MacCMS 接口
+    if (!site.detail) {
+      return maccmsAdapter.detail(site, id);
+    }
+
+    const detailPath = (
+      site.scraper?.detailPath || DEFAULT_SCRAPER_CONFIG.detailPath
+    ).replace('{id}', encodeURIComponent(id));
+    const html = await fetchSourceText(site, `${site.detail}${detailPath}`, {
+      headers: API_CONFIG.detail.headers,
+      timeout: DETAIL_TIMEOUT,
+    });
+    const scraped = scrapeDetailHtml(html, site.scraper);
+
+    return {
+      id,
+      title: scraped.title,
+      poster: scraped.poster,
+      episodes: scraped.episodes,
+      source: site.key,
+      source_name: site.name,
+      class: '',
+      year: scraped.year,
+      desc: scraped.desc,
+      type_name: '',
+      douban_id: 0,
+    };
+  },
+};
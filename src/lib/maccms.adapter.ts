@@ -0,0 +1,272 @@
+import { API_CONFIG, ApiSite } from './config';
+import { episodesFromUrls, parseEpisode } from './episodes';
+import { isXmlPayload, parseMacCMSXml } from './maccms.xml';
+import {
+  extractYear,
+  fetchSourceText,
+  SourceAdapter,
+  SourceCategory,
+  SourceListOptions,
+  SourcePage,
+} from './source.adapter';
+import { SourceItemNotFoundError } from './source.health';
+import { PlayLine, SearchResult } from './types';
+import { cleanHtmlTags } from './utils';
+
+/**
+ * 苹果CMS V10 接口适配器（?ac=videolist / ?ac=list），兼容 JSON 与 XML（at/xml）两种输出
+ *
+ * 部分站点直接提供 /api/json.php 固定数据源，不接受搜索参数，
+ * 此时原样请求接口地址并在本地按关键词过滤。
+ */
+
+export interface MacCMSApiItem {
+  vod_id: string | number;
+  vod_name: string;
+  vod_pic: string;
+  vod_remarks?: string;
+  vod_play_from?: string;
+  vod_play_url?: string;
+  vod_class?: string;
+  vod_year?: string;
+  vod_content?: string;
+  vod_blurb?: string;
+  vod_douban_id?: number;
+  vod_time?: string;
+  type_id?: string | number;
+  type_name?: string;
+}
+
+export interface MacCMSApiResponse {
+  code?: number;
+  page?: number | string;
+  pagecount?: number | string;
+  total?: number | string;
+  list?: MacCMSApiItem[];
+  class?: Array<{
+    type_id: string | number;
+    type_name: string;
+    type_pid?: string | number;
+  }>;
+}
+
+const SEARCH_TIMEOUT = 8000;
+const DETAIL_TIMEOUT = 10000;
+
+// 匹配 m3u8 链接的正则
+const M3U8_PATTERN = /(https?:\/\/[^"'\s]+?\.m3u8)/g;
+
+// 搜索结果只保留 m3u8 剧集；详情接受任意 http(s) 播放地址（mp4 等直链）
+const M3U8_URL_PATTERN = /^https?:\/\/.+\.m3u8/;
+const HTTP_URL_PATTERN = /^https?:\/\//;
+
+function isFixedFeed(site: ApiSite): boolean {
+  return site.api.includes('/api/json.php');
+}
+
+/**
+ * 解析全部播放线路：vod_play_from 与 vod_play_url 均以 $$$ 分隔、一一对应，
+ * 仅保留含匹配 urlPattern（默认为 m3u8）剧集的线路
+ */
+export function extractPlayLines(
+  playFrom?: string,
+  playUrl?: string,
+  urlPattern: RegExp = M3U8_URL_PATTERN
+): PlayLine[] {
+  if (!playUrl) return [];
+
+  const names = (playFrom || '').split('$$$');
+  const lines: PlayLine[] = [];
+  playUrl.split('$$$').forEach((line, index) => {
+    const seen = new Set<string>();
+    const episodes = line
+      .split('#')
+      .map((entry, i) => parseEpisode(entry, i))
+      .filter((ep) => {
+        if (!urlPattern.test(ep.url) || seen.has(ep.url)) {
+          return false;
+        }
+        seen.add(ep.url);
+        return true;
+      });
+    if (episodes.length > 0) {
+      lines.push({
+        name: names[index]?.trim() || `线路${index + 1}`,
+        episodes,
+      });
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * 选出默认线路：剧集最多者，数量相同时取靠前的
+ */
+export function pickDefaultLine(lines: PlayLine[]): PlayLine | undefined {
+  return lines.reduce<PlayLine | undefined>(
+    (best, line) =>
+      !best || line.episodes.length > best.episodes.length ? line : best,
+    undefined
+  );
+}
+
+/**
+ * 从 vod_play_url 提取默认线路的 m3u8 剧集链接
+ */
+export function extractEpisodes(playUrl?: string): string[] {
+  const line = pickDefaultLine(extractPlayLines(undefined, playUrl));
+  return line ? line.episodes.map((ep) => ep.url) : [];
+}
+
+/**
+ * 将 MacCMS 条目转换为 SearchResult
+ * forDetail 为 true 时按详情处理，接受任意 http(s) 播放地址；默认线路均取剧集最多的一条
+ */
+export function toSearchResult(
+  item: MacCMSApiItem,
+  site: ApiSite,
+  forDetail = false
+): SearchResult {
+  const playLines = extractPlayLines(
+    item.vod_play_from,
+    item.vod_play_url,
+    forDetail ? HTTP_URL_PATTERN : M3U8_URL_PATTERN
+  );
+
+  // 如果播放源为空，则尝试从内容中解析 m3u8
+  if (playLines.length === 0 && item.vod_content) {
+    const matches = item.vod_content.match(M3U8_PATTERN) || [];
+    if (matches.length > 0) {
+      playLines.push({
+        name: '默认',
+        episodes: episodesFromUrls(Array.from(new Set(matches))),
+      });
+    }
+  }
+
+  const defaultLine = pickDefaultLine(playLines);
+
+  return {
+    id: String(item.vod_id),
+    title: (item.vod_name || '').trim().replace(/\s+/g, ' '),
+    poster: item.vod_pic || '',
+    episodes: defaultLine ? defaultLine.episodes.map((ep) => ep.url) : [],
+    episode_list: defaultLine?.episodes || [],
+    play_lines: playLines,
+    source: site.key,
+    source_name: site.name,
+    class: item.vod_class,
+    year: extractYear(item.vod_year),
+    desc: cleanHtmlTags(item.vod_content || item.vod_blurb || ''),
+    type_name: item.type_name,
+    douban_id: item.vod_douban_id,
+  };
+}
+
+export function toSourcePage(
+  data: MacCMSApiResponse,
+  site: ApiSite,
+  page: number
+): SourcePage {
+  const list = Array.isArray(data?.list)
+    ? data.list.map((item) => toSearchResult(item, site))
+    : [];
+  return {
+    list,
+    page: Number(data?.page) || page,
+    pageCount: Number(data?.pagecount) || 1,
+    total: Number(data?.total) || list.length,
+  };
+}
+
+// 按响应内容自动识别 JSON / XML，未显式配置 maccms_xml 的 XML 源也能解析
+async function requestMacCMS(
+  site: ApiSite,
+  url: string,
+  timeout: number,
+  accept: string
+): Promise<MacCMSApiResponse> {
+  const body = await fetchSourceText(site, url, {
+    headers: { ...API_CONFIG.search.headers, Accept: accept },
+    timeout,
+  });
+  return isXmlPayload(body) ? parseMacCMSXml(body) : JSON.parse(body);
+}
+
+function createMacCMSAdapter(type: 'maccms' | 'maccms_xml'): SourceAdapter {
+  const accept =
+    type === 'maccms_xml'
+      ? 'application/xml, text/xml, */*'
+      : 'application/json, */*';
+  const request = (site: ApiSite, url: string, timeout: number) =>
+    requestMacCMS(site, url, timeout, accept);
+
+  return {
+    type,
+
+    async search(site, query, page) {
+      if (isFixedFeed(site)) {
+        const data = await request(site, site.api, SEARCH_TIMEOUT);
+        const result = toSourcePage(data, site, 1);
+        const keyword = query.trim().toLowerCase();
+        const list = result.list.filter((item) =>
+          item.title.toLowerCase().includes(keyword)
+        );
+        return { list, page: 1, pageCount: 1, total: list.length };
+      }
+
+      const url =
+        page <= 1
+          ? site.api + API_CONFIG.search.path + encodeURIComponent(query)
+          : site.api +
+            API_CONFIG.search.pagePath
+              .replace('{query}', encodeURIComponent(query))
+              .replace('{page}', page.toString());
+      const data = await request(site, url, SEARCH_TIMEOUT);
+      return toSourcePage(data, site, page);
+    },
+
+    async detail(site, id) {
+      const data = await request(
+        site,
+        `${site.api}${API_CONFIG.detail.path}${id}`,
+        DETAIL_TIMEOUT
+      );
+      if (!Array.isArray(data?.list) || data.list.length === 0) {
+        throw new SourceItemNotFoundError();
+      }
+      return { ...toSearchResult(data.list[0], site, true), id: id.toString() };
+    },
+
+    async categories(site) {
+      const data = await request(site, `${site.api}?ac=list`, SEARCH_TIMEOUT);
+      return (data?.class || []).map(
+        (c): SourceCategory => ({
+          type_id: String(c.type_id),
+          type_name: c.type_name,
+          type_pid:
+            c.type_pid !== undefined && c.type_pid !== null
+              ? String(c.type_pid)
+              : undefined,
+        })
+      );
+    },
+
+    async latest(site, options: SourceListOptions) {
+      const page = options.page || 1;
+      const params = new URLSearchParams({ ac: 'videolist', pg: String(page) });
+      if (options.typeId) params.set('t', options.typeId);
+      if (options.hours) params.set('h', String(options.hours));
+      const data = await request(
+        site,
+        `${site.api}?${params.toString()}`,
+        SEARCH_TIMEOUT
+      );
+      return toSourcePage(data, site, page);
+    },
+  };
+}
+
+export const maccmsAdapter = createMacCMSAdapter('maccms');
+export const maccmsXmlAdapter = createMacCMSAdapter('maccms_xml');
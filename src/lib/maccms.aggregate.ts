@@ -0,0 +1,325 @@
+import { AdminConfig } from './admin.types';
+import { ApiSite, getConfig } from './config';
+import { getDetailFromApi, getListFromApi, searchFromApi } from './downstream';
+import { MacCMSApiItem } from './maccms.adapter';
+import { getVodIds, getVodKey } from './maccms.vodid';
+import { Episode, SearchResult } from './types';
+import { yellowWords } from './yellow';
+
+/**
+ * 聚合 MacCMS V10 输出
+ *
+ * 把全部已启用的视频源合并为一个苹果CMS V10 接口，供 TVBox 等第三方客户端只配置一个地址：
+ * - 分类：每个源对应一个分类，type_id 由源 key 哈希得到，调整源的顺序、增删或禁用其他源
+ *   都不会改变已有分类的 ID，采集端的分类绑定保持有效
+ * - vod_id：`${source}+${id}` 经 vod_id 登记表（maccms.vodid.ts）分配整数 ID，
+ *   与采集端的整数 vod_id 兼容，同一条目在列表、搜索、详情中的 ID 始终一致
+ * 下游请求复用 downstream.ts 的缓存与健康统计，成人内容过滤规则与站内搜索一致。
+ */
+
+export interface AggregatePage {
+  list: MacCMSApiItem[];
+  page: number;
+  pagecount: number;
+  limit: number;
+  total: number;
+}
+
+export interface AggregateCategory {
+  type_id: number;
+  type_name: string;
+  type_pid: number;
+}
+
+// vod_id 登记表中的 key
+function vodKeyOf(result: SearchResult): string {
+  return `${result.source}+${result.id}`;
+}
+
+// 按 vod_id 还原源与源内 ID，未登记或格式不正确时返回 null
+async function resolveVodId(
+  vodId: string
+): Promise<{ source: string; id: string } | null> {
+  const key = await getVodKey(vodId);
+  const index = key ? key.indexOf('+') : -1;
+  if (!key || index <= 0 || index === key.length - 1) return null;
+  return { source: key.slice(0, index), id: key.slice(index + 1) };
+}
+
+// 一条线路的剧集按 MacCMS 格式拼接：标题$地址#标题$地址
+function joinEpisodes(episodes: Episode[]): string {
+  return episodes
+    .map(
+      (episode, index) =>
+        `${episode.title || `第${index + 1}集`}$${episode.url}`
+    )
+    .join('#');
+}
+
+/**
+ * SearchResult 转为 MacCMS 条目，全部播放线路以 $$$ 分隔输出
+ */
+export function toMacCMSItem(
+  result: SearchResult,
+  typeId: number,
+  vodId: number
+): MacCMSApiItem {
+  const lines =
+    result.play_lines && result.play_lines.length > 0
+      ? result.play_lines
+      : [
+          {
+            name: result.source_name,
+            episodes:
+              result.episode_list && result.episode_list.length > 0
+                ? result.episode_list
+                : result.episodes.map((url, index) => ({
+                    title: `第${index + 1}集`,
+                    url,
+                    kind: 'regular' as const,
+                  })),
+          },
+        ].filter((line) => line.episodes.length > 0);
+
+  return {
+    vod_id: vodId,
+    vod_name: result.title,
+    vod_pic: result.poster,
+    vod_remarks: result.source_name,
+    vod_play_from: lines.map((line) => line.name).join('$$$'),
+    vod_play_url: lines.map((line) => joinEpisodes(line.episodes)).join('$$$'),
+    vod_class: result.class,
+    vod_year: result.year === 'unknown' ? '' : result.year,
+    vod_content: result.desc || '',
+    vod_douban_id: result.douban_id,
+    type_id: typeId,
+    type_name: result.type_name || result.source_name,
+  };
+}
+
+// 分类 ID 上限，保持为 8 位以内的正整数
+const MAX_TYPE_ID = 99999999;
+
+// 源 key 的 FNV-1a 哈希，映射到 1 ~ MAX_TYPE_ID
+function hashTypeId(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return (hash % MAX_TYPE_ID) + 1;
+}
+
+// 分类 ID 到源的对应关系，按 key 排序后分配，哈希冲突时顺延到下一个空闲 ID
+function getSourceTypes(config: AdminConfig) {
+  const ids: { [key: string]: number } = {};
+  const used = new Set<number>();
+  config.SourceConfig.map((site) => site.key)
+    .sort()
+    .forEach((key) => {
+      let id = hashTypeId(key);
+      while (used.has(id)) id = (id % MAX_TYPE_ID) + 1;
+      used.add(id);
+      ids[key] = id;
+    });
+  return config.SourceConfig.map((site) => ({
+    site,
+    typeId: ids[site.key],
+    disabled: Boolean(site.disabled),
+  }));
+}
+
+function filterAdult(config: AdminConfig, results: SearchResult[]) {
+  if (config.SiteConfig.DisableYellowFilter) return results;
+  return results.filter(
+    (result) =>
+      !yellowWords.some((word: string) =>
+        (result.type_name || '').includes(word)
+      )
+  );
+}
+
+function typeIdOf(config: AdminConfig, source: string): number {
+  const type = getSourceTypes(config).find((item) => item.site.key === source);
+  return type ? type.typeId : 0;
+}
+
+// 登记 vod_id 后转为 MacCMS 条目
+async function toMacCMSItems(
+  config: AdminConfig,
+  results: SearchResult[]
+): Promise<MacCMSApiItem[]> {
+  const vodIds = await getVodIds(results.map(vodKeyOf));
+  return results.map((result) =>
+    toMacCMSItem(
+      result,
+      typeIdOf(config, result.source),
+      vodIds[vodKeyOf(result)]
+    )
+  );
+}
+
+// 本地分页，total 为合并后的条目数
+async function paginate(
+  config: AdminConfig,
+  results: SearchResult[],
+  page: number,
+  limit: number
+): Promise<AggregatePage> {
+  const total = results.length;
+  return {
+    list: await toMacCMSItems(
+      config,
+      results.slice((page - 1) * limit, page * limit)
+    ),
+    page,
+    pagecount: Math.max(1, Math.ceil(total / limit)),
+    limit,
+    total,
+  };
+}
+
+/**
+ * 已启用的源作为分类输出
+ */
+export async function getAggregateCategories(): Promise<AggregateCategory[]> {
+  const config = await getConfig();
+  return getSourceTypes(config)
+    .filter((type) => !type.disabled)
+    .map((type) => ({
+      type_id: type.typeId,
+      type_name: type.site.name,
+      type_pid: 0,
+    }));
+}
+
+/**
+ * 在全部已启用的源中搜索，按源的顺序合并后分页；指定 year 时只保留该年份的条目
+ */
+export async function searchAggregate(
+  keyword: string,
+  page: number,
+  limit: number,
+  year?: string
+): Promise<AggregatePage> {
+  const config = await getConfig();
+  const sites = getSourceTypes(config).filter((type) => !type.disabled);
+  const lists = await Promise.all(
+    sites.map((type) => searchFromApi(type.site, keyword))
+  );
+  const results = filterAdult(config, lists.flat()).filter(
+    (result) => !year || result.year === year
+  );
+  return paginate(config, results, page, limit);
+}
+
+/**
+ * 按 vod_id 获取详情，无法解码、源不存在或获取失败的 ID 直接跳过
+ */
+export async function getAggregateDetails(
+  vodIds: string[]
+): Promise<MacCMSApiItem[]> {
+  const config = await getConfig();
+  const items = await Promise.all(
+    vodIds.map(async (vodId) => {
+      const decoded = await resolveVodId(vodId);
+      const site = decoded
+        ? config.SourceConfig.find(
+            (item) => item.key === decoded.source && !item.disabled
+          )
+        : undefined;
+      if (!decoded || !site) return null;
+      try {
+        const detail = await getDetailFromApi(site, decoded.id);
+        return toMacCMSItem(detail, typeIdOf(config, site.key), Number(vodId));
+      } catch {
+        return null;
+      }
+    })
+  );
+  return items.filter((item): item is MacCMSApiItem => item !== null);
+}
+
+/**
+ * 按每页 size 条重新分页取源的第 page 页：源的单页条数以其第 1 页为准，
+ * 只请求覆盖该区间的源页（均经过 downstream 缓存），获取失败的源视为空
+ */
+async function fetchSourceWindow(
+  site: ApiSite,
+  page: number,
+  size: number,
+  hours?: number
+): Promise<{ list: SearchResult[]; total: number }> {
+  try {
+    const first = await getListFromApi(site, { page: 1, hours });
+    const pageSize = first.list.length;
+    if (pageSize === 0) return { list: [], total: 0 };
+
+    const start = (page - 1) * size;
+    const firstPage = Math.floor(start / pageSize) + 1;
+    const lastPage = Math.min(
+      Math.floor((start + size - 1) / pageSize) + 1,
+      Math.max(1, first.pageCount)
+    );
+    const pages = await Promise.all(
+      Array.from({ length: Math.max(0, lastPage - firstPage + 1) }, (_, i) =>
+        firstPage + i === 1
+          ? first
+          : getListFromApi(site, { page: firstPage + i, hours })
+      )
+    );
+    const offset = start - (firstPage - 1) * pageSize;
+    return {
+      list: pages.flatMap((item) => item.list).slice(offset, offset + size),
+      total: first.total || pageSize,
+    };
+  } catch {
+    return { list: [], total: 0 };
+  }
+}
+
+/**
+ * 分类列表：指定分类时为该源的分页列表，否则各源按 limit 均分后轮流合并，
+ * 每页最多 limit 条
+ */
+export async function listAggregate(options: {
+  typeId?: number;
+  page: number;
+  limit: number;
+  hours?: number;
+}): Promise<AggregatePage> {
+  const config = await getConfig();
+  const types = getSourceTypes(config).filter(
+    (type) =>
+      !type.disabled && (!options.typeId || type.typeId === options.typeId)
+  );
+
+  const size = Math.ceil(options.limit / Math.max(1, types.length));
+  const windows = await Promise.all(
+    types.map((type) =>
+      fetchSourceWindow(type.site, options.page, size, options.hours)
+    )
+  );
+
+  // 各源按更新时间倒序返回，轮流取各源的第 i 条
+  const lists = windows.map((window) => window.list);
+  const merged: SearchResult[] = [];
+  const longest = Math.max(0, ...lists.map((list) => list.length));
+  for (let i = 0; i < longest; i++) {
+    lists.forEach((list) => {
+      if (list[i]) merged.push(list[i]);
+    });
+  }
+
+  const results = filterAdult(config, merged).slice(0, options.limit);
+  return {
+    list: await toMacCMSItems(config, results),
+    page: options.page,
+    pagecount: Math.max(
+      1,
+      ...windows.map((window) => Math.ceil(window.total / size))
+    ),
+    limit: options.limit,
+    total: windows.reduce((sum, window) => sum + window.total, 0),
+  };
+}
@@ -4,6 +4,10 @@
 
 import { NextResponse } from 'next/server';
 
+import { MacCMSParamsProcessor, ProcessedParams } from './maccms.params';
+import { MacCMSTransformer } from './maccms.transformer';
+import { getOrLoadCacheWithStatus } from './server.cache';
+
 // 缓存配置接口
 export interface CacheConfig {
   defaultTTL: number; // 默认缓存时间（秒）
@@ -13,6 +17,12 @@ export interface CacheConfig {
   errorTTL: number;   // 错误响应缓存时间
 }
 
+// 响应输出方式，直接传入处理后的请求参数即可
+export type ResponseOutput = Pick<ProcessedParams, 'format' | 'callback'>;
+
+// 缓存类型
+export type CacheType = 'search' | 'detail' | 'category' | 'error' | 'default';
+
 // 错误类型枚举
 export enum ErrorType {
   VALIDATION = 'VALIDATION_ERROR',
@@ -45,7 +55,7 @@ export class MacCMSCacheManager {
   /**
    * 获取缓存时间
    */
-  static getCacheTime(type: 'search' | 'detail' | 'category' | 'error' | 'default'): number {
+  static getCacheTime(type: CacheType): number {
     switch (type) {
       case 'search':
         return this.config.searchTTL;
@@ -72,21 +82,69 @@ export class MacCMSCacheManager {
     return `maccms:${prefix}:${Buffer.from(sortedParams).toString('base64')}`;
   }
 
+  /**
+   * 读取缓存，未命中时调用 loader 加载并按类型的 TTL 写入
+   * 复用 server.cache 的进程内 LRU 与存储后端（Redis / Upstash / D1）两级缓存，
+   * 相同 key 的并发请求合并为一次上游请求；loader 抛出的异常不会被缓存
+   */
+  static async getOrLoad<T>(
+    cacheType: CacheType,
+    key: string,
+    loader: () => Promise<T>
+  ): Promise<{ data: T; cacheStatus: 'HIT' | 'MISS' }> {
+    const { value, status } = await getOrLoadCacheWithStatus(
+      `maccms:${key}`,
+      { ttl: this.getCacheTime(cacheType), stale: 0 },
+      loader
+    );
+    return { data: value, cacheStatus: status === 'MISS' ? 'MISS' : 'HIT' };
+  }
+
   /**
    * 创建带缓存头的响应
+   * format 为 xml 时输出苹果CMS XML 文档；带合法 callback 时以 JSONP 形式输出，
+   * 不合法的 callback 一律忽略（参数校验阶段已返回错误）
+   * cacheStatus 为 getOrLoad 返回的命中状态，输出为 X-Cache 头；未经缓存的响应（错误、分类列表等）为 MISS
    */
-  static createCachedResponse(data: any, cacheType: 'search' | 'detail' | 'category' | 'error' | 'default'): NextResponse {
+  static createCachedResponse(
+    data: any,
+    cacheType: CacheType,
+    output: ResponseOutput = {},
+    cacheStatus: 'HIT' | 'MISS' = 'MISS'
+  ): NextResponse {
     const cacheTime = this.getCacheTime(cacheType);
-    
-    return NextResponse.json(data, {
-      headers: {
-        'Cache-Control': `public, max-age=${cacheTime}, s-maxage=${cacheTime}`,
-        'CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
-        'Vercel-CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
-        'X-Cache-Type': cacheType,
-        'X-Cache-TTL': cacheTime.toString(),
-      },
-    });
+    const headers = {
+      'Cache-Control': `public, max-age=${cacheTime}, s-maxage=${cacheTime}`,
+      'CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+      'Vercel-CDN-Cache-Control': `public, s-maxage=${cacheTime}`,
+      'X-Cache-Type': cacheType,
+      'X-Cache-TTL': cacheTime.toString(),
+      'X-Cache': cacheStatus,
+    };
+
+    const xml = output.format === 'xml' ? MacCMSTransformer.transformToXml(data) : undefined;
+
+    if (output.callback && MacCMSParamsProcessor.isValidCallback(output.callback)) {
+      // U+2028/U+2029 在旧引擎的脚本中是换行符，需转义；/**/ 前缀防止响应被当作其他格式解析
+      const payload = JSON.stringify(xml ?? data)
+        .replace(/\u2028/g, '\\u2028')
+        .replace(/\u2029/g, '\\u2029');
+      return new NextResponse(`/**/${output.callback}(${payload});`, {
+        headers: {
+          ...headers,
+          'Content-Type': 'application/javascript; charset=utf-8',
+          'X-Content-Type-Options': 'nosniff',
+        },
+      });
+    }
+
+    if (xml !== undefined) {
+      return new NextResponse(xml, {
+        headers: { ...headers, 'Content-Type': 'text/xml; charset=utf-8' },
+      });
+    }
+
+    return NextResponse.json(data, { headers });
   }
 }
 
@@ -108,6 +166,11 @@ export class MacCMSErrorHandler {
    * 处理API错误
    */
   static handleApiError(error: any): ErrorDetail {
+    // 已经是处理过的错误详情（如缓存加载中抛出的校验错误），原样返回
+    if (Object.values(ErrorType).includes(error?.type) && typeof error.timestamp === 'number') {
+      return error;
+    }
+    
     if (error.name === 'AbortError' || error.code === 'ABORT_ERR') {
       return this.createError(ErrorType.TIMEOUT, '请求超时，请稍后重试');
     }
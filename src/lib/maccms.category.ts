@@ -0,0 +1,106 @@
+import { MacCMSCategoryConfig, MacCMSCategoryOrder } from './admin.types';
+
+/**
+ * 苹果CMS 接口的分类配置
+ *
+ * 分类保存在 AdminConfig.MacCMSCategories 中，可在管理后台编辑；
+ * 未配置时使用默认分类，与此前固定输出的分类一致。
+ */
+
+export const DEFAULT_MACCMS_CATEGORIES: MacCMSCategoryConfig[] = [
+  { type_id: 3, type_name: '伦理片', type_pid: 0, query: 'popular' },
+];
+
+export const MACCMS_CATEGORY_ORDERS: MacCMSCategoryOrder[] = [
+  'latest',
+  'longest',
+  'shortest',
+  'top-rated',
+  'most-viewed',
+];
+
+export function getDefaultMacCMSCategories(): MacCMSCategoryConfig[] {
+  return DEFAULT_MACCMS_CATEGORIES.map((category) => ({ ...category }));
+}
+
+/**
+ * 分类配置的版本号（内容的 FNV-1a 哈希），拼入列表缓存 key，
+ * 管理后台修改分类后旧的缓存不再命中
+ */
+export function getMacCMSCategoriesVersion(
+  categories: MacCMSCategoryConfig[]
+): string {
+  const text = JSON.stringify(categories);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * 按 t 参数查找分类
+ */
+export function findMacCMSCategory(
+  categories: MacCMSCategoryConfig[],
+  typeId?: number
+): MacCMSCategoryConfig | undefined {
+  if (typeId === undefined) return undefined;
+  return categories.find((category) => category.type_id === typeId);
+}
+
+/**
+ * 校验管理后台提交的分类，typeId 相同的分类视为同一条（编辑时跳过自身的重复检查）
+ */
+export function validateMacCMSCategory(
+  input: Record<string, unknown>,
+  categories: MacCMSCategoryConfig[],
+  editing = false
+): { category?: MacCMSCategoryConfig; error?: string } {
+  const typeId = Number(input.type_id);
+  const typePid = Number(input.type_pid || 0);
+  const typeName =
+    typeof input.type_name === 'string' ? input.type_name.trim() : '';
+  const query = typeof input.query === 'string' ? input.query.trim() : '';
+  const order = input.order || undefined;
+
+  if (!Number.isInteger(typeId) || typeId <= 0) {
+    return { error: '分类 ID 必须为正整数' };
+  }
+  if (!typeName || !query) {
+    return { error: '缺少必要参数' };
+  }
+  if (
+    order !== undefined &&
+    !MACCMS_CATEGORY_ORDERS.includes(order as MacCMSCategoryOrder)
+  ) {
+    return { error: '排序方式不支持' };
+  }
+  if (!editing && findMacCMSCategory(categories, typeId)) {
+    return { error: '分类 ID 已存在' };
+  }
+  if (typePid !== 0) {
+    const parent = findMacCMSCategory(categories, typePid);
+    if (typePid === typeId || !parent || parent.type_pid !== 0) {
+      return { error: '父分类必须为其他顶级分类' };
+    }
+  }
+  if (
+    editing &&
+    typePid !== 0 &&
+    categories.some((category) => category.type_pid === typeId)
+  ) {
+    return { error: '该分类下还有子分类，不能设为子分类' };
+  }
+
+  return {
+    category: {
+      type_id: typeId,
+      type_name: typeName,
+      type_pid: typePid,
+      query,
+      ...(order ? { order: order as MacCMSCategoryOrder } : {}),
+    },
+  };
+}
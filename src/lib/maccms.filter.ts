@@ -0,0 +1,135 @@
+import { EpornerSearchResponse, EpornerVideo } from './eporner.client';
+import { ProcessedParams } from './maccms.params';
+import { MacCMSTransformer } from './maccms.transformer';
+
+/**
+ * 苹果CMS 列表/搜索的服务端过滤（h/start/end、year、area）
+ *
+ * Eporner 接口不支持这些条件，只能逐页拉取后在本地过滤，直到凑满请求的页。
+ * 按最新排序时，一旦遇到早于时间下限的条目即可停止，此时 total 是精确值；
+ * 否则最多扫描 MAX_SCAN_PAGES 页，total 按已扫描部分的命中比例估算。
+ */
+
+export type VideoFilters = ProcessedParams['filters'];
+
+// Eporner 单页最多 60 条
+export const EPORNER_PAGE_SIZE = 60;
+const MAX_SCAN_PAGES = 10;
+
+/**
+ * 是否有需要在本地过滤的条件（排序由 Eporner 处理，不算在内）
+ */
+export function hasActiveFilters(filters: VideoFilters): boolean {
+  return Boolean(filters.timeRange || filters.year || filters.area);
+}
+
+/**
+ * 解析 added 字段，格式为 "YYYY-MM-DD HH:mm:ss" 或 ISO 日期
+ */
+export function parseAddedDate(added: string): Date | undefined {
+  if (!added) return undefined;
+  const date = new Date(added.trim().replace(' ', 'T'));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * 单个视频是否满足过滤条件，added 无法解析时不满足时间和年份条件
+ */
+export function matchesFilters(
+  video: EpornerVideo,
+  filters: VideoFilters
+): boolean {
+  if (filters.area && filters.area !== MacCMSTransformer.DEFAULT_AREA) {
+    return false;
+  }
+
+  if (!filters.timeRange && !filters.year) return true;
+
+  const added = parseAddedDate(video.added);
+  if (!added) return false;
+
+  const { start, end } = filters.timeRange || {};
+  if (start && added.getTime() < start.getTime()) return false;
+  if (end && added.getTime() > end.getTime()) return false;
+  if (filters.year && added.getFullYear() !== parseInt(filters.year, 10)) {
+    return false;
+  }
+  return true;
+}
+
+// 时间下限（毫秒）：按最新排序时早于此时间的条目之后都不会再命中
+function getLowerBound(filters: VideoFilters): number | undefined {
+  const bounds: number[] = [];
+  if (filters.timeRange?.start) {
+    bounds.push(filters.timeRange.start.getTime());
+  }
+  if (filters.year) {
+    bounds.push(new Date(parseInt(filters.year, 10), 0, 1).getTime());
+  }
+  return bounds.length > 0 ? Math.max(...bounds) : undefined;
+}
+
+/**
+ * 逐页拉取并过滤，返回与 Eporner 搜索结果相同结构的第 page 页
+ * @param fetchPage 拉取 Eporner 第 n 页（每页 EPORNER_PAGE_SIZE 条）
+ * @param order fetchPage 实际使用的排序（如分类配置的排序），决定能否按时间下限提前停止
+ */
+export async function fetchFilteredVideos(
+  fetchPage: (upstreamPage: number) => Promise<EpornerSearchResponse>,
+  filters: VideoFilters,
+  page: number,
+  limit: number,
+  order: VideoFilters['order'] = filters.order
+): Promise<EpornerSearchResponse> {
+  const lowerBound =
+    (order || 'latest') === 'latest' ? getLowerBound(filters) : undefined;
+  const needed = page * limit;
+  const matched: EpornerVideo[] = [];
+  let scanned = 0;
+  let upstreamTotal = 0;
+  let exhausted = false;
+
+  for (let upstreamPage = 1; upstreamPage <= MAX_SCAN_PAGES; upstreamPage++) {
+    const response = await fetchPage(upstreamPage);
+    const videos = response.videos || [];
+    upstreamTotal = response.total_count || upstreamTotal;
+
+    let reachedBound = false;
+    for (const video of videos) {
+      const added = parseAddedDate(video.added);
+      if (lowerBound !== undefined && added && added.getTime() < lowerBound) {
+        reachedBound = true;
+        break;
+      }
+      scanned++;
+      if (matchesFilters(video, filters)) {
+        matched.push(video);
+      }
+    }
+
+    if (
+      reachedBound ||
+      videos.length === 0 ||
+      upstreamPage >= (response.total_pages || 1)
+    ) {
+      exhausted = true;
+      break;
+    }
+    // 多拿到一条即可确认还有下一页
+    if (matched.length > needed) break;
+  }
+
+  const total = exhausted
+    ? matched.length
+    : Math.max(
+        matched.length,
+        scanned > 0 ? Math.round((upstreamTotal * matched.length) / scanned) : 0
+      );
+
+  return {
+    videos: matched.slice((page - 1) * limit, needed),
+    total_count: total,
+    current_page: page,
+    total_pages: Math.ceil(total / limit),
+  };
+}
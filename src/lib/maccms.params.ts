@@ -35,6 +35,7 @@ export interface MacCMSParams {
   // 其他参数
   callback?: string;    // JSONP回调函数
   format?: string;      // 返回格式
+  at?: string;          // 返回格式（苹果CMS 原生写法，at=xml）
 }
 
 export interface ProcessedParams {
@@ -44,6 +45,8 @@ export interface ProcessedParams {
   limit: number;
   categoryId?: number;
   videoIds?: string[];
+  format?: 'json' | 'xml'; // 未指定时为 json
+  callback?: string;       // JSONP 回调函数名，需通过 isValidCallback 校验
   filters: {
     area?: string;
     year?: string;
@@ -60,6 +63,9 @@ export class MacCMSParamsProcessor {
   private static readonly DEFAULT_LIMIT = 20;
   private static readonly MAX_LIMIT = 100;
   private static readonly MIN_LIMIT = 1;
+  // JSONP 回调：标识符或以点连接的标识符（如 jQuery123_456、window.cb）
+  private static readonly CALLBACK_PATTERN = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/;
+  private static readonly MAX_CALLBACK_LENGTH = 64;
 
   /**
    * 处理苹果CMS参数
@@ -90,6 +96,8 @@ export class MacCMSParamsProcessor {
     const categoryId = this.parseCategoryId(params.t);
     const videoIds = this.parseVideoIds(params.ids);
     const filters = this.parseFilters(params);
+    const format = this.parseFormat(params.at || params.format);
+    const callback = params.callback?.trim() || undefined;
 
     return {
       action,
@@ -98,6 +106,8 @@ export class MacCMSParamsProcessor {
       limit,
       categoryId,
       videoIds,
+      format,
+      callback,
       filters
     };
   }
@@ -210,6 +220,24 @@ export class MacCMSParamsProcessor {
       .slice(0, 10); // 限制数量
   }
 
+  /**
+   * 解析返回格式
+   * @param formatStr 格式字符串（at 或 format 参数）
+   * @returns 返回格式
+   */
+  private static parseFormat(formatStr?: string): 'json' | 'xml' {
+    return formatStr?.trim().toLowerCase() === 'xml' ? 'xml' : 'json';
+  }
+
+  /**
+   * 校验 JSONP 回调函数名，只允许 JS 标识符，防止注入脚本
+   * @param callback 回调函数名
+   * @returns 是否合法
+   */
+  static isValidCallback(callback: string): boolean {
+    return callback.length <= this.MAX_CALLBACK_LENGTH && this.CALLBACK_PATTERN.test(callback);
+  }
+
   /**
    * 解析过滤条件
    * @param params 参数对象
@@ -231,8 +259,11 @@ export class MacCMSParamsProcessor {
       }
     }
     
-    // 排序方式
-    filters.order = this.parseOrder(params.order, params.by);
+    // 排序方式，未指定时留空，由调用方决定默认排序（分类配置或最新）
+    const order = this.parseOrder(params.order, params.by);
+    if (order) {
+      filters.order = order;
+    }
     
     // 时间范围
     const timeRange = this.parseTimeRange(params.start, params.end, params.h);
@@ -247,12 +278,12 @@ export class MacCMSParamsProcessor {
    * 解析排序方式
    * @param order 排序参数
    * @param by 排序字段
-   * @returns 标准化的排序方式
+   * @returns 标准化的排序方式，未指定或无法识别时返回 undefined
    */
   private static parseOrder(
     order?: string, 
     by?: string
-  ): 'latest' | 'longest' | 'shortest' | 'top-rated' | 'most-viewed' {
+  ): ProcessedParams['filters']['order'] {
     const orderStr = (order || by || '').toLowerCase();
     
     switch (orderStr) {
@@ -278,7 +309,7 @@ export class MacCMSParamsProcessor {
       case 'popular':
         return 'most-viewed';
       default:
-        return 'latest';
+        return undefined;
     }
   }
 
@@ -385,6 +416,11 @@ export class MacCMSParamsProcessor {
       return { valid: false, error: `每页数量必须在${this.MIN_LIMIT}-${this.MAX_LIMIT}之间` };
     }
     
+    // 验证回调函数名
+    if (params.callback !== undefined && !this.isValidCallback(params.callback)) {
+      return { valid: false, error: '回调函数名不合法' };
+    }
+    
     return { valid: true };
   }
 
@@ -424,6 +460,17 @@ export class MacCMSParamsProcessor {
       keyParts.push(`order:${params.filters.order}`);
     }
     
+    // 时间范围精确到分钟，h=24 等相对时间在同一分钟内命中同一缓存
+    const { timeRange } = params.filters;
+    if (timeRange) {
+      const toMinute = (date?: Date) => (date ? Math.floor(date.getTime() / 60000) : '');
+      keyParts.push(`time:${toMinute(timeRange.start)}~${toMinute(timeRange.end)}`);
+    }
+    
+    if (params.format === 'xml') {
+      keyParts.push('format:xml');
+    }
+    
     return keyParts.join('|');
   }
 }
\ No newline at end of file
@@ -1,9 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { EpornerSearchResponse,EpornerVideo } from './eporner.client';
+import { MacCMSCategoryConfig } from './admin.types';
+import { EpornerClient, EpornerSearchResponse,EpornerVideo } from './eporner.client';
 
 // 苹果CMS V10 数据结构定义
 export interface MacCMSVideo {
-  vod_id: number;
+  vod_id: number; // 由 vod_id 登记表分配，见 maccms.vodid.ts
   vod_name: string;
   vod_sub: string;
   vod_en: string;
@@ -98,6 +99,24 @@ export interface MacCMSResponse {
   class?: MacCMSCategory[];
 }
 
+// XML 输出的条目，兼容本接口与聚合接口（/api/maccms/vod）的数据
+export type MacCMSXmlVideo = Partial<Omit<MacCMSVideo, 'vod_id' | 'type_id'>> & {
+  vod_id: string | number;
+  vod_name: string;
+  type_id?: string | number;
+};
+
+export interface MacCMSXmlData {
+  code?: number;
+  msg?: string;
+  page: number;
+  pagecount: number;
+  limit: number;
+  total: number;
+  list?: MacCMSXmlVideo[];
+  class?: Array<{ type_id: string | number; type_name: string }>;
+}
+
 export interface MacCMSCategory {
   type_id: number;
   type_name: string;
@@ -112,24 +131,50 @@ export interface MacCMSCategory {
 export class MacCMSTransformer {
   private static readonly DEFAULT_TYPE_ID = 3; // 默认分类ID（伦理片）
   private static readonly DEFAULT_TYPE_NAME = '伦理片';
-  private static readonly DEFAULT_AREA = '欧美';
+  static readonly DEFAULT_AREA = '欧美'; // Eporner 不提供地区，按地区过滤时也以此为准
   private static readonly DEFAULT_LANG = '英语';
 
+  /**
+   * 由 Eporner 视频 ID 生成 vod_id 登记表中的 key
+   * 整数 vod_id 由登记表按 key 分配，与所在页码、过滤条件无关，
+   * 列表中拿到的 vod_id 可直接用于 ac=detail&ids=
+   * @param videoId Eporner 视频 ID
+   * @returns 登记表 key
+   */
+  static toVodKey(videoId: string): string {
+    return `eporner+${videoId.trim()}`;
+  }
+
+  /**
+   * 由登记表 key 还原 Eporner 视频 ID
+   * @param key 按 vod_id 查到的 key
+   * @returns Eporner 视频 ID，格式不正确时返回 null
+   */
+  static fromVodKey(key: string): string | null {
+    if (!key.startsWith('eporner+')) return null;
+    const videoId = key.slice('eporner+'.length);
+    return videoId && EpornerClient.isValidVideoId(videoId) ? videoId : null;
+  }
+
   /**
    * 将Eporner搜索结果转换为苹果CMS格式
    * @param epornerResponse Eporner API响应
    * @param page 当前页码
    * @param limit 每页数量
+   * @param category 所属分类（按 t 参数获取列表时）
+   * @param vodIds 登记表 key 到 vod_id 的对应关系，见 toVodKey
    * @returns 苹果CMS格式的响应
    */
   static transformSearchResponse(
     epornerResponse: EpornerSearchResponse,
     page = 1,
-     limit = 20
+     limit = 20,
+    category?: MacCMSCategoryConfig,
+    vodIds: { [key: string]: number } = {}
   ): MacCMSResponse {
     const videos = epornerResponse.videos || [];
-    const transformedVideos = videos.map((video, index) => 
-      this.transformVideo(video, (page - 1) * limit + index + 1)
+    const transformedVideos = videos.map(video =>
+      this.transformVideo(video, vodIds[this.toVodKey(video.id)] || 0, category)
     );
 
     return {
@@ -146,10 +191,11 @@ export class MacCMSTransformer {
   /**
    * 将单个Eporner视频详情转换为苹果CMS格式
    * @param video Eporner视频对象
+   * @param vodId 视频ID（用于苹果CMS）
    * @returns 苹果CMS格式的响应
    */
-  static transformVideoDetail(video: EpornerVideo): MacCMSResponse {
-    const transformedVideo = this.transformVideo(video, parseInt(video.id, 36) || 1);
+  static transformVideoDetail(video: EpornerVideo, vodId: number): MacCMSResponse {
+    const transformedVideo = this.transformVideo(video, vodId);
     
     return {
       code: 1,
@@ -166,9 +212,10 @@ export class MacCMSTransformer {
    * 将单个Eporner视频转换为苹果CMS格式
    * @param video Eporner视频对象
    * @param vodId 视频ID（用于苹果CMS）
+   * @param category 所属分类，未指定时使用默认分类
    * @returns 苹果CMS格式的视频对象
    */
-  static transformVideo(video: EpornerVideo, vodId: number): MacCMSVideo {
+  static transformVideo(video: EpornerVideo, vodId: number, category?: MacCMSCategoryConfig): MacCMSVideo {
     const currentTime = new Date().toISOString().replace('T', ' ').substring(0, 19);
     const addedDate = this.formatDate(video.added);
     const duration = this.formatDuration(video.length_sec);
@@ -265,28 +312,124 @@ export class MacCMSTransformer {
       vod_plot: 0,
       vod_plot_name: '',
       vod_plot_detail: '',
-      type_id: this.DEFAULT_TYPE_ID,
-      type_name: this.DEFAULT_TYPE_NAME,
+      type_id: category?.type_id ?? this.DEFAULT_TYPE_ID,
+      type_name: category?.type_name ?? this.DEFAULT_TYPE_NAME,
       group_id: 0
     };
   }
 
   /**
    * 生成分类列表
+   * @param categories 管理后台配置的分类
    * @returns 苹果CMS格式的分类列表
    */
-  static generateCategories(): MacCMSCategory[] {
-    return [
-      {
-        type_id: 3,
-        type_name: '伦理片',
-        type_en: 'ethics',
-        type_sort: 3,
-        type_mid: 1,
-        type_pid: 0,
-        type_status: 1
-      }
-    ];
+  static generateCategories(categories: MacCMSCategoryConfig[]): MacCMSCategory[] {
+    return categories.map((category, index) => ({
+      type_id: category.type_id,
+      type_name: category.type_name,
+      type_en: this.generateEnglishName(category.query),
+      type_sort: index + 1,
+      type_mid: 1,
+      type_pid: category.type_pid,
+      type_status: 1
+    }));
+  }
+
+  /**
+   * 将 JSON 响应渲染为苹果CMS XML 文档（at=xml）
+   * 含 class 时为分类列表（ac=list），条目只输出简要字段，与苹果CMS 一致；
+   * 否则输出含播放线路的完整条目
+   * @param data JSON 响应
+   * @returns XML 文档
+   */
+  static transformToXml(data: MacCMSXmlData): string {
+    const brief = Array.isArray(data.class);
+    const videos = (data.list || [])
+      .map(video => (brief ? this.renderBriefVideo(video) : this.renderVideo(video)))
+      .join('');
+    const classes = data.class
+      ? `<class>${data.class
+          .map(type => `<ty id="${this.escapeXml(String(type.type_id))}">${this.escapeXml(type.type_name)}</ty>`)
+          .join('')}</class>`
+      : '';
+    // 错误响应带上 code 与 msg，与空结果区分开
+    const status = data.code !== undefined && data.code !== 1
+      ? `<code>${data.code}</code><msg>${this.cdata(data.msg || '')}</msg>`
+      : '';
+
+    return '<?xml version="1.0" encoding="utf-8"?>' +
+      '<rss version="5.1">' +
+      status +
+      `<list page="${data.page}" pagecount="${data.pagecount}" pagesize="${data.limit}" recordcount="${data.total}">` +
+      videos +
+      '</list>' +
+      classes +
+      '</rss>';
+  }
+
+  /**
+   * 分类列表中的简要条目
+   */
+  private static renderBriefVideo(video: MacCMSXmlVideo): string {
+    return '<video>' +
+      `<last>${this.escapeXml(video.vod_time || '')}</last>` +
+      `<id>${this.escapeXml(String(video.vod_id))}</id>` +
+      `<tid>${this.escapeXml(String(video.type_id ?? ''))}</tid>` +
+      `<name>${this.cdata(video.vod_name)}</name>` +
+      `<type>${this.escapeXml(video.type_name || '')}</type>` +
+      `<dt>${this.escapeXml((video.vod_play_from || '').split('$$$').join(','))}</dt>` +
+      `<note>${this.cdata(video.vod_remarks || '')}</note>` +
+      '</video>';
+  }
+
+  /**
+   * 含播放线路的完整条目，每条线路对应一个 <dd flag>
+   */
+  private static renderVideo(video: MacCMSXmlVideo): string {
+    const flags = (video.vod_play_from || '').split('$$$');
+    const lines = video.vod_play_url
+      ? video.vod_play_url
+        .split('$$$')
+        .map((url, index) => `<dd flag="${this.escapeXml(flags[index] || '')}">${this.cdata(url)}</dd>`)
+        .join('')
+      : '';
+
+    return '<video>' +
+      `<last>${this.escapeXml(video.vod_time || '')}</last>` +
+      `<id>${this.escapeXml(String(video.vod_id))}</id>` +
+      `<tid>${this.escapeXml(String(video.type_id ?? ''))}</tid>` +
+      `<name>${this.cdata(video.vod_name)}</name>` +
+      `<type>${this.escapeXml(video.type_name || '')}</type>` +
+      `<pic>${this.escapeXml(video.vod_pic || '')}</pic>` +
+      `<lang>${this.escapeXml(video.vod_lang || '')}</lang>` +
+      `<area>${this.escapeXml(video.vod_area || '')}</area>` +
+      `<year>${this.escapeXml(String(video.vod_year || ''))}</year>` +
+      `<state>${this.escapeXml(video.vod_serial || '')}</state>` +
+      `<note>${this.cdata(video.vod_remarks || '')}</note>` +
+      `<actor>${this.cdata(video.vod_actor || '')}</actor>` +
+      `<director>${this.cdata(video.vod_director || '')}</director>` +
+      `<dl>${lines}</dl>` +
+      `<des>${this.cdata(video.vod_content || '')}</des>` +
+      '</video>';
+  }
+
+  /**
+   * 转义 XML 文本与属性值
+   */
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * 包裹 CDATA，内容中的 ]]> 拆分到两个 CDATA 段
+   */
+  private static cdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
   }
 
   /**
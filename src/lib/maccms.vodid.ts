@@ -0,0 +1,78 @@
+import { db } from './db';
+
+/**
+ * MacCMS vod_id 登记表
+ *
+ * 苹果CMS V10 采集端把 vod_id 当作整数保存（通常为 32 位），而 Eporner 视频 ID
+ * 与聚合接口的 "源+ID" 都是字符串，无法可逆地压缩进整数。这里为每个字符串 key
+ * 分配自增的整数 ID 并经 IStorage 持久化：同一 key 始终得到同一个 vod_id，
+ * 详情请求按 vod_id 反查 key。
+ * 未配置服务端存储（localstorage）时只在进程内登记，重启后 ID 会重新分配。
+ */
+
+// 已登记的对应关系，ID 一经分配不再变化，可在进程内长期缓存
+const idsByKey = new Map<string, number>();
+const keysById = new Map<number, string>();
+let nextMemoryId = 1;
+
+// vod_id 上限，保持在 32 位有符号整数范围内
+const MAX_VOD_ID = 2147483647;
+
+function hasServerStorage(): boolean {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  return storageType !== 'localstorage';
+}
+
+function remember(key: string, id: number) {
+  idsByKey.set(key, id);
+  keysById.set(id, key);
+}
+
+async function registerVodId(key: string): Promise<number> {
+  const cached = idsByKey.get(key);
+  if (cached !== undefined) return cached;
+
+  const id =
+    (hasServerStorage() ? await db.registerVodId(key) : null) ?? nextMemoryId++;
+  remember(key, id);
+  return id;
+}
+
+/**
+ * 为一组 key 登记 vod_id，返回 key -> vod_id
+ */
+export async function getVodIds(
+  keys: string[]
+): Promise<{ [key: string]: number }> {
+  const unique = keys.filter((key, index) => keys.indexOf(key) === index);
+  const ids = await Promise.all(unique.map(registerVodId));
+  const result: { [key: string]: number } = {};
+  unique.forEach((key, index) => {
+    result[key] = ids[index];
+  });
+  return result;
+}
+
+/**
+ * 按请求中的 vod_id 反查 key，格式不正确或未登记时返回 null
+ */
+export async function getVodKey(vodId: string): Promise<string | null> {
+  const trimmed = vodId.trim();
+  if (!/^[1-9]\d{0,9}$/.test(trimmed)) return null;
+  const id = Number(trimmed);
+  if (id > MAX_VOD_ID) return null;
+
+  const cached = keysById.get(id);
+  if (cached !== undefined) return cached;
+  if (!hasServerStorage()) return null;
+
+  const key = await db.getVodKey(id);
+  if (key) remember(key, id);
+  return key;
+}
+
+export function clearVodIds(): void {
+  idsByKey.clear();
+  keysById.clear();
+  nextMemoryId = 1;
+}
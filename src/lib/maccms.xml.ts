@@ -0,0 +1,106 @@
+import { MacCMSApiItem, MacCMSApiResponse } from './maccms.adapter';
+
+/**
+ * 苹果CMS XML 接口（api.php/provide/vod/at/xml）解析
+ *
+ * 结构为 <rss><list page pagecount recordcount><video>…</video></list><class><ty id>…</ty></class></rss>，
+ * 每个 <video> 的 <dl> 下有若干 <dd flag="线路名">，对应 JSON 接口中以 $$$ 分隔的播放线路。
+ * edge runtime 没有 DOMParser，这里按固定结构用正则解析，统一转换为 JSON 接口的数据结构。
+ */
+
+// 判断响应体是否为 XML
+export function isXmlPayload(body: string): boolean {
+  return /^\s*</.test(body);
+}
+
+function decodeXmlText(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1].trim();
+  }
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function readTag(xml: string, tag: string): string {
+  const match = xml.match(
+    new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`)
+  );
+  return match ? decodeXmlText(match[1]) : '';
+}
+
+function readAttr(attrs: string, name: string): string {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return match ? decodeXmlText(match[1]) : '';
+}
+
+function parseVideo(xml: string): MacCMSApiItem {
+  const flags: string[] = [];
+  const urls: string[] = [];
+  const ddPattern = /<dd([^>]*)>([\s\S]*?)<\/dd>/g;
+  let dd: RegExpExecArray | null;
+  while ((dd = ddPattern.exec(xml)) !== null) {
+    flags.push(readAttr(dd[1], 'flag'));
+    urls.push(decodeXmlText(dd[2]));
+  }
+
+  return {
+    vod_id: readTag(xml, 'id'),
+    vod_name: readTag(xml, 'name'),
+    vod_pic: readTag(xml, 'pic'),
+    vod_remarks: readTag(xml, 'note'),
+    vod_year: readTag(xml, 'year'),
+    vod_content: readTag(xml, 'des'),
+    vod_time: readTag(xml, 'last'),
+    vod_play_from: flags.join('$$$'),
+    vod_play_url: urls.join('$$$'),
+    type_id: readTag(xml, 'tid'),
+    type_name: readTag(xml, 'type'),
+  };
+}
+
+/**
+ * 将 XML 接口响应转换为 JSON 接口的数据结构
+ */
+export function parseMacCMSXml(xml: string): MacCMSApiResponse {
+  const listMatch = xml.match(/<list([^>]*)>([\s\S]*?)<\/list>/);
+  const listAttrs = listMatch ? listMatch[1] : '';
+  const listBody = listMatch ? listMatch[2] : '';
+
+  const list: MacCMSApiItem[] = [];
+  const videoPattern = /<video>([\s\S]*?)<\/video>/g;
+  let video: RegExpExecArray | null;
+  while ((video = videoPattern.exec(listBody)) !== null) {
+    list.push(parseVideo(video[1]));
+  }
+
+  const classes: NonNullable<MacCMSApiResponse['class']> = [];
+  const classMatch = xml.match(/<class>([\s\S]*?)<\/class>/);
+  if (classMatch) {
+    const tyPattern = /<ty([^>]*)>([\s\S]*?)<\/ty>/g;
+    let ty: RegExpExecArray | null;
+    while ((ty = tyPattern.exec(classMatch[1])) !== null) {
+      classes.push({
+        type_id: readAttr(ty[1], 'id'),
+        type_name: decodeXmlText(ty[2]),
+      });
+    }
+  }
+
+  return {
+    page: Number(readAttr(listAttrs, 'page')) || 1,
+    pagecount: Number(readAttr(listAttrs, 'pagecount')) || 1,
+    total: Number(readAttr(listAttrs, 'recordcount')) || list.length,
+    list,
+    class: classes,
+  };
+}
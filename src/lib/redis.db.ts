@@ -3,11 +3,21 @@
 import { createClient, RedisClientType } from 'redis';
 
 import { AdminConfig } from './admin.types';
-import { Favorite, IStorage, PlayRecord, SkipConfig } from './types';
+import {
+  Favorite,
+  IStorage,
+  PlayRecord,
+  SkipConfig,
+  SourceAvailability,
+  SourcePreferences,
+} from './types';
 
 // 搜索历史最大条数
 const SEARCH_HISTORY_LIMIT = 20;
 
+// 播放源偏好的过期时间（秒），长期未更新的偏好已衰减殆尽
+const SOURCE_PREFERENCE_TTL = 180 * 24 * 60 * 60;
+
 // 数据类型转换辅助函数
 function ensureString(value: any): string {
   return String(value);
@@ -232,6 +242,22 @@ export class RedisStorage implements IStorage {
     if (skipConfigKeys.length > 0) {
       await withRetry(() => this.client.del(skipConfigKeys));
     }
+
+    // 删除播放源偏好
+    const sourcePreferenceKeys = await withRetry(() =>
+      this.client.keys(`u:${userName}:sp:*`)
+    );
+    if (sourcePreferenceKeys.length > 0) {
+      await withRetry(() => this.client.del(sourcePreferenceKeys));
+    }
+
+    // 删除源可用性记录
+    const sourceAvailabilityKeys = await withRetry(() =>
+      this.client.keys(`u:${userName}:sa:*`)
+    );
+    if (sourceAvailabilityKeys.length > 0) {
+      await withRetry(() => this.client.del(sourceAvailabilityKeys));
+    }
   }
 
   // ---------- 搜索历史 ----------
@@ -362,6 +388,114 @@ export class RedisStorage implements IStorage {
 
     return configs;
   }
+
+  // ---------- 播放源偏好 ----------
+  private sourcePreferenceKey(user: string | null, titleKey: string) {
+    return user ? `u:${user}:sp:${titleKey}` : `sp:${titleKey}`;
+  }
+
+  async getSourcePreferences(
+    userName: string | null,
+    titleKey: string
+  ): Promise<SourcePreferences | null> {
+    const val = await withRetry(() =>
+      this.client.get(this.sourcePreferenceKey(userName, titleKey))
+    );
+    return val ? (JSON.parse(val) as SourcePreferences) : null;
+  }
+
+  async setSourcePreferences(
+    userName: string | null,
+    titleKey: string,
+    preferences: SourcePreferences
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.set(
+        this.sourcePreferenceKey(userName, titleKey),
+        JSON.stringify(preferences),
+        { EX: SOURCE_PREFERENCE_TTL }
+      )
+    );
+  }
+
+  // ---------- 源可用性 ----------
+  private sourceAvailabilityKey(user: string, key: string) {
+    return `u:${user}:sa:${key}`; // u:username:sa:source+id
+  }
+
+  async getAllSourceAvailability(
+    userName: string
+  ): Promise<{ [key: string]: SourceAvailability }> {
+    const keys = await withRetry(() => this.client.keys(`u:${userName}:sa:*`));
+    if (keys.length === 0) {
+      return {};
+    }
+
+    const values = await withRetry(() => this.client.mGet(keys));
+    const result: { [key: string]: SourceAvailability } = {};
+    keys.forEach((key, index) => {
+      const value = values[index];
+      const match = key.match(/^u:.+?:sa:(.+)$/);
+      if (value && match) {
+        result[match[1]] = JSON.parse(value as string) as SourceAvailability;
+      }
+    });
+    return result;
+  }
+
+  async setSourceAvailability(
+    userName: string,
+    key: string,
+    availability: SourceAvailability
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.set(
+        this.sourceAvailabilityKey(userName, key),
+        JSON.stringify(availability)
+      )
+    );
+  }
+
+  async deleteSourceAvailability(userName: string, key: string): Promise<void> {
+    await withRetry(() =>
+      this.client.del(this.sourceAvailabilityKey(userName, key))
+    );
+  }
+
+  // ---------- MacCMS vod_id 登记表 ----------
+  async registerVodId(key: string): Promise<number> {
+    const existing = await withRetry(() => this.client.get(`vodid:key:${key}`));
+    if (existing) return Number(existing);
+
+    // 先写 ID -> key 再占用 key，并发登记同一 key 时以先占用的为准
+    const id = await withRetry(() => this.client.incr('vodid:seq'));
+    await withRetry(() => this.client.set(`vodid:id:${id}`, key));
+    const created = await withRetry(() =>
+      this.client.set(`vodid:key:${key}`, String(id), { NX: true })
+    );
+    if (created) return id;
+    const winner = await withRetry(() => this.client.get(`vodid:key:${key}`));
+    return Number(winner);
+  }
+
+  async getVodKey(vodId: number): Promise<string | null> {
+    const val = await withRetry(() => this.client.get(`vodid:id:${vodId}`));
+    return val ? ensureString(val) : null;
+  }
+
+  // ---------- 共享缓存 ----------
+  async getCache(key: string): Promise<string | null> {
+    const val = await withRetry(() => this.client.get(key));
+    return val ? ensureString(val) : null;
+  }
+
+  async setCache(
+    key: string,
+    value: string,
+    ttlSeconds: number
+  ): Promise<void> {
+    await withRetry(() => this.client.set(key, value, { EX: ttlSeconds }));
+  }
 }
 
 // 单例 Redis 客户端
@@ -0,0 +1,184 @@
+import { countRegularEpisodes } from './episodes';
+import { getWorkType, normalizeTitle, WorkType } from './search.grouping';
+import { SearchResult } from './types';
+
+/**
+ * /api/search 的服务端筛选、排序与分页
+ *
+ * 查询参数：
+ * - page / pageSize：分页，未传 page 时返回全部结果（兼容旧调用方）
+ * - yearFrom / yearTo（或 year=2019、year=2019-2023）：年份区间，未知年份会被排除
+ * - type：type_name 或 vod_class 包含任一关键词（逗号分隔）
+ * - kind：movie（单集）或 tv（多集），按正片集数判断
+ * - sources：只搜索指定源（逗号分隔的 key）
+ * - sort：relevance（默认）、year、priority（源在后台的排序）
+ */
+
+export type SearchSort = 'relevance' | 'year' | 'priority';
+
+export interface SearchQueryOptions {
+  page?: number;
+  pageSize: number;
+  yearFrom?: number;
+  yearTo?: number;
+  types: string[];
+  kind?: WorkType;
+  sources: string[];
+  sort: SearchSort;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 50;
+export const MAX_SEARCH_PAGE_SIZE = 200;
+
+function parsePositiveInt(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const num = parseInt(value, 10);
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+function parseList(value: string | null): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function parseSearchOptions(
+  searchParams: URLSearchParams
+): SearchQueryOptions {
+  let yearFrom = parsePositiveInt(searchParams.get('yearFrom'));
+  let yearTo = parsePositiveInt(searchParams.get('yearTo'));
+  const yearMatch = (searchParams.get('year') || '').match(
+    /^(\d{4})(?:\s*-\s*(\d{4}))?$/
+  );
+  if (yearMatch) {
+    yearFrom = parseInt(yearMatch[1], 10);
+    yearTo = yearMatch[2] ? parseInt(yearMatch[2], 10) : yearFrom;
+  }
+
+  const kindParam = searchParams.get('kind');
+  const sortParam = searchParams.get('sort');
+
+  return {
+    page: parsePositiveInt(searchParams.get('page')),
+    pageSize: Math.min(
+      parsePositiveInt(searchParams.get('pageSize')) ||
+        DEFAULT_SEARCH_PAGE_SIZE,
+      MAX_SEARCH_PAGE_SIZE
+    ),
+    yearFrom,
+    yearTo,
+    types: parseList(searchParams.get('type')),
+    kind: kindParam === 'movie' || kindParam === 'tv' ? kindParam : undefined,
+    sources: parseList(searchParams.get('sources')),
+    sort:
+      sortParam === 'year' || sortParam === 'priority'
+        ? sortParam
+        : 'relevance',
+  };
+}
+
+function parseYear(year?: string): number | null {
+  const match = (year || '').match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+export function filterSearchResults(
+  results: SearchResult[],
+  options: SearchQueryOptions
+): SearchResult[] {
+  const hasYearFilter =
+    options.yearFrom !== undefined || options.yearTo !== undefined;
+
+  return results.filter((result) => {
+    if (hasYearFilter) {
+      const year = parseYear(result.year);
+      if (year === null) return false;
+      if (options.yearFrom !== undefined && year < options.yearFrom) {
+        return false;
+      }
+      if (options.yearTo !== undefined && year > options.yearTo) return false;
+    }
+    if (options.types.length > 0) {
+      const text = `${result.type_name || ''},${result.class || ''}`;
+      if (!options.types.some((type) => text.includes(type))) return false;
+    }
+    if (options.kind) {
+      if (countRegularEpisodes(result) === 0) return false;
+      if (getWorkType(result) !== options.kind) return false;
+    }
+    return true;
+  });
+}
+
+// 标题与关键词的匹配程度：完全一致 > 前缀 > 包含 > 其他
+function relevanceScore(result: SearchResult, normalizedQuery: string) {
+  const title = normalizeTitle(result.title);
+  if (!normalizedQuery) return 0;
+  if (title === normalizedQuery) return 3;
+  if (title.startsWith(normalizedQuery)) return 2;
+  if (title.includes(normalizedQuery)) return 1;
+  return 0;
+}
+
+/**
+ * 排序（不修改原数组）。sourceOrder 为后台配置中的源顺序，作为各排序方式的最终依据
+ */
+export function sortSearchResults(
+  results: SearchResult[],
+  query: string,
+  sort: SearchSort,
+  sourceOrder: string[]
+): SearchResult[] {
+  const normalizedQuery = normalizeTitle(query);
+  const priority = new Map(sourceOrder.map((key, index) => [key, index]));
+  const priorityOf = (result: SearchResult) =>
+    priority.get(result.source) ?? sourceOrder.length;
+  const yearOf = (result: SearchResult) => parseYear(result.year) ?? 0;
+
+  return results
+    .map((result, index) => ({
+      result,
+      index,
+      score: relevanceScore(result, normalizedQuery),
+    }))
+    .sort((a, b) => {
+      let diff = 0;
+      if (sort === 'relevance') {
+        diff = b.score - a.score || yearOf(b.result) - yearOf(a.result);
+      } else if (sort === 'year') {
+        diff = yearOf(b.result) - yearOf(a.result);
+      }
+      return (
+        diff || priorityOf(a.result) - priorityOf(b.result) || a.index - b.index
+      );
+    })
+    .map(({ result }) => result);
+}
+
+export function paginateSearchResults(
+  results: SearchResult[],
+  page: number,
+  pageSize: number
+): SearchPage {
+  const total = results.length;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const start = (page - 1) * pageSize;
+  return {
+    results: results.slice(start, start + pageSize),
+    page,
+    pageSize,
+    total,
+    totalPages,
+    hasMore: start + pageSize < total,
+  };
+}
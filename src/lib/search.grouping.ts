@@ -0,0 +1,232 @@
+import { toSimplified } from './chinese';
+import { countRegularEpisodes } from './episodes';
+import { SearchResult } from './types';
+
+/**
+ * 搜索结果规范化分组
+ *
+ * 同一部作品在各个源的标题写法不尽相同（全角字符、简繁体、标点、"第二季" 与 "2" 等），
+ * 这里统一解析出 基础标题 + 季数，再结合类型、年份（允许 ±1 年误差）与 douban_id
+ * 判断是否为同一部作品。搜索页聚合与播放页换源共用这套规则，保证两边结论一致。
+ */
+
+export type WorkType = 'movie' | 'tv';
+
+export interface TitleInfo {
+  base: string; // 去除标点、空白与季数后的标题
+  season: number; // 未标注季数时为 1
+}
+
+export interface SearchGroupSource {
+  source: string;
+  source_name: string;
+  id: string;
+}
+
+export interface SearchGroup {
+  key: string;
+  title: string;
+  year: string;
+  type: WorkType;
+  season: number;
+  douban_id?: number;
+  sources: SearchGroupSource[];
+  items: SearchResult[];
+}
+
+// 年份允许的误差（不同源对首播年份的记录常有一年偏差）
+const YEAR_TOLERANCE = 1;
+
+const CN_DIGITS: { [key: string]: number } = {
+  零: 0,
+  〇: 0,
+  一: 1,
+  二: 2,
+  两: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+};
+
+// 解析 1~99 的中文或阿拉伯数字
+function parseNumber(text: string): number | null {
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+  if (text === '十') return 10;
+  const tenIndex = text.indexOf('十');
+  if (tenIndex === -1) {
+    return text.length === 1 && text in CN_DIGITS ? CN_DIGITS[text] : null;
+  }
+  const tens = tenIndex === 0 ? 1 : CN_DIGITS[text.slice(0, tenIndex)];
+  const rest = text.slice(tenIndex + 1);
+  const ones = rest ? CN_DIGITS[rest] : 0;
+  if (tens === undefined || ones === undefined) return null;
+  return tens * 10 + ones;
+}
+
+// 半角化、小写化，繁体统一转为简体
+function toHalfWidth(title: string): string {
+  return toSimplified(title.normalize('NFKC').toLowerCase());
+}
+
+const PUNCTUATION_PATTERN =
+  /[\s`~!@#$%^&*()\-_=+[\]{}|\\;:'",.<>/?·！￥…（）—【】、；：‘’“”，。《》？「」『』～]/g;
+
+/**
+ * 规范化标题：半角化、小写化，并去除所有空白与标点
+ */
+export function normalizeTitle(title: string): string {
+  return toHalfWidth(title || '').replace(PUNCTUATION_PATTERN, '');
+}
+
+const SEASON_PATTERNS: RegExp[] = [
+  /第\s*([0-9零〇一二两三四五六七八九十]+)\s*[季部]/,
+  /season\s*(\d{1,2})/,
+  /\bs(\d{1,2})\b/,
+];
+
+/**
+ * 解析标题中的季数；"庆余年第二季"、"庆余年 2"、"庆余年 Season 2" 均解析为 { base: '庆余年', season: 2 }
+ */
+export function parseTitle(title: string): TitleInfo {
+  let text = toHalfWidth(title || '').trim();
+  let season: number | null = null;
+
+  for (const pattern of SEASON_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      season = parseNumber(match[1]);
+      if (season !== null) {
+        text = text.replace(match[0], ' ');
+        break;
+      }
+    }
+  }
+
+  let base = text.replace(PUNCTUATION_PATTERN, '');
+
+  // 末尾跟 1~2 位数字视为季数/续集，如 "庆余年2"
+  if (season === null) {
+    const trailing = base.match(/^(.*\D)(\d{1,2})$/);
+    if (trailing) {
+      base = trailing[1];
+      season = parseInt(trailing[2], 10);
+    }
+  }
+
+  return { base, season: season ?? 1 };
+}
+
+export function getWorkType(result: SearchResult): WorkType {
+  return countRegularEpisodes(result) === 1 ? 'movie' : 'tv';
+}
+
+function parseYear(year?: string): number | null {
+  if (!year) return null;
+  const match = year.match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+function isYearCompatible(a?: string, b?: string): boolean {
+  const ya = parseYear(a);
+  const yb = parseYear(b);
+  if (ya === null || yb === null) return true;
+  return Math.abs(ya - yb) <= YEAR_TOLERANCE;
+}
+
+function hasDoubanId(id?: number): id is number {
+  return typeof id === 'number' && id > 0;
+}
+
+/**
+ * 判断搜索结果是否与目标作品为同一部
+ */
+export function isSameWork(
+  result: SearchResult,
+  target: {
+    title: string;
+    year?: string;
+    type?: WorkType | '';
+    douban_id?: number;
+  }
+): boolean {
+  if (hasDoubanId(result.douban_id) && hasDoubanId(target.douban_id)) {
+    return result.douban_id === target.douban_id;
+  }
+  if (target.type && getWorkType(result) !== target.type) {
+    return false;
+  }
+  const a = parseTitle(result.title);
+  const b = parseTitle(target.title);
+  return (
+    a.base === b.base &&
+    a.season === b.season &&
+    isYearCompatible(result.year, target.year)
+  );
+}
+
+/**
+ * 将扁平的搜索结果按作品分组，保持首次出现的顺序
+ */
+export function groupSearchResults(results: SearchResult[]): SearchGroup[] {
+  const groups: SearchGroup[] = [];
+  const byTitle = new Map<string, SearchGroup[]>();
+  const byDouban = new Map<number, SearchGroup>();
+
+  results.forEach((item) => {
+    const { base, season } = parseTitle(item.title);
+    const type = getWorkType(item);
+    const titleKey = `${base}-${season}-${type}`;
+
+    let group: SearchGroup | undefined;
+    if (hasDoubanId(item.douban_id)) {
+      group = byDouban.get(item.douban_id);
+    }
+    if (!group) {
+      group = (byTitle.get(titleKey) || []).find(
+        (g) =>
+          isYearCompatible(g.year, item.year) &&
+          !(
+            hasDoubanId(g.douban_id) &&
+            hasDoubanId(item.douban_id) &&
+            g.douban_id !== item.douban_id
+          )
+      );
+    }
+
+    if (!group) {
+      group = {
+        key: `${titleKey}-${parseYear(item.year) ?? 'unknown'}`,
+        title: item.title,
+        year: item.year,
+        type,
+        season,
+        sources: [],
+        items: [],
+      };
+      groups.push(group);
+      byTitle.set(titleKey, [...(byTitle.get(titleKey) || []), group]);
+    }
+
+    if (parseYear(group.year) === null && parseYear(item.year) !== null) {
+      group.year = item.year;
+    }
+    if (!hasDoubanId(group.douban_id) && hasDoubanId(item.douban_id)) {
+      group.douban_id = item.douban_id;
+      byDouban.set(item.douban_id, group);
+    }
+    group.items.push(item);
+    group.sources.push({
+      source: item.source,
+      source_name: item.source_name,
+      id: item.id,
+    });
+  });
+
+  return groups;
+}
@@ -0,0 +1,185 @@
+import { listRememberedTitles, matchesPinyin } from './chinese';
+import { getConfig } from './config';
+import { normalizeTitle } from './search.grouping';
+import { getOrLoadCache } from './server.cache';
+import { fetchFromSource } from './source.adapter';
+
+/**
+ * 搜索建议（/api/search/suggest）
+ *
+ * 候选词来自三处：用户搜索历史、豆瓣热门榜单、近期搜索结果中出现过的标题。
+ * 与输入的匹配程度分为 前缀 > 包含 > 拼音，同一档内按热度排序，
+ * 热度由来源权重与各来源内部的排名（历史的先后、榜单名次、出现次数）共同决定。
+ */
+
+export type SuggestionSource = 'history' | 'hot' | 'recent';
+
+export interface SuggestionCandidate {
+  title: string;
+  source: SuggestionSource;
+  popularity: number; // 0~100
+}
+
+export interface SearchSuggestion {
+  title: string;
+  source: SuggestionSource;
+}
+
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+export const MAX_SUGGESTION_LIMIT = 20;
+
+// 豆瓣热门榜单缓存时长（秒）
+const DOUBAN_HOT_CACHE_TIME = 3600;
+// 榜单获取失败后的重试间隔（秒），期间直接返回空列表，不再等待豆瓣超时
+const DOUBAN_HOT_RETRY_TIME = 60;
+const DOUBAN_HOT_LIMIT = 50;
+const DOUBAN_TIMEOUT = 5000;
+
+// 各来源的基础热度：自己搜过的词最可能再次搜索
+const SOURCE_WEIGHT: { [source in SuggestionSource]: number } = {
+  history: 60,
+  hot: 30,
+  recent: 20,
+};
+
+// 匹配程度：前缀 3、包含 2、拼音 1、不匹配 0
+function matchLevel(title: string, query: string): number {
+  const normalizedTitle = normalizeTitle(title);
+  const normalizedQuery = normalizeTitle(query);
+  if (!normalizedTitle || !normalizedQuery) return 0;
+  if (normalizedTitle.startsWith(normalizedQuery)) return 3;
+  if (normalizedTitle.includes(normalizedQuery)) return 2;
+  return matchesPinyin(title, query) ? 1 : 0;
+}
+
+/**
+ * 按匹配程度与热度排序候选词，同一作品（规范化标题相同）只保留得分最高的一条
+ */
+export function rankSuggestions(
+  query: string,
+  candidates: SuggestionCandidate[],
+  limit = DEFAULT_SUGGESTION_LIMIT
+): SearchSuggestion[] {
+  const best = new Map<
+    string,
+    { suggestion: SearchSuggestion; level: number; score: number }
+  >();
+
+  for (const candidate of candidates) {
+    const level = matchLevel(candidate.title, query);
+    if (level === 0) continue;
+    // 与输入完全相同的词没有提示意义
+    const key = normalizeTitle(candidate.title);
+    if (key === normalizeTitle(query)) continue;
+
+    const score = SOURCE_WEIGHT[candidate.source] + candidate.popularity;
+    const existing = best.get(key);
+    if (
+      !existing ||
+      level > existing.level ||
+      (level === existing.level && score > existing.score)
+    ) {
+      best.set(key, {
+        suggestion: { title: candidate.title, source: candidate.source },
+        level,
+        score,
+      });
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.level - a.level || b.score - a.score)
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+}
+
+// 按排名线性递减的热度，第一名为 100
+function rankPopularity(index: number, total: number): number {
+  return total > 0 ? Math.round(((total - index) / total) * 100) : 0;
+}
+
+export function historyCandidates(history: string[]): SuggestionCandidate[] {
+  return history.map((title, index) => ({
+    title,
+    source: 'history',
+    popularity: rankPopularity(index, history.length),
+  }));
+}
+
+export function recentCandidates(): SuggestionCandidate[] {
+  const titles = listRememberedTitles();
+  const maxHits = titles.reduce((max, item) => Math.max(max, item.hits), 1);
+  return titles.map(({ title, hits }) => ({
+    title,
+    source: 'recent',
+    popularity: Math.round((hits / maxHits) * 100),
+  }));
+}
+
+interface DoubanSubjectsResponse {
+  subjects?: Array<{ title: string }>;
+}
+
+async function fetchDoubanHotTitles(
+  type: 'movie' | 'tv',
+  proxy: string
+): Promise<string[]> {
+  const target = `https://movie.douban.com/j/search_subjects?type=${type}&tag=${encodeURIComponent(
+    '热门'
+  )}&sort=recommend&page_limit=${DOUBAN_HOT_LIMIT}&page_start=0`;
+  // 配置了豆瓣代理时经代理请求，与客户端的豆瓣请求一致
+  const url = proxy ? `${proxy}${encodeURIComponent(target)}` : target;
+  const response = await fetchFromSource(url, {
+    headers: {
+      'User-Agent':
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+      Referer: 'https://movie.douban.com/',
+      Accept: 'application/json, text/plain, */*',
+    },
+    timeout: DOUBAN_TIMEOUT,
+  });
+  const data: DoubanSubjectsResponse = await response.json();
+  return (data.subjects || []).map((subject) => subject.title);
+}
+
+async function loadDoubanHotTitles(): Promise<string[]> {
+  return getOrLoadCache(
+    'suggest:douban-hot',
+    { ttl: DOUBAN_HOT_CACHE_TIME },
+    async () => {
+      const proxy = (await getConfig()).SiteConfig.DoubanProxy?.trim() || '';
+      const [movies, tvs] = await Promise.all(
+        (['movie', 'tv'] as const).map((type) =>
+          fetchDoubanHotTitles(type, proxy).catch(() => [] as string[])
+        )
+      );
+      const merged: string[] = [];
+      for (let i = 0; i < Math.max(movies.length, tvs.length); i++) {
+        if (movies[i]) merged.push(movies[i]);
+        if (tvs[i]) merged.push(tvs[i]);
+      }
+      if (merged.length === 0) {
+        // 不按榜单时长缓存空结果，由外层短时缓存后重试
+        throw new Error('获取豆瓣热门失败');
+      }
+      return merged;
+    }
+  );
+}
+
+/**
+ * 豆瓣热门电影与剧集，电影与剧集按名次交替排列。单个榜单失败时忽略，
+ * 全部失败时在 DOUBAN_HOT_RETRY_TIME 内返回空列表，避免每次输入都等待豆瓣超时
+ */
+export async function getDoubanHotCandidates(): Promise<SuggestionCandidate[]> {
+  const titles = await getOrLoadCache(
+    'suggest:douban-hot-retry',
+    { ttl: DOUBAN_HOT_RETRY_TIME },
+    () => loadDoubanHotTitles().catch(() => [] as string[])
+  );
+  return titles.map((title, index) => ({
+    title,
+    source: 'hot',
+    popularity: rankPopularity(index, titles.length),
+  }));
+}
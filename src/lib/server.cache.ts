@@ -0,0 +1,192 @@
+/* eslint-disable no-console */
+
+import { getStorage } from './db';
+
+/**
+ * 服务端共享缓存
+ *
+ * 两级结构：
+ * - L1：进程内 LRU，始终启用
+ * - L2：存储后端（Redis / Upstash / D1）提供的 getCache/setCache，
+ *   仅在 NEXT_PUBLIC_STORAGE_TYPE 为非 localstorage 时启用，可在实例间共享
+ *
+ * 读取时支持 stale-while-revalidate：超过 ttl 但仍在 stale 窗口内的条目
+ * 会立即返回，同时在后台刷新；同一 key 的并发加载会被合并。
+ */
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number; // 毫秒时间戳
+}
+
+class MemoryLRU {
+  private map = new Map<string, CacheEntry<unknown>>();
+
+  constructor(private maxEntries: number) {}
+
+  get<T>(key: string): CacheEntry<T> | undefined {
+    const entry = this.map.get(key);
+    if (entry) {
+      // 重新插入以更新访问顺序
+      this.map.delete(key);
+      this.map.set(key, entry);
+    }
+    return entry as CacheEntry<T> | undefined;
+  }
+
+  set<T>(key: string, entry: CacheEntry<T>) {
+    this.map.delete(key);
+    this.map.set(key, entry);
+    while (this.map.size > this.maxEntries) {
+      const oldest = this.map.keys().next().value;
+      if (oldest === undefined) break;
+      this.map.delete(oldest);
+    }
+  }
+
+  delete(key: string) {
+    this.map.delete(key);
+  }
+
+  clear() {
+    this.map.clear();
+  }
+}
+
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+const KEY_PREFIX = 'cache:';
+
+const memoryCache = new MemoryLRU(MEMORY_CACHE_MAX_ENTRIES);
+const inflight = new Map<string, Promise<unknown>>();
+
+function hasSharedBackend(): boolean {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  return storageType !== 'localstorage';
+}
+
+async function readShared<T>(key: string): Promise<CacheEntry<T> | undefined> {
+  if (!hasSharedBackend()) return undefined;
+  try {
+    const raw = await getStorage()?.getCache(KEY_PREFIX + key);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : undefined;
+  } catch (err) {
+    console.error('读取共享缓存失败:', err);
+    return undefined;
+  }
+}
+
+async function writeShared<T>(
+  key: string,
+  entry: CacheEntry<T>,
+  ttlSeconds: number
+) {
+  if (!hasSharedBackend()) return;
+  try {
+    await getStorage()?.setCache(
+      KEY_PREFIX + key,
+      JSON.stringify(entry),
+      ttlSeconds
+    );
+  } catch (err) {
+    console.error('写入共享缓存失败:', err);
+  }
+}
+
+function load<T>(
+  key: string,
+  ttlSeconds: number,
+  staleSeconds: number,
+  loader: () => Promise<T>
+): Promise<T> {
+  const existing = inflight.get(key) as Promise<T> | undefined;
+  if (existing) return existing;
+
+  const promise = (async () => {
+    try {
+      const value = await loader();
+      const entry: CacheEntry<T> = { value, storedAt: Date.now() };
+      memoryCache.set(key, entry);
+      await writeShared(key, entry, ttlSeconds + staleSeconds);
+      return value;
+    } finally {
+      inflight.delete(key);
+    }
+  })();
+
+  inflight.set(key, promise);
+  return promise;
+}
+
+// HIT：新鲜期内命中；STALE：返回旧值并后台刷新；MISS：调用 loader 加载（含合并到进行中的加载）
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CacheOptions {
+  // 新鲜期（秒），通常取 SiteInterfaceCacheTime
+  ttl: number;
+  // 过期后仍可返回旧值并后台刷新的时长（秒），默认与 ttl 相同
+  stale?: number;
+}
+
+/**
+ * 读取缓存，未命中或已完全过期时调用 loader 加载并写入。
+ * loader 抛出的异常不会被缓存。
+ */
+export async function getOrLoadCache<T>(
+  key: string,
+  options: CacheOptions,
+  loader: () => Promise<T>
+): Promise<T> {
+  return (await getOrLoadCacheWithStatus(key, options, loader)).value;
+}
+
+/**
+ * 同 getOrLoadCache，额外返回命中状态，用于输出 X-Cache 等响应头
+ */
+export async function getOrLoadCacheWithStatus<T>(
+  key: string,
+  options: CacheOptions,
+  loader: () => Promise<T>
+): Promise<{ value: T; status: CacheStatus }> {
+  const ttl = options.ttl;
+  const stale = options.stale ?? options.ttl;
+  if (ttl <= 0) {
+    return { value: await loader(), status: 'MISS' };
+  }
+
+  let entry = memoryCache.get<T>(key);
+  if (!entry) {
+    entry = await readShared<T>(key);
+    if (entry) {
+      memoryCache.set(key, entry);
+    }
+  }
+
+  if (entry) {
+    const age = (Date.now() - entry.storedAt) / 1000;
+    if (age < ttl) {
+      return { value: entry.value, status: 'HIT' };
+    }
+    if (age < ttl + stale) {
+      // 返回旧值，后台刷新
+      load(key, ttl, stale, loader).catch((err) => {
+        console.error(`后台刷新缓存失败 (${key}):`, err);
+      });
+      return { value: entry.value, status: 'STALE' };
+    }
+  }
+
+  return { value: await load(key, ttl, stale, loader), status: 'MISS' };
+}
+
+export function invalidateCache(key?: string) {
+  if (key) {
+    memoryCache.delete(key);
+  } else {
+    memoryCache.clear();
+  }
+}
+
+// 规范化搜索关键词：去除首尾空白、合并连续空白、统一小写
+export function normalizeCacheQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -0,0 +1,166 @@
+import { SourceType } from './admin.types';
+import { ConcurrencyLimiter } from './concurrency';
+import { ApiSite } from './config';
+import type { SourceRoute } from './source.health';
+import { SearchResult } from './types';
+
+/**
+ * 下游视频源适配器
+ *
+ * 每种源类型（MacCMS JSON、HTML 详情页抓取、Eporner 等）实现同一组能力，
+ * downstream.ts 按 ApiSite.type 选择适配器，健康统计与缓存统一在外层处理。
+ * 新增非 MacCMS 站点只需实现本接口并在 downstream.ts 中注册。
+ */
+
+// 一页列表结果
+export interface SourcePage {
+  list: SearchResult[];
+  page: number;
+  pageCount: number;
+  total: number;
+}
+
+// 源自身的分类
+export interface SourceCategory {
+  type_id: string;
+  type_name: string;
+  type_pid?: string;
+}
+
+export interface SourceListOptions {
+  page?: number;
+  typeId?: string; // 分类 ID（MacCMS t 参数）
+  hours?: number; // 最近 N 小时内更新（MacCMS h 参数）
+}
+
+export interface SourceAdapter {
+  readonly type: SourceType;
+  search(site: ApiSite, query: string, page: number): Promise<SourcePage>;
+  detail(site: ApiSite, id: string): Promise<SearchResult>;
+  categories(site: ApiSite): Promise<SourceCategory[]>;
+  latest(site: ApiSite, options: SourceListOptions): Promise<SourcePage>;
+}
+
+/**
+ * 带超时的下游请求，HTTP 状态异常时抛出
+ */
+export async function fetchFromSource(
+  url: string,
+  options: { headers?: Record<string, string>; timeout: number }
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout);
+
+  try {
+    const response = await fetch(url, {
+      headers: options.headers,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// 所有源合计同时进行的下游请求数上限
+const MAX_CONCURRENT_REQUESTS = 16;
+// 未配置 maxConcurrency 时单个源同时进行的请求数上限
+const DEFAULT_SOURCE_CONCURRENCY = 4;
+
+const globalLimiter = new ConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+const sourceLimiters = new Map<string, ConcurrencyLimiter>();
+
+function getSourceLimiter(site: ApiSite): ConcurrencyLimiter {
+  const max = site.request?.maxConcurrency || DEFAULT_SOURCE_CONCURRENCY;
+  let limiter = sourceLimiters.get(site.key);
+  if (!limiter) {
+    limiter = new ConcurrencyLimiter(max);
+    sourceLimiters.set(site.key, limiter);
+  } else {
+    // 管理后台修改设置后即时生效
+    limiter.setMax(max);
+  }
+  return limiter;
+}
+
+// 代理设置为该值时走本站的 /api/cors-proxy
+export const BUILTIN_PROXY = 'builtin';
+
+/**
+ * 按代理地址模板改写请求地址：{url} 替换为编码后的原地址，没有 {url} 时拼接在末尾。
+ * 内置代理需要 SITE_BASE 提供本站的访问地址，服务端请求没有可用的相对路径
+ */
+export function applyProxyTemplate(proxy: string, url: string): string {
+  if (proxy === BUILTIN_PROXY) {
+    const base = process.env.SITE_BASE;
+    if (!base) {
+      throw new Error('内置代理需要配置 SITE_BASE');
+    }
+    proxy = `${base.replace(/\/+$/, '')}/api/cors-proxy?url=`;
+  }
+  const encoded = encodeURIComponent(url);
+  return proxy.includes('{url}')
+    ? proxy.replace('{url}', encoded)
+    : proxy + encoded;
+}
+
+/**
+ * 请求经过的线路，用于健康统计中直连与代理的对比
+ */
+export function getSourceRoute(site: ApiSite): SourceRoute {
+  return site.request?.proxy ? 'proxy' : 'direct';
+}
+
+/**
+ * 按源的请求设置（超时、请求头、Referer、代理）请求并读取响应文本。
+ * 先占用该源的并发名额，再占用全局名额，读完响应体才释放；
+ * 超时从排队时开始计算，覆盖排队、请求与读取响应体的整个过程
+ */
+export async function fetchSourceText(
+  site: ApiSite,
+  url: string,
+  options: { headers?: Record<string, string>; timeout: number }
+): Promise<string> {
+  const settings = site.request || {};
+  const headers: Record<string, string> = {
+    ...options.headers,
+    ...settings.headers,
+  };
+  if (settings.referer) {
+    headers.Referer = settings.referer;
+  }
+  const target = settings.proxy ? applyProxyTemplate(settings.proxy, url) : url;
+  const timeout = settings.timeout || options.timeout;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await getSourceLimiter(site).run(
+      () =>
+        globalLimiter.run(async () => {
+          const response = await fetch(target, {
+            headers,
+            signal: controller.signal,
+          });
+          if (!response.ok) {
+            throw new Error(`请求失败: ${response.status}`);
+          }
+          return await response.text();
+        }, controller.signal),
+      controller.signal
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// 提取年份，无法识别时返回 'unknown'
+export function extractYear(year?: string | number | null): string {
+  if (year === undefined || year === null || year === '') {
+    return 'unknown';
+  }
+  return String(year).match(/\d{4}/)?.[0] || '';
+}
@@ -0,0 +1,138 @@
+import { getAvailableApiSites } from './config';
+import { db } from './db';
+import { searchFromApi } from './downstream';
+import { countRegularEpisodes } from './episodes';
+import { isSameWork } from './search.grouping';
+import { SearchResult, SourceAvailability, SourceReplacement } from './types';
+
+/**
+ * 收藏与播放记录的源可用性
+ *
+ * 定时任务逐条获取详情，连续失败达到阈值后标记为失效，并按 标题 + 年份 在其他源中寻找同一作品。
+ * 用户确认后把收藏与播放进度迁移到替代源。可用性按 source+id 记录，收藏与播放记录共用一份。
+ */
+
+// 连续失败多少次后标记为失效，避免源的短暂故障误判
+export const AVAILABILITY_FAILURE_THRESHOLD = 3;
+
+/**
+ * 记录一次获取详情失败，返回新的可用性（不修改入参）
+ */
+export function markCheckFailed(
+  previous: SourceAvailability | undefined,
+  now = Date.now()
+): SourceAvailability {
+  const failures = (previous?.failures || 0) + 1;
+  return {
+    failures,
+    unavailable: failures >= AVAILABILITY_FAILURE_THRESHOLD,
+    checked_at: now,
+    replacement: previous?.replacement,
+  };
+}
+
+/**
+ * 从搜索结果中挑选替代源：同一作品、不同源、有正片剧集，剧集最多者优先
+ */
+export function pickReplacement(
+  results: SearchResult[],
+  target: { title: string; year?: string },
+  excludeSource: string
+): SourceReplacement | null {
+  const candidates = results
+    .filter(
+      (result) =>
+        result.source !== excludeSource &&
+        countRegularEpisodes(result) > 0 &&
+        isSameWork(result, target)
+    )
+    .sort((a, b) => countRegularEpisodes(b) - countRegularEpisodes(a));
+  const best = candidates[0];
+  if (!best) return null;
+
+  return {
+    source: best.source,
+    id: best.id,
+    source_name: best.source_name,
+    title: best.title,
+    year: best.year,
+    cover: best.poster,
+    // 与播放记录的 index 一致，按完整剧集列表计数
+    total_episodes: best.episodes.length,
+  };
+}
+
+/**
+ * 在其余已启用的源中搜索同一作品
+ */
+export async function findReplacement(
+  title: string,
+  year: string | undefined,
+  excludeSource: string
+): Promise<SourceReplacement | null> {
+  const apiSites = await getAvailableApiSites();
+  const results = await Promise.all(
+    apiSites
+      .filter((site) => site.key !== excludeSource)
+      .map((site) => searchFromApi(site, title.trim()))
+  );
+  return pickReplacement(results.flat(), { title, year }, excludeSource);
+}
+
+/**
+ * 把失效条目的收藏与播放记录迁移到替代源，保留观看进度；返回迁移后的 key，没有可用替代时返回 null。
+ * 替代源上已有更新（save_time 更晚）的记录时保留该记录，只删除失效条目
+ */
+export async function migrateToReplacement(
+  userName: string,
+  key: string
+): Promise<string | null> {
+  const availability = (await db.getAllSourceAvailability(userName))[key];
+  const replacement = availability?.replacement;
+  if (!availability?.unavailable || !replacement) {
+    return null;
+  }
+
+  const [source, id] = key.split('+');
+  const [record, favorite, targetRecord, targetFavorite] = await Promise.all([
+    db.getPlayRecord(userName, source, id),
+    db.getFavorite(userName, source, id),
+    db.getPlayRecord(userName, replacement.source, replacement.id),
+    db.getFavorite(userName, replacement.source, replacement.id),
+  ]);
+
+  if (record && (!targetRecord || targetRecord.save_time < record.save_time)) {
+    await db.savePlayRecord(userName, replacement.source, replacement.id, {
+      ...record,
+      title: replacement.title,
+      source_name: replacement.source_name,
+      cover: replacement.cover || record.cover,
+      year: replacement.year || record.year,
+      total_episodes: replacement.total_episodes,
+      // 新源剧集较少时退回到最后一集
+      index: Math.min(record.index, replacement.total_episodes),
+    });
+  }
+  if (record) {
+    await db.deletePlayRecord(userName, source, id);
+  }
+  if (
+    favorite &&
+    (!targetFavorite || targetFavorite.save_time < favorite.save_time)
+  ) {
+    await db.saveFavorite(userName, replacement.source, replacement.id, {
+      ...favorite,
+      title: replacement.title,
+      source_name: replacement.source_name,
+      cover: replacement.cover || favorite.cover,
+      year: replacement.year || favorite.year,
+      total_episodes: replacement.total_episodes,
+    });
+  }
+  if (favorite) {
+    await db.deleteFavorite(userName, source, id);
+  }
+  await db.deleteSourceAvailability(userName, key);
+
+  return `${replacement.source}+${replacement.id}`;
+}
@@ -0,0 +1,288 @@
+/**
+ * 下游视频源健康状态与熔断器
+ *
+ * 以 ApiSite.key 为维度记录延迟、错误率与最近成功时间。
+ * 连续失败达到阈值后熔断（open），期间直接跳过该源；
+ * 冷却时间过后进入半开（half-open），仅放行一个探测请求，
+ * 成功则恢复（closed），失败则重新熔断。
+ *
+ * 另外按请求路径（直连 / 经代理）分别统计成功率与延迟，便于比较某个源是否需要走代理。
+ *
+ * 状态保存在模块级内存中，按运行实例独立统计。
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type SourceRoute = 'direct' | 'proxy';
+
+// 单一请求路径的统计，不参与熔断判断
+export interface RouteHealth {
+  successCount: number;
+  failureCount: number;
+  errorRate: number; // 0 ~ 1
+  avgLatency: number; // 毫秒，指数滑动平均
+  lastError: string | null;
+}
+
+export interface SourceHealth {
+  key: string;
+  state: CircuitState;
+  successCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+  errorRate: number; // 0 ~ 1
+  avgLatency: number; // 毫秒，指数滑动平均
+  lastLatency: number;
+  lastSuccess: number | null; // 时间戳
+  lastFailure: number | null;
+  lastError: string | null;
+  openedAt: number | null;
+  routes: { [route in SourceRoute]: RouteHealth };
+}
+
+export const HEALTH_CONFIG = {
+  // 连续失败多少次后熔断
+  failureThreshold: 3,
+  // 熔断后多久进入半开状态（毫秒）
+  openDuration: 60 * 1000,
+  // 延迟滑动平均权重
+  latencyAlpha: 0.3,
+};
+
+/**
+ * 源处于熔断状态时抛出，调用方可据此区分"被跳过"与"请求失败"
+ */
+export class SourceUnavailableError extends Error {
+  constructor(public readonly sourceKey: string) {
+    super(`视频源暂不可用（熔断中）: ${sourceKey}`);
+    this.name = 'SourceUnavailableError';
+  }
+}
+
+// 以 name 判断而非 instanceof，避免编译目标为 ES5 时继承 Error 的原型链问题
+export function isSourceUnavailableError(error: unknown): boolean {
+  return (error as Error)?.name === 'SourceUnavailableError';
+}
+
+/**
+ * 条目已下架或详情为空时由适配器抛出。源本身响应正常，不计为失败，
+ * 避免连续查到几个已下架条目就熔断一个健康的源
+ */
+export class SourceItemNotFoundError extends Error {
+  constructor(message = '获取到的详情内容无效') {
+    super(message);
+    this.name = 'SourceItemNotFoundError';
+  }
+}
+
+export function isSourceItemNotFoundError(error: unknown): boolean {
+  return (error as Error)?.name === 'SourceItemNotFoundError';
+}
+
+const healthMap = new Map<string, SourceHealth>();
+// 半开状态下是否已有探测请求在进行
+const probing = new Set<string>();
+
+function createRouteHealth(): RouteHealth {
+  return {
+    successCount: 0,
+    failureCount: 0,
+    errorRate: 0,
+    avgLatency: 0,
+    lastError: null,
+  };
+}
+
+function describeError(error: unknown): string {
+  return (error as Error)?.name === 'AbortError'
+    ? '请求超时'
+    : (error as Error)?.message || String(error);
+}
+
+function getOrCreate(key: string): SourceHealth {
+  let health = healthMap.get(key);
+  if (!health) {
+    health = {
+      key,
+      state: 'closed',
+      successCount: 0,
+      failureCount: 0,
+      consecutiveFailures: 0,
+      errorRate: 0,
+      avgLatency: 0,
+      lastLatency: 0,
+      lastSuccess: null,
+      lastFailure: null,
+      lastError: null,
+      openedAt: null,
+      routes: { direct: createRouteHealth(), proxy: createRouteHealth() },
+    };
+    healthMap.set(key, health);
+  }
+  return health;
+}
+
+// 延迟的指数滑动平均
+function smoothLatency(avgLatency: number, latency: number): number {
+  return avgLatency === 0
+    ? latency
+    : Math.round(
+        HEALTH_CONFIG.latencyAlpha * latency +
+          (1 - HEALTH_CONFIG.latencyAlpha) * avgLatency
+      );
+}
+
+function updateErrorRate(health: SourceHealth | RouteHealth) {
+  const total = health.successCount + health.failureCount;
+  health.errorRate = total > 0 ? health.failureCount / total : 0;
+}
+
+/**
+ * 只记录某条请求路径的结果，不影响熔断状态；用于直连与代理的对比测试
+ */
+export function recordRouteResult(
+  key: string,
+  route: SourceRoute,
+  latency: number,
+  error?: unknown
+) {
+  const stats = getOrCreate(key).routes[route];
+  if (error === undefined) {
+    stats.successCount++;
+  } else {
+    stats.failureCount++;
+    stats.lastError = describeError(error);
+  }
+  stats.avgLatency = smoothLatency(stats.avgLatency, latency);
+  updateErrorRate(stats);
+}
+
+/**
+ * 判断当前是否允许请求该源；熔断冷却结束时转为半开并放行一个探测请求
+ */
+export function canRequest(key: string): boolean {
+  const health = healthMap.get(key);
+  if (!health || health.state === 'closed') {
+    return true;
+  }
+
+  if (health.state === 'open') {
+    if (Date.now() - (health.openedAt || 0) < HEALTH_CONFIG.openDuration) {
+      return false;
+    }
+    health.state = 'half-open';
+  }
+
+  // half-open：同一时间只放行一个探测请求
+  if (probing.has(key)) {
+    return false;
+  }
+  probing.add(key);
+  return true;
+}
+
+export function recordSuccess(
+  key: string,
+  latency: number,
+  route: SourceRoute = 'direct'
+) {
+  recordRouteResult(key, route, latency);
+  const health = getOrCreate(key);
+  health.successCount++;
+  health.consecutiveFailures = 0;
+  health.lastSuccess = Date.now();
+  health.state = 'closed';
+  health.openedAt = null;
+  health.lastLatency = latency;
+  health.avgLatency = smoothLatency(health.avgLatency, latency);
+  updateErrorRate(health);
+  probing.delete(key);
+}
+
+export function recordFailure(
+  key: string,
+  latency: number,
+  error: unknown,
+  route: SourceRoute = 'direct'
+) {
+  recordRouteResult(key, route, latency, error);
+  const health = getOrCreate(key);
+  health.failureCount++;
+  health.consecutiveFailures++;
+  health.lastFailure = Date.now();
+  health.lastError = describeError(error);
+  health.lastLatency = latency;
+  health.avgLatency = smoothLatency(health.avgLatency, latency);
+  updateErrorRate(health);
+
+  if (
+    health.state === 'half-open' ||
+    health.consecutiveFailures >= HEALTH_CONFIG.failureThreshold
+  ) {
+    health.state = 'open';
+    health.openedAt = Date.now();
+  }
+  probing.delete(key);
+}
+
+/**
+ * 包装一次对下游源的请求：熔断时直接抛出 SourceUnavailableError，
+ * 否则记录本次请求的耗时与成败，route 为本次请求是否经过代理。
+ * 只有网络、HTTP 与解析错误计为失败，SourceItemNotFoundError 按成功响应记录后原样抛出
+ */
+export async function withSourceHealth<T>(
+  key: string,
+  task: () => Promise<T>,
+  route: SourceRoute = 'direct'
+): Promise<T> {
+  if (!canRequest(key)) {
+    throw new SourceUnavailableError(key);
+  }
+
+  const startedAt = Date.now();
+  try {
+    const result = await task();
+    recordSuccess(key, Date.now() - startedAt, route);
+    return result;
+  } catch (error) {
+    if (isSourceItemNotFoundError(error)) {
+      recordSuccess(key, Date.now() - startedAt, route);
+    } else {
+      recordFailure(key, Date.now() - startedAt, error, route);
+    }
+    throw error;
+  }
+}
+
+function cloneHealth(health: SourceHealth): SourceHealth {
+  return {
+    ...health,
+    routes: {
+      direct: { ...health.routes.direct },
+      proxy: { ...health.routes.proxy },
+    },
+  };
+}
+
+export function getSourceHealth(key: string): SourceHealth | null {
+  const health = healthMap.get(key);
+  return health ? cloneHealth(health) : null;
+}
+
+export function getAllSourceHealth(): { [key: string]: SourceHealth } {
+  const result: { [key: string]: SourceHealth } = {};
+  healthMap.forEach((health, key) => {
+    result[key] = cloneHealth(health);
+  });
+  return result;
+}
+
+export function resetSourceHealth(key?: string) {
+  if (key) {
+    healthMap.delete(key);
+    probing.delete(key);
+  } else {
+    healthMap.clear();
+    probing.clear();
+  }
+}
@@ -0,0 +1,147 @@
+import { db } from './db';
+import { normalizeTitle } from './search.grouping';
+import { SourcePreference, SourcePreferences } from './types';
+
+/**
+ * 播放源偏好
+ *
+ * 记录每部作品在各播放源上的表现：成功播放、播放失败、用户手动切换。
+ * 自动选中的源要实际播放一段时间后才计分，避免播放不了的偏好源靠被选中不断加分。
+ * 每个用户单独记录一份，同时汇总到全体用户共享的一份，
+ * 下次打开（或其他用户首次打开）时直接从历史最佳的源开始，省去测速。
+ * 得分按半衰期指数衰减，源的质量变化后旧的评价会逐渐失效。
+ */
+
+export type SourcePreferenceEvent = 'pick' | 'switch' | 'leave' | 'fail';
+
+export interface RankedSourcePreference {
+  source: string;
+  score: number;
+}
+
+// 得分半衰期（毫秒）
+const PREFERENCE_HALF_LIFE = 30 * 24 * 60 * 60 * 1000;
+// 单部作品最多保留的源数，超出时丢弃得分绝对值最小的
+const MAX_SOURCES_PER_TITLE = 30;
+// 排序时个人偏好相对全体汇总的权重
+const USER_PREFERENCE_WEIGHT = 2;
+
+// 各事件对得分的影响：手动切换是最明确的偏好，失败的惩罚重于单次优选的奖励
+const EVENT_SCORES: { [event in SourcePreferenceEvent]: number } = {
+  pick: 1,
+  switch: 3,
+  leave: -1,
+  fail: -3,
+};
+
+export function isSourcePreferenceEvent(
+  value: unknown
+): value is SourcePreferenceEvent {
+  return typeof value === 'string' && value in EVENT_SCORES;
+}
+
+/**
+ * 作品的偏好 key：规范化标题 + 年份，与搜索结果的同作品判定保持一致
+ */
+export function preferenceTitleKey(title: string, year?: string): string {
+  return `${normalizeTitle(title)}:${year || ''}`;
+}
+
+export function decayedScore(
+  preference: SourcePreference,
+  now = Date.now()
+): number {
+  const age = Math.max(0, now - preference.updated_at);
+  return preference.score * Math.pow(0.5, age / PREFERENCE_HALF_LIFE);
+}
+
+/**
+ * 记录一次事件，返回新的偏好（不修改入参）
+ */
+export function applySourceEvent(
+  preferences: SourcePreferences,
+  source: string,
+  event: SourcePreferenceEvent,
+  now = Date.now()
+): SourcePreferences {
+  const current = preferences[source];
+  const next: SourcePreference = {
+    score: (current ? decayedScore(current, now) : 0) + EVENT_SCORES[event],
+    picks: (current?.picks || 0) + (event === 'pick' ? 1 : 0),
+    failures: (current?.failures || 0) + (event === 'fail' ? 1 : 0),
+    switches: (current?.switches || 0) + (event === 'switch' ? 1 : 0),
+    updated_at: now,
+  };
+
+  const entries = Object.entries({ ...preferences, [source]: next })
+    .sort(
+      ([, a], [, b]) =>
+        Math.abs(decayedScore(b, now)) - Math.abs(decayedScore(a, now))
+    )
+    .slice(0, MAX_SOURCES_PER_TITLE);
+  return Object.fromEntries(entries);
+}
+
+/**
+ * 合并个人偏好与全体汇总，按衰减后的得分从高到低排序
+ */
+export function rankSourcePreferences(
+  userPreferences: SourcePreferences | null,
+  globalPreferences: SourcePreferences | null,
+  now = Date.now()
+): RankedSourcePreference[] {
+  const scores: { [source: string]: number } = {};
+  Object.entries(globalPreferences || {}).forEach(([source, preference]) => {
+    scores[source] = decayedScore(preference, now);
+  });
+  Object.entries(userPreferences || {}).forEach(([source, preference]) => {
+    scores[source] =
+      (scores[source] || 0) +
+      decayedScore(preference, now) * USER_PREFERENCE_WEIGHT;
+  });
+
+  return Object.entries(scores)
+    .map(([source, score]) => ({
+      source,
+      score: Math.round(score * 100) / 100,
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export async function getSourcePreferenceRanking(
+  userName: string | null,
+  title: string,
+  year?: string
+): Promise<RankedSourcePreference[]> {
+  const titleKey = preferenceTitleKey(title, year);
+  const [userPreferences, globalPreferences] = await Promise.all([
+    userName ? db.getSourcePreferences(userName, titleKey) : null,
+    db.getSourcePreferences(null, titleKey),
+  ]);
+  return rankSourcePreferences(userPreferences, globalPreferences);
+}
+
+/**
+ * 同时更新个人偏好与全体汇总。汇总为读-改-写，并发时可能丢失个别事件，对排序影响可以忽略
+ */
+export async function recordSourceEvent(
+  userName: string | null,
+  title: string,
+  year: string | undefined,
+  source: string,
+  event: SourcePreferenceEvent
+): Promise<void> {
+  const titleKey = preferenceTitleKey(title, year);
+  const scopes: Array<string | null> = userName ? [userName, null] : [null];
+  await Promise.all(
+    scopes.map(async (scope) => {
+      const preferences =
+        (await db.getSourcePreferences(scope, titleKey)) || {};
+      await db.setSourcePreferences(
+        scope,
+        titleKey,
+        applySourceEvent(preferences, source, event)
+      );
+    })
+  );
+}
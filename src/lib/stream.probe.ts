@@ -0,0 +1,271 @@
+import { getOrLoadCache } from './server.cache';
+import { SearchResult } from './types';
+
+/**
+ * 服务端 m3u8 测速
+ *
+ * 播放页原先在浏览器中对每个候选源加载 hls.js 并下载分片测速，车机等弱网环境下代价很高。
+ * 这里改由服务端探测：清单可达性与首字节时间（TTFB）、主清单 #EXT-X-STREAM-INF 中的分辨率、
+ * 首个分片的下载速度。测量值按 源 + 域名 缓存，评分在每次排序时按本批候选的相对表现计算。
+ */
+
+export interface StreamVariant {
+  uri: string;
+  bandwidth: number;
+  width: number;
+  height: number;
+}
+
+export interface StreamProbe {
+  ok: boolean;
+  quality: string; // 4K / 2K / 1080p / 720p / 480p / SD / 未知
+  width: number; // 未知时为 0
+  ttfb: number; // 清单首字节时间（毫秒）
+  speedKBps: number; // 首个分片下载速度，未测得时为 0
+  error?: string;
+}
+
+export interface ProbeCandidate {
+  source: string;
+  id: string;
+  url: string;
+}
+
+export interface RankedProbe extends ProbeCandidate, StreamProbe {
+  score: number;
+}
+
+// 单个候选的探测总时长上限（毫秒）
+const PROBE_TIMEOUT = 6000;
+// 测速最多下载的分片字节数
+const MAX_SEGMENT_BYTES = 512 * 1024;
+// 测量值缓存时长（秒）
+const PROBE_CACHE_TIME = 10 * 60;
+
+const PROBE_HEADERS = {
+  'User-Agent':
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+  Accept: '*/*',
+};
+
+/**
+ * 与浏览器测速一致的分辨率分档，按宽度判断
+ */
+export function qualityFromWidth(width: number): string {
+  if (!width || width <= 0) return '未知';
+  if (width >= 3840) return '4K';
+  if (width >= 2560) return '2K';
+  if (width >= 1920) return '1080p';
+  if (width >= 1280) return '720p';
+  if (width >= 854) return '480p';
+  return 'SD';
+}
+
+function readAttribute(attrs: string, name: string): string {
+  const match = attrs.match(new RegExp(`(?:^|,)${name}=("[^"]*"|[^,]*)`));
+  return match ? match[1].replace(/"/g, '') : '';
+}
+
+/**
+ * 解析主清单中的各码率变体，非主清单返回空数组
+ */
+export function parseStreamVariants(
+  manifest: string,
+  baseUrl: string
+): StreamVariant[] {
+  const lines = manifest.split(/\r?\n/).map((line) => line.trim());
+  const variants: StreamVariant[] = [];
+  lines.forEach((line, index) => {
+    if (!line.startsWith('#EXT-X-STREAM-INF:')) return;
+    const attrs = line.slice('#EXT-X-STREAM-INF:'.length);
+    const uri = lines
+      .slice(index + 1)
+      .find((next) => next && !next.startsWith('#'));
+    if (!uri) return;
+    const [width, height] = readAttribute(attrs, 'RESOLUTION')
+      .split('x')
+      .map((value) => parseInt(value, 10) || 0);
+    variants.push({
+      uri: new URL(uri, baseUrl).href,
+      bandwidth: parseInt(readAttribute(attrs, 'BANDWIDTH'), 10) || 0,
+      width: width || 0,
+      height: height || 0,
+    });
+  });
+  return variants;
+}
+
+/**
+ * 媒体清单中的首个分片地址
+ */
+export function findFirstSegment(
+  manifest: string,
+  baseUrl: string
+): string | null {
+  const uri = manifest
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith('#'));
+  return uri ? new URL(uri, baseUrl).href : null;
+}
+
+async function fetchText(url: string, signal: AbortSignal) {
+  const response = await fetch(url, { headers: PROBE_HEADERS, signal });
+  if (!response.ok) {
+    throw new Error(`请求失败: ${response.status}`);
+  }
+  return response.text();
+}
+
+// 下载分片开头部分并计算速度（KB/s）
+async function measureSegment(
+  url: string,
+  signal: AbortSignal
+): Promise<number> {
+  const start = Date.now();
+  const response = await fetch(url, { headers: PROBE_HEADERS, signal });
+  if (!response.ok || !response.body) return 0;
+
+  const reader = response.body.getReader();
+  let bytes = 0;
+  while (bytes < MAX_SEGMENT_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+  }
+  reader.cancel().catch(() => undefined);
+
+  const seconds = (Date.now() - start) / 1000;
+  return seconds > 0 && bytes > 0 ? bytes / 1024 / seconds : 0;
+}
+
+/**
+ * 探测单个 m3u8：主清单取最高码率变体，分片测速失败不影响可达性结论
+ */
+export async function probeStream(url: string): Promise<StreamProbe> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+  const start = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      headers: PROBE_HEADERS,
+      signal: controller.signal,
+    });
+    const ttfb = Date.now() - start;
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+    let manifest = await response.text();
+    if (!manifest.includes('#EXTM3U')) {
+      throw new Error('不是有效的 m3u8 清单');
+    }
+
+    let mediaUrl = url;
+    let width = 0;
+    const variants = parseStreamVariants(manifest, url);
+    if (variants.length > 0) {
+      const best = variants.reduce((a, b) =>
+        b.bandwidth > a.bandwidth ? b : a
+      );
+      width = best.width;
+      mediaUrl = best.uri;
+      manifest = await fetchText(mediaUrl, controller.signal);
+    }
+
+    const segment = findFirstSegment(manifest, mediaUrl);
+    const speedKBps = segment
+      ? await measureSegment(segment, controller.signal).catch(() => 0)
+      : 0;
+
+    return {
+      ok: true,
+      quality: qualityFromWidth(width),
+      width,
+      ttfb,
+      speedKBps: Math.round(speedKBps * 10) / 10,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      quality: '未知',
+      width: 0,
+      ttfb: Date.now() - start,
+      speedKBps: 0,
+      error:
+        (error as Error)?.name === 'AbortError'
+          ? '探测超时'
+          : (error as Error)?.message || '探测失败',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 从服务端获取的详情中选取测速地址：优先第二集（部分源第一集为预告），非 http(s) 地址返回 null
+ */
+export function pickProbeUrl(detail: SearchResult): string | null {
+  const { episodes } = detail;
+  const url = episodes.length > 1 ? episodes[1] : episodes[0];
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+/**
+ * 带缓存的探测，同一源、同一域名的测量值在 PROBE_CACHE_TIME 内复用
+ */
+export function probeCandidate(
+  candidate: ProbeCandidate
+): Promise<StreamProbe> {
+  const host = new URL(candidate.url).host;
+  return getOrLoadCache(
+    `probe:${candidate.source}:${host}`,
+    { ttl: PROBE_CACHE_TIME, stale: 0 },
+    () => probeStream(candidate.url)
+  );
+}
+
+const QUALITY_SCORES: { [quality: string]: number } = {
+  '4K': 100,
+  '2K': 85,
+  '1080p': 75,
+  '720p': 60,
+  '480p': 40,
+  SD: 20,
+};
+
+/**
+ * 综合评分并排序：分辨率 40%、速度 40%（相对本批最快者）、TTFB 20%（在本批区间内线性映射），
+ * 与原浏览器端评分规则一致。不可达的候选得 0 分并排在最后
+ */
+export function rankProbes(
+  probes: Array<ProbeCandidate & StreamProbe>
+): RankedProbe[] {
+  const reachable = probes.filter((probe) => probe.ok);
+  const speeds = reachable.map((p) => p.speedKBps).filter((s) => s > 0);
+  const maxSpeed = speeds.length > 0 ? Math.max(...speeds) : 1024;
+  const ttfbs = reachable.map((p) => p.ttfb).filter((t) => t > 0);
+  const minTtfb = ttfbs.length > 0 ? Math.min(...ttfbs) : 50;
+  const maxTtfb = ttfbs.length > 0 ? Math.max(...ttfbs) : 1000;
+
+  const score = (probe: StreamProbe) => {
+    if (!probe.ok) return 0;
+    const qualityScore = QUALITY_SCORES[probe.quality] || 0;
+    const speedScore =
+      probe.speedKBps > 0
+        ? Math.min(100, (probe.speedKBps / maxSpeed) * 100)
+        : 30;
+    const ttfbScore =
+      probe.ttfb <= 0
+        ? 0
+        : maxTtfb === minTtfb
+        ? 100
+        : Math.max(0, ((maxTtfb - probe.ttfb) / (maxTtfb - minTtfb)) * 100);
+    const total = qualityScore * 0.4 + speedScore * 0.4 + ttfbScore * 0.2;
+    return Math.round(total * 100) / 100;
+  };
+
+  return probes
+    .map((probe) => ({ ...probe, score: score(probe) }))
+    .sort((a, b) => Number(b.ok) - Number(a.ok) || b.score - a.score);
+}
@@ -79,6 +79,51 @@ export interface IStorage {
   ): Promise<void>;
   deleteSkipConfig(userName: string, source: string, id: string): Promise<void>;
   getAllSkipConfigs(userName: string): Promise<{ [key: string]: SkipConfig }>;
+
+  // 播放源偏好相关（userName 为 null 时读写全体用户的汇总）
+  getSourcePreferences(
+    userName: string | null,
+    titleKey: string
+  ): Promise<SourcePreferences | null>;
+  setSourcePreferences(
+    userName: string | null,
+    titleKey: string,
+    preferences: SourcePreferences
+  ): Promise<void>;
+
+  // 收藏/播放记录的源可用性相关（key 为 source+id），由定时任务维护
+  getAllSourceAvailability(
+    userName: string
+  ): Promise<{ [key: string]: SourceAvailability }>;
+  setSourceAvailability(
+    userName: string,
+    key: string,
+    availability: SourceAvailability
+  ): Promise<void>;
+  deleteSourceAvailability(userName: string, key: string): Promise<void>;
+
+  // MacCMS vod_id 登记表：字符串 key 与自增整数 ID 一一对应，已登记的 key 返回原 ID
+  registerVodId(key: string): Promise<number>;
+  getVodKey(vodId: number): Promise<string | null>;
+
+  // 服务端共享缓存相关（值为序列化后的字符串，过期由存储自行处理）
+  getCache(key: string): Promise<string | null>;
+  setCache(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+// 剧集类型：正片、特别篇/花絮、预告
+export type EpisodeKind = 'regular' | 'special' | 'trailer';
+
+export interface Episode {
+  title: string;
+  url: string;
+  kind: EpisodeKind;
+}
+
+// 播放线路（对应 MacCMS 的 vod_play_from 与 $$$ 分隔的 vod_play_url）
+export interface PlayLine {
+  name: string;
+  episodes: Episode[];
 }
 
 // 搜索结果数据结构
@@ -86,7 +131,9 @@ export interface SearchResult {
   id: string;
   title: string;
   poster: string;
-  episodes: string[];
+  episodes: string[]; // 默认线路的剧集地址
+  episode_list?: Episode[]; // 默认线路的剧集详情，与 episodes 一一对应
+  play_lines?: PlayLine[]; // 全部可用线路，包含默认线路
   source: string;
   source_name: string;
   class?: string;
@@ -117,3 +164,34 @@ export interface SkipConfig {
   intro_time: number; // 片头时间（秒）
   outro_time: number; // 片尾时间（秒）
 }
+
+// 单个播放源的偏好统计，score 随时间衰减
+export interface SourcePreference {
+  score: number; // 截至 updated_at 的得分
+  picks: number; // 被选中播放的次数
+  failures: number; // 播放失败次数
+  switches: number; // 被用户手动切换为当前源的次数
+  updated_at: number; // 最近更新时间（时间戳）
+}
+
+// 同一作品下各播放源的偏好，key 为源 key
+export type SourcePreferences = { [source: string]: SourcePreference };
+
+// 在其他源找到的同一作品，供用户迁移收藏与播放进度
+export interface SourceReplacement {
+  source: string;
+  id: string;
+  source_name: string;
+  title: string;
+  year: string;
+  cover: string;
+  total_episodes: number;
+}
+
+// 收藏/播放记录所在源的可用性，只记录检测失败过的条目
+export interface SourceAvailability {
+  failures: number; // 连续获取详情失败的次数
+  unavailable: boolean; // 连续失败达到阈值后标记为失效
+  checked_at: number; // 最近检测时间（时间戳）
+  replacement?: SourceReplacement;
+}